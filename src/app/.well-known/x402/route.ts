@@ -0,0 +1,67 @@
+/**
+ * x402 discovery manifest
+ *
+ * GET /.well-known/x402 - Every paywalled resource this merchant sells
+ *
+ * Built from the same paywall definitions the routes enforce
+ * (src/lib/resources.ts), so prices, assets and payTo always match the
+ * live 402 responses. Prices are the base quote; payer-specific pricing
+ * rules (volume tiers) can lower them at purchase time.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { buildArticlePreview, getAllArticles } from '@/lib/articles'
+import { getAllBundles, getBundleArticles, isBundleAvailable } from '@/lib/bundles'
+import { resolveMerchant } from '@/lib/merchants'
+import { getPassProducts } from '@/lib/passes'
+import {
+  advertisedRequirements,
+  articlePaywall,
+  bundlePaywall,
+  buildResource,
+  passPaywall,
+  PaywalledResource,
+  STATIC_PAYWALLS,
+} from '@/lib/resources'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(req: NextRequest) {
+  const baseUrl = process.env.PUBLIC_BASE_URL || req.nextUrl.origin
+
+  try {
+    const articles = getAllArticles()
+    const previews = new Map(articles.map(a => [a.slug, buildArticlePreview(a)]))
+
+    const resources: PaywalledResource[] = [
+      ...await Promise.all(articles.map(article => buildResource(articlePaywall(article)))),
+      ...await Promise.all(getAllBundles()
+        .filter(isBundleAvailable)
+        .map(bundle => ({ bundle, articles: getBundleArticles(bundle) }))
+        .map(({ bundle, articles }) => buildResource(bundlePaywall(bundle, articles)))),
+      ...await Promise.all(getPassProducts().map(product => buildResource(passPaywall(product)))),
+      ...await Promise.all(STATIC_PAYWALLS.map(options => buildResource(options))),
+    ]
+
+    return NextResponse.json({
+      x402Version: 2,
+      merchant: { name: resolveMerchant().name },
+      generatedAt: new Date().toISOString(),
+      resources: resources.map(resource => ({
+        type: resource.type,
+        resource: `${baseUrl}${resource.path}`,
+        description: resource.routeConfig.description,
+        mimeType: resource.routeConfig.mimeType,
+        price: { amount: resource.price, currency: resource.currency },
+        accepts: advertisedRequirements(resource),
+        ...(resource.type === 'article' && { preview: previews.get(resource.slug) }),
+      })),
+    })
+  } catch (error) {
+    console.error('Failed to build x402 manifest:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to build manifest' },
+      { status: 503 }
+    )
+  }
+}
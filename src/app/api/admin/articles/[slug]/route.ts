@@ -0,0 +1,68 @@
+/**
+ * Single article management API
+ *
+ * GET    /api/admin/articles/:slug - Get an article, including unpublished ones
+ * PATCH  /api/admin/articles/:slug - Update fields (content, priceUsd, published, ...)
+ * DELETE /api/admin/articles/:slug - Unpublish (the record is kept for revenue attribution)
+ *
+ * Requires `Authorization: Bearer <ADMIN_API_KEY>`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-auth'
+import { articleUpdateSchema, getArticleBySlug, unpublishArticle, updateArticle } from '@/lib/articles'
+
+export const dynamic = 'force-dynamic'
+
+type RouteContext = { params: Promise<{ slug: string }> }
+
+export async function GET(req: NextRequest, context: RouteContext) {
+  const denied = requireAdmin(req)
+  if (denied) return denied
+
+  const { slug } = await context.params
+  const article = getArticleBySlug(slug, { includeUnpublished: true })
+
+  if (!article) {
+    return NextResponse.json({ error: 'Article not found' }, { status: 404 })
+  }
+
+  return NextResponse.json({ article })
+}
+
+export async function PATCH(req: NextRequest, context: RouteContext) {
+  const denied = requireAdmin(req)
+  if (denied) return denied
+
+  const { slug } = await context.params
+  const parsed = articleUpdateSchema.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid article update', issues: parsed.error.issues },
+      { status: 400 }
+    )
+  }
+
+  const article = updateArticle(slug, parsed.data)
+  if (!article) {
+    return NextResponse.json({ error: 'Article not found' }, { status: 404 })
+  }
+
+  console.log(`📝 Updated article ${slug}`)
+  return NextResponse.json({ article })
+}
+
+export async function DELETE(req: NextRequest, context: RouteContext) {
+  const denied = requireAdmin(req)
+  if (denied) return denied
+
+  const { slug } = await context.params
+  const article = unpublishArticle(slug)
+
+  if (!article) {
+    return NextResponse.json({ error: 'Article not found' }, { status: 404 })
+  }
+
+  console.log(`📝 Unpublished article ${slug}`)
+  return NextResponse.json({ article })
+}
@@ -0,0 +1,45 @@
+/**
+ * Article management API
+ *
+ * GET  /api/admin/articles - List all articles, including unpublished ones
+ * POST /api/admin/articles - Create an article
+ *
+ * Requires `Authorization: Bearer <ADMIN_API_KEY>`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-auth'
+import { articleInputSchema, createArticle, getAllArticles, getArticleBySlug } from '@/lib/articles'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(req: NextRequest) {
+  const denied = requireAdmin(req)
+  if (denied) return denied
+
+  return NextResponse.json({ articles: getAllArticles({ includeUnpublished: true }) })
+}
+
+export async function POST(req: NextRequest) {
+  const denied = requireAdmin(req)
+  if (denied) return denied
+
+  const parsed = articleInputSchema.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid article', issues: parsed.error.issues },
+      { status: 400 }
+    )
+  }
+
+  if (getArticleBySlug(parsed.data.slug, { includeUnpublished: true })) {
+    return NextResponse.json(
+      { error: `Article already exists: ${parsed.data.slug}` },
+      { status: 409 }
+    )
+  }
+
+  const article = createArticle(parsed.data)
+  console.log(`📝 Created article ${article.slug} ($${article.priceUsd})`)
+  return NextResponse.json({ article }, { status: 201 })
+}
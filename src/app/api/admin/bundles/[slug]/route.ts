@@ -0,0 +1,77 @@
+/**
+ * Single bundle management API
+ *
+ * GET    /api/admin/bundles/:slug - Get a bundle, including unpublished ones
+ * PATCH  /api/admin/bundles/:slug - Update fields (priceUsd, articleSlugs, published, ...)
+ * DELETE /api/admin/bundles/:slug - Unpublish (the record is kept for revenue attribution)
+ *
+ * Requires `Authorization: Bearer <ADMIN_API_KEY>`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-auth'
+import { getArticleBySlug } from '@/lib/articles'
+import { bundleUpdateSchema, getBundleBySlug, updateBundle } from '@/lib/bundles'
+
+export const dynamic = 'force-dynamic'
+
+type RouteContext = { params: Promise<{ slug: string }> }
+
+export async function GET(req: NextRequest, context: RouteContext) {
+  const denied = requireAdmin(req)
+  if (denied) return denied
+
+  const { slug } = await context.params
+  const bundle = getBundleBySlug(slug, { includeUnpublished: true })
+
+  if (!bundle) {
+    return NextResponse.json({ error: 'Bundle not found' }, { status: 404 })
+  }
+
+  return NextResponse.json({ bundle })
+}
+
+export async function PATCH(req: NextRequest, context: RouteContext) {
+  const denied = requireAdmin(req)
+  if (denied) return denied
+
+  const { slug } = await context.params
+  const parsed = bundleUpdateSchema.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid bundle update', issues: parsed.error.issues },
+      { status: 400 }
+    )
+  }
+
+  const unknown = (parsed.data.articleSlugs || []).filter(s => !getArticleBySlug(s, { includeUnpublished: true }))
+  if (unknown.length > 0) {
+    return NextResponse.json(
+      { error: `Unknown articles: ${unknown.join(', ')}` },
+      { status: 400 }
+    )
+  }
+
+  const bundle = updateBundle(slug, parsed.data)
+  if (!bundle) {
+    return NextResponse.json({ error: 'Bundle not found' }, { status: 404 })
+  }
+
+  console.log(`📦 Updated bundle ${slug}`)
+  return NextResponse.json({ bundle })
+}
+
+export async function DELETE(req: NextRequest, context: RouteContext) {
+  const denied = requireAdmin(req)
+  if (denied) return denied
+
+  const { slug } = await context.params
+  const bundle = updateBundle(slug, { published: false })
+
+  if (!bundle) {
+    return NextResponse.json({ error: 'Bundle not found' }, { status: 404 })
+  }
+
+  console.log(`📦 Unpublished bundle ${slug}`)
+  return NextResponse.json({ bundle })
+}
@@ -0,0 +1,54 @@
+/**
+ * Bundle management API
+ *
+ * GET  /api/admin/bundles - List all bundles, including unpublished ones
+ * POST /api/admin/bundles - Create a bundle
+ *
+ * Requires `Authorization: Bearer <ADMIN_API_KEY>`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-auth'
+import { getArticleBySlug } from '@/lib/articles'
+import { bundleInputSchema, createBundle, getAllBundles, getBundleBySlug } from '@/lib/bundles'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(req: NextRequest) {
+  const denied = requireAdmin(req)
+  if (denied) return denied
+
+  return NextResponse.json({ bundles: getAllBundles({ includeUnpublished: true }) })
+}
+
+export async function POST(req: NextRequest) {
+  const denied = requireAdmin(req)
+  if (denied) return denied
+
+  const parsed = bundleInputSchema.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid bundle', issues: parsed.error.issues },
+      { status: 400 }
+    )
+  }
+
+  const unknown = parsed.data.articleSlugs.filter(s => !getArticleBySlug(s, { includeUnpublished: true }))
+  if (unknown.length > 0) {
+    return NextResponse.json(
+      { error: `Unknown articles: ${unknown.join(', ')}` },
+      { status: 400 }
+    )
+  }
+
+  if (getBundleBySlug(parsed.data.slug, { includeUnpublished: true })) {
+    return NextResponse.json(
+      { error: `Bundle already exists: ${parsed.data.slug}` },
+      { status: 409 }
+    )
+  }
+
+  const bundle = createBundle(parsed.data)
+  console.log(`📦 Created bundle ${bundle.slug} ($${bundle.priceUsd}, ${bundle.articleSlugs.length} articles)`)
+  return NextResponse.json({ bundle }, { status: 201 })
+}
@@ -0,0 +1,67 @@
+/**
+ * Single coupon management API
+ *
+ * GET    /api/admin/coupons/:code - Get a coupon with its redemption count
+ * PATCH  /api/admin/coupons/:code - Update fields (discount, expiresAt, enabled, ...)
+ * DELETE /api/admin/coupons/:code - Delete a coupon (past redemptions stay in the ledger)
+ *
+ * Requires `Authorization: Bearer <ADMIN_API_KEY>`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-auth'
+import { couponUpdateSchema, getCoupon, getCouponRedemptions, removeCoupon, updateCoupon } from '@/lib/coupons'
+
+export const dynamic = 'force-dynamic'
+
+type RouteContext = { params: Promise<{ code: string }> }
+
+export async function GET(req: NextRequest, context: RouteContext) {
+  const denied = requireAdmin(req)
+  if (denied) return denied
+
+  const { code } = await context.params
+  const coupon = getCoupon(code)
+
+  if (!coupon) {
+    return NextResponse.json({ error: 'Coupon not found' }, { status: 404 })
+  }
+
+  const redemptions = getCouponRedemptions()[coupon.code] || { redemptions: 0, discountTotal: 0 }
+  return NextResponse.json({ coupon: { ...coupon, ...redemptions } })
+}
+
+export async function PATCH(req: NextRequest, context: RouteContext) {
+  const denied = requireAdmin(req)
+  if (denied) return denied
+
+  const { code } = await context.params
+  const parsed = couponUpdateSchema.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid coupon update', issues: parsed.error.issues },
+      { status: 400 }
+    )
+  }
+
+  const coupon = updateCoupon(code, parsed.data)
+  if (!coupon) {
+    return NextResponse.json({ error: 'Coupon not found' }, { status: 404 })
+  }
+
+  console.log(`🎟️ Updated coupon ${coupon.code}`)
+  return NextResponse.json({ coupon })
+}
+
+export async function DELETE(req: NextRequest, context: RouteContext) {
+  const denied = requireAdmin(req)
+  if (denied) return denied
+
+  const { code } = await context.params
+  if (!removeCoupon(code)) {
+    return NextResponse.json({ error: 'Coupon not found' }, { status: 404 })
+  }
+
+  console.log(`🎟️ Deleted coupon ${code.toUpperCase()}`)
+  return NextResponse.json({ success: true })
+}
@@ -0,0 +1,50 @@
+/**
+ * Coupon management API
+ *
+ * GET  /api/admin/coupons - List coupons with redemption counts
+ * POST /api/admin/coupons - Create a coupon
+ *
+ * Requires `Authorization: Bearer <ADMIN_API_KEY>`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-auth'
+import { couponInputSchema, createCoupon, getCoupon, getCouponRedemptions, getCoupons } from '@/lib/coupons'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(req: NextRequest) {
+  const denied = requireAdmin(req)
+  if (denied) return denied
+
+  const redemptions = getCouponRedemptions()
+  const coupons = getCoupons().map(coupon => ({
+    ...coupon,
+    ...(redemptions[coupon.code] || { redemptions: 0, discountTotal: 0 }),
+  }))
+  return NextResponse.json({ coupons })
+}
+
+export async function POST(req: NextRequest) {
+  const denied = requireAdmin(req)
+  if (denied) return denied
+
+  const parsed = couponInputSchema.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid coupon', issues: parsed.error.issues },
+      { status: 400 }
+    )
+  }
+
+  if (getCoupon(parsed.data.code)) {
+    return NextResponse.json(
+      { error: `Coupon already exists: ${parsed.data.code}` },
+      { status: 409 }
+    )
+  }
+
+  const coupon = createCoupon(parsed.data)
+  console.log(`🎟️ Created coupon ${coupon.code}`)
+  return NextResponse.json({ coupon }, { status: 201 })
+}
@@ -0,0 +1,90 @@
+/**
+ * Single merchant API
+ *
+ * GET    /api/admin/merchants/:id - Get a merchant
+ * PATCH  /api/admin/merchants/:id - Update fields (name, walletId, payoutAddress, default)
+ * DELETE /api/admin/merchants/:id - Remove a merchant no resource references
+ *
+ * Requires `Authorization: Bearer <ADMIN_API_KEY>`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-auth'
+import { getAllArticles } from '@/lib/articles'
+import { getAllBundles } from '@/lib/bundles'
+import { getMerchant, merchantUpdateSchema, removeMerchant, updateMerchant } from '@/lib/merchants'
+import { getPassProducts } from '@/lib/passes'
+
+export const dynamic = 'force-dynamic'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export async function GET(req: NextRequest, context: RouteContext) {
+  const denied = requireAdmin(req)
+  if (denied) return denied
+
+  const { id } = await context.params
+  const merchant = getMerchant(id)
+
+  if (!merchant) {
+    return NextResponse.json({ error: 'Merchant not found' }, { status: 404 })
+  }
+
+  return NextResponse.json({ merchant })
+}
+
+export async function PATCH(req: NextRequest, context: RouteContext) {
+  const denied = requireAdmin(req)
+  if (denied) return denied
+
+  const { id } = await context.params
+  const parsed = merchantUpdateSchema.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid merchant update', issues: parsed.error.issues },
+      { status: 400 }
+    )
+  }
+
+  const merchant = updateMerchant(id, parsed.data)
+  if (!merchant) {
+    return NextResponse.json({ error: 'Merchant not found' }, { status: 404 })
+  }
+
+  console.log(`🏪 Updated merchant ${id}`)
+  return NextResponse.json({ merchant })
+}
+
+export async function DELETE(req: NextRequest, context: RouteContext) {
+  const denied = requireAdmin(req)
+  if (denied) return denied
+
+  const { id } = await context.params
+
+  // Removing a referenced merchant would break payment for those resources
+  const references = [
+    ...getAllArticles({ includeUnpublished: true }).filter(a => a.merchantId === id).map(a => `article:${a.slug}`),
+    ...getAllBundles({ includeUnpublished: true }).filter(b => b.merchantId === id).map(b => `bundle:${b.slug}`),
+    ...getPassProducts({ includeInactive: true }).filter(p => p.merchantId === id).map(p => `pass:${p.id}`),
+  ]
+  if (references.length > 0) {
+    return NextResponse.json(
+      { error: 'Merchant is still referenced', references },
+      { status: 409 }
+    )
+  }
+
+  try {
+    if (!removeMerchant(id)) {
+      return NextResponse.json({ error: 'Merchant not found' }, { status: 404 })
+    }
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to remove merchant' },
+      { status: 409 }
+    )
+  }
+
+  console.log(`🏪 Removed merchant ${id}`)
+  return NextResponse.json({ success: true })
+}
@@ -0,0 +1,59 @@
+/**
+ * Merchant registry API
+ *
+ * GET  /api/admin/merchants - List registered merchants
+ * POST /api/admin/merchants - Register a merchant: { id, name, walletId, payoutAddress?, default? }
+ *
+ * The Circle wallet must exist; payoutAddress defaults to its address.
+ *
+ * Requires `Authorization: Bearer <ADMIN_API_KEY>`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-auth'
+import { getWallet } from '@/lib/circle-wallet'
+import { createMerchant, getMerchant, getMerchants, merchantInputSchema } from '@/lib/merchants'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(req: NextRequest) {
+  const denied = requireAdmin(req)
+  if (denied) return denied
+
+  return NextResponse.json({ merchants: getMerchants() })
+}
+
+export async function POST(req: NextRequest) {
+  const denied = requireAdmin(req)
+  if (denied) return denied
+
+  const parsed = merchantInputSchema.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid merchant', issues: parsed.error.issues },
+      { status: 400 }
+    )
+  }
+
+  if (getMerchant(parsed.data.id)) {
+    return NextResponse.json(
+      { error: `Merchant already exists: ${parsed.data.id}` },
+      { status: 409 }
+    )
+  }
+
+  const wallet = await getWallet(parsed.data.walletId).catch(() => undefined)
+  if (!wallet) {
+    return NextResponse.json(
+      { error: `Circle wallet not found: ${parsed.data.walletId}` },
+      { status: 400 }
+    )
+  }
+
+  const merchant = createMerchant({
+    ...parsed.data,
+    payoutAddress: (parsed.data.payoutAddress || wallet.address) as `0x${string}`,
+  })
+  console.log(`🏪 Registered merchant ${merchant.id} (${merchant.payoutAddress})`)
+  return NextResponse.json({ merchant }, { status: 201 })
+}
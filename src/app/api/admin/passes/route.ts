@@ -0,0 +1,51 @@
+/**
+ * Pass management API
+ *
+ * GET /api/admin/passes          - Pass products and granted passes
+ * GET /api/admin/passes?payer=0x - Only passes held by that payer
+ * PUT /api/admin/passes          - Replace pass products: { products: PassProduct[] }
+ *
+ * Requires `Authorization: Bearer <ADMIN_API_KEY>`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-auth'
+import { getMerchant } from '@/lib/merchants'
+import { getPassProducts, listPasses, passProductsSchema, setPassProducts } from '@/lib/passes'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(req: NextRequest) {
+  const denied = requireAdmin(req)
+  if (denied) return denied
+
+  return NextResponse.json({
+    products: getPassProducts({ includeInactive: true }),
+    passes: listPasses(req.nextUrl.searchParams.get('payer') || undefined),
+  })
+}
+
+export async function PUT(req: NextRequest) {
+  const denied = requireAdmin(req)
+  if (denied) return denied
+
+  const body = await req.json().catch(() => null)
+  const parsed = passProductsSchema.safeParse(body?.products)
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid pass products', issues: parsed.error.issues },
+      { status: 400 }
+    )
+  }
+
+  const unknown = parsed.data.filter(p => p.merchantId && !getMerchant(p.merchantId))
+  if (unknown.length > 0) {
+    return NextResponse.json(
+      { error: `Unknown merchant for products: ${unknown.map(p => p.id).join(', ')}` },
+      { status: 400 }
+    )
+  }
+
+  setPassProducts(parsed.data)
+  return NextResponse.json({ products: parsed.data })
+}
@@ -0,0 +1,56 @@
+/**
+ * Revenue split payout API
+ *
+ * GET  /api/admin/payouts            - Per-recipient balances, payouts and accrued shares
+ * GET  /api/admin/payouts?address=0x - Only that recipient's payouts and shares
+ * POST /api/admin/payouts            - Run a payout batch now
+ *
+ * Requires `Authorization: Bearer <ADMIN_API_KEY>`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-auth'
+import {
+  ensurePayoutScheduler,
+  getPayoutMode,
+  getRecipientBalances,
+  listPayouts,
+  listPayoutShares,
+  resumeSendingPayouts,
+  runPayouts,
+} from '@/lib/payouts'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(req: NextRequest) {
+  const denied = requireAdmin(req)
+  if (denied) return denied
+
+  ensurePayoutScheduler()
+  resumeSendingPayouts()
+  const address = req.nextUrl.searchParams.get('address') || undefined
+
+  return NextResponse.json({
+    mode: getPayoutMode(),
+    recipients: getRecipientBalances().filter(r => !address || r.address.toLowerCase() === address.toLowerCase()),
+    payouts: listPayouts(address),
+    shares: listPayoutShares(address),
+  })
+}
+
+export async function POST(req: NextRequest) {
+  const denied = requireAdmin(req)
+  if (denied) return denied
+
+  try {
+    const payouts = await runPayouts()
+    console.log(`💸 Payout batch started ${payouts.length} transfer(s)`)
+    return NextResponse.json({ payouts }, { status: 202 })
+  } catch (error) {
+    console.error('Failed to run payouts:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to run payouts' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Pricing rules API
+ *
+ * GET /api/admin/pricing              - Current rules
+ * GET /api/admin/pricing?slug=&payer= - Also quote a price for an article
+ * PUT /api/admin/pricing              - Replace all rules: { rules: PricingRule[] }
+ *
+ * Requires `Authorization: Bearer <ADMIN_API_KEY>`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-auth'
+import { getArticleBySlug } from '@/lib/articles'
+import { getPricingRules, pricingRulesSchema, quotePrice, setPricingRules } from '@/lib/pricing'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(req: NextRequest) {
+  const denied = requireAdmin(req)
+  if (denied) return denied
+
+  const rules = getPricingRules()
+  const slug = req.nextUrl.searchParams.get('slug')
+  if (!slug) {
+    return NextResponse.json({ rules })
+  }
+
+  const article = getArticleBySlug(slug, { includeUnpublished: true })
+  if (!article) {
+    return NextResponse.json({ error: 'Article not found' }, { status: 404 })
+  }
+
+  const quote = quotePrice(
+    { slug, basePrice: article.priceUsd, tags: article.tags, publishedAt: article.publishedAt },
+    req.nextUrl.searchParams.get('payer')
+  )
+  return NextResponse.json({ rules, quote })
+}
+
+export async function PUT(req: NextRequest) {
+  const denied = requireAdmin(req)
+  if (denied) return denied
+
+  const body = await req.json().catch(() => null)
+  const parsed = pricingRulesSchema.safeParse(body?.rules)
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid pricing rules', issues: parsed.error.issues },
+      { status: 400 }
+    )
+  }
+
+  setPricingRules(parsed.data)
+  console.log(`💲 Pricing rules updated (${parsed.data.length} rules)`)
+  return NextResponse.json({ rules: parsed.data })
+}
@@ -0,0 +1,38 @@
+/**
+ * On-chain reconciliation API
+ *
+ * GET  /api/admin/reconciliation - Last run, unmatched transfers and flagged payments
+ * POST /api/admin/reconciliation - Reconcile the ledger with Arc transfers now
+ *
+ * Requires `Authorization: Bearer <ADMIN_API_KEY>`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-auth'
+import { ensureReconciliationScheduler, getReconciliationReport, runReconciliation } from '@/lib/reconcile'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(req: NextRequest) {
+  const denied = requireAdmin(req)
+  if (denied) return denied
+
+  ensureReconciliationScheduler()
+  return NextResponse.json(getReconciliationReport())
+}
+
+export async function POST(req: NextRequest) {
+  const denied = requireAdmin(req)
+  if (denied) return denied
+
+  try {
+    const run = await runReconciliation()
+    return NextResponse.json({ run, ...getReconciliationReport() })
+  } catch (error) {
+    console.error('Reconciliation failed:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Reconciliation failed' },
+      { status: 502 }
+    )
+  }
+}
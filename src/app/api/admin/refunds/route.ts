@@ -0,0 +1,76 @@
+/**
+ * Refund API
+ *
+ * GET  /api/admin/refunds - Payments that have refunds, with their refunds
+ * POST /api/admin/refunds - Refund a payment: { paymentId, amount?, reason? }
+ *
+ * Omitting `amount` refunds whatever is still refundable. The response is
+ * returned once the transfer is submitted; the refund's state moves to
+ * `completed` (with txHash) or `failed` when Circle reports it final. A
+ * refund whose submission had an unknown outcome comes back `pending` with
+ * an `error` and is submitted again on the next GET. Only settled payments
+ * are refundable.
+ *
+ * Requires `Authorization: Bearer <ADMIN_API_KEY>`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireAdmin } from '@/lib/admin-auth'
+import { getLedger } from '@/lib/ledger'
+import { getPayment, getRefundableAmount, refundPayment, resumePendingRefunds } from '@/lib/refunds'
+
+export const dynamic = 'force-dynamic'
+
+const refundRequestSchema = z.object({
+  paymentId: z.string().min(1),
+  amount: z.number().positive().optional(),
+  reason: z.string().max(500).optional(),
+})
+
+export async function GET(req: NextRequest) {
+  const denied = requireAdmin(req)
+  if (denied) return denied
+
+  resumePendingRefunds()
+  const payments = getLedger().list().filter(entry => entry.refunds?.length)
+  return NextResponse.json({ payments })
+}
+
+export async function POST(req: NextRequest) {
+  const denied = requireAdmin(req)
+  if (denied) return denied
+
+  const parsed = refundRequestSchema.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid refund', issues: parsed.error.issues },
+      { status: 400 }
+    )
+  }
+
+  const { paymentId, amount, reason } = parsed.data
+  const payment = getPayment(paymentId)
+  if (!payment) {
+    return NextResponse.json({ error: 'Payment not found' }, { status: 404 })
+  }
+
+  const refundable = getRefundableAmount(payment)
+  if (refundable <= 0 || (amount !== undefined && amount > refundable)) {
+    return NextResponse.json(
+      { error: `Refund exceeds refundable amount (${refundable})`, refundable },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const refund = await refundPayment(paymentId, { amount, reason })
+    return NextResponse.json({ refund, payment: getPayment(paymentId) }, { status: 202 })
+  } catch (error) {
+    console.error('Failed to refund payment:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to refund payment' },
+      { status: 502 }
+    )
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Queued settlement API
+ *
+ * GET  /api/admin/settlements - Open, lost (left to reconciliation) and failed queued settlements
+ * POST /api/admin/settlements - Check open tickets with the facilitator now
+ *
+ * Only relevant with SETTLEMENT_MODE=async. Requires `Authorization: Bearer <ADMIN_API_KEY>`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-auth'
+import { ensureSettlementTicketPoller, getSettlementReport, runSettlementSync } from '@/lib/settlement-tickets'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(req: NextRequest) {
+  const denied = requireAdmin(req)
+  if (denied) return denied
+
+  ensureSettlementTicketPoller()
+  return NextResponse.json(getSettlementReport())
+}
+
+export async function POST(req: NextRequest) {
+  const denied = requireAdmin(req)
+  if (denied) return denied
+
+  try {
+    const run = await runSettlementSync()
+    return NextResponse.json({ run, ...getSettlementReport() })
+  } catch (error) {
+    console.error('Settlement sync failed:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Settlement sync failed' },
+      { status: 502 }
+    )
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * DELETE /api/admin/webhooks/:id - Remove a webhook endpoint
+ *
+ * Requires `Authorization: Bearer <ADMIN_API_KEY>`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-auth'
+import { removeWebhookEndpoint } from '@/lib/webhooks'
+
+export const dynamic = 'force-dynamic'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export async function DELETE(req: NextRequest, context: RouteContext) {
+  const denied = requireAdmin(req)
+  if (denied) return denied
+
+  const { id } = await context.params
+
+  if (!removeWebhookEndpoint(id)) {
+    return NextResponse.json({ error: 'Webhook endpoint not found' }, { status: 404 })
+  }
+
+  return NextResponse.json({ success: true })
+}
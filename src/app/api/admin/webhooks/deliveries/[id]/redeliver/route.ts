@@ -0,0 +1,27 @@
+/**
+ * POST /api/admin/webhooks/deliveries/:id/redeliver - Send a logged event again
+ *
+ * Requires `Authorization: Bearer <ADMIN_API_KEY>`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-auth'
+import { redeliverWebhook } from '@/lib/webhooks'
+
+export const dynamic = 'force-dynamic'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export async function POST(req: NextRequest, context: RouteContext) {
+  const denied = requireAdmin(req)
+  if (denied) return denied
+
+  const { id } = await context.params
+  const delivery = redeliverWebhook(id)
+
+  if (!delivery) {
+    return NextResponse.json({ error: 'Delivery not found' }, { status: 404 })
+  }
+
+  return NextResponse.json({ delivery }, { status: 202 })
+}
@@ -0,0 +1,24 @@
+/**
+ * GET /api/admin/webhooks/deliveries - Webhook delivery log, newest first
+ *
+ * Optional query: ?endpointId=<id>, ?merchantId=<id>
+ * Requires `Authorization: Bearer <ADMIN_API_KEY>`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/admin-auth'
+import { listWebhookDeliveries } from '@/lib/webhooks'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(req: NextRequest) {
+  const denied = requireAdmin(req)
+  if (denied) return denied
+
+  const params = req.nextUrl.searchParams
+  const deliveries = listWebhookDeliveries({
+    endpointId: params.get('endpointId') || undefined,
+    merchantId: params.get('merchantId') || undefined,
+  })
+  return NextResponse.json({ deliveries })
+}
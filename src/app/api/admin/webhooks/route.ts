@@ -0,0 +1,65 @@
+/**
+ * Webhook endpoint management API
+ *
+ * GET  /api/admin/webhooks - List registered endpoints (secrets redacted), ?merchantId= for one merchant's
+ * POST /api/admin/webhooks - Register an endpoint: { url, events?, merchantId? }
+ *
+ * Endpoints must use HTTPS, except on localhost for development. An endpoint
+ * with a merchantId only receives that merchant's events.
+ *
+ * The signing secret is only returned in the POST response.
+ * Requires `Authorization: Bearer <ADMIN_API_KEY>`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireAdmin } from '@/lib/admin-auth'
+import { merchantIdSchema } from '@/lib/merchants'
+import { listWebhookEndpoints, registerWebhookEndpoint, WEBHOOK_EVENTS } from '@/lib/webhooks'
+
+export const dynamic = 'force-dynamic'
+
+const LOCAL_HOSTNAMES = ['localhost', '127.0.0.1', '[::1]']
+
+const registerSchema = z.object({
+  url: z.url({ protocol: /^https?$/ }).refine(
+    url => {
+      const { protocol, hostname } = new URL(url)
+      return protocol === 'https:' || LOCAL_HOSTNAMES.includes(hostname)
+    },
+    'Webhook URL must use https (http is only allowed on localhost)'
+  ),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1).optional(),
+  merchantId: merchantIdSchema.optional(),
+})
+
+export async function GET(req: NextRequest) {
+  const denied = requireAdmin(req)
+  if (denied) return denied
+
+  const merchantId = req.nextUrl.searchParams.get('merchantId') || undefined
+  const endpoints = listWebhookEndpoints(merchantId).map(({ secret, ...endpoint }) => ({
+    ...endpoint,
+    secret: `${secret.slice(0, 10)}...`,
+  }))
+
+  return NextResponse.json({ endpoints })
+}
+
+export async function POST(req: NextRequest) {
+  const denied = requireAdmin(req)
+  if (denied) return denied
+
+  const parsed = registerSchema.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid webhook endpoint', issues: parsed.error.issues },
+      { status: 400 }
+    )
+  }
+
+  const { url, events, merchantId } = parsed.data
+  const endpoint = registerWebhookEndpoint(url, events, merchantId)
+  console.log(`🔔 Registered webhook ${endpoint.url} (${endpoint.events.join(', ')})${merchantId ? ` for ${merchantId}` : ''}`)
+  return NextResponse.json({ endpoint }, { status: 201 })
+}
@@ -0,0 +1,27 @@
+/**
+ * Public article catalog
+ *
+ * GET /api/articles - Published articles without their paywalled content,
+ * with the bundles each one is part of
+ */
+
+import { NextResponse } from 'next/server'
+import { getAllArticles } from '@/lib/articles'
+import { getBundlesForArticle } from '@/lib/bundles'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  const articles = getAllArticles().map(article => ({
+    slug: article.slug,
+    title: article.title,
+    description: article.description,
+    priceUsd: article.priceUsd,
+    currency: article.currency || 'USD',
+    author: article.author,
+    publishedAt: article.publishedAt,
+    tags: article.tags,
+    bundles: getBundlesForArticle(article.slug).map(b => b.slug),
+  }))
+  return NextResponse.json({ articles })
+}
@@ -0,0 +1,28 @@
+/**
+ * API key login
+ *
+ * POST /api/auth/login - Exchange an API key for a session cookie
+ * Body: { "secret": "<ADMIN_API_KEY | OPERATOR_API_KEY | VIEWER_API_KEY>" }
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createSession, roleForApiKey, setSessionCookie } from '@/lib/auth'
+
+export const dynamic = 'force-dynamic'
+
+export async function POST(req: NextRequest) {
+  const body = await req.json().catch(() => null)
+  const secret = typeof body?.secret === 'string' ? body.secret : ''
+
+  const role = secret ? roleForApiKey(secret) : null
+  if (!role) {
+    return NextResponse.json({ error: 'Invalid secret' }, { status: 401 })
+  }
+
+  const { session, token } = createSession(`api-key:${role}`, role, 'api-key')
+  console.log(`🔐 ${role} signed in with API key`)
+
+  const response = NextResponse.json({ session, token })
+  setSessionCookie(response, token)
+  return response
+}
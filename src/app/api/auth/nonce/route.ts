@@ -0,0 +1,15 @@
+/**
+ * SIWE nonce endpoint
+ *
+ * GET /api/auth/nonce - One-time nonce to put in a Sign-In with Ethereum
+ * message (valid for 10 minutes)
+ */
+
+import { NextResponse } from 'next/server'
+import { issueSiweNonce } from '@/lib/auth'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  return NextResponse.json({ nonce: issueSiweNonce() })
+}
@@ -0,0 +1,31 @@
+/**
+ * Current session
+ *
+ * GET    /api/auth/session - Who is signed in (401 when nobody is)
+ * DELETE /api/auth/session - Sign out (revokes the session and clears its cookie)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { clearSessionCookie, getSession, revokeSession } from '@/lib/auth'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(req: NextRequest) {
+  const session = getSession(req)
+  if (!session) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+  }
+  return NextResponse.json({ session })
+}
+
+export async function DELETE(req: NextRequest) {
+  // A bearer API key has no session to revoke
+  const session = getSession(req)
+  if (session && session.sid !== 'api-key') {
+    revokeSession(session)
+  }
+
+  const response = NextResponse.json({ success: true })
+  clearSessionCookie(response)
+  return response
+}
@@ -0,0 +1,46 @@
+/**
+ * Sign-In with Ethereum
+ *
+ * POST /api/auth/siwe - Verify a signed EIP-4361 message and start a session
+ * Body: { "message": "<SIWE message>", "signature": "0x..." }
+ *
+ * The message must use this host as its domain and a nonce from
+ * GET /api/auth/nonce. The role comes from the signing address (see src/lib/auth.ts).
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createSession, roleForAddress, setSessionCookie, verifySiweLogin } from '@/lib/auth'
+
+export const dynamic = 'force-dynamic'
+
+export async function POST(req: NextRequest) {
+  const body = await req.json().catch(() => null)
+  const message = typeof body?.message === 'string' ? body.message : ''
+  const signature = typeof body?.signature === 'string' ? body.signature : ''
+
+  if (!message || !/^0x[0-9a-fA-F]+$/.test(signature)) {
+    return NextResponse.json({ error: 'Missing required fields: message, signature' }, { status: 400 })
+  }
+
+  let address: string
+  try {
+    address = await verifySiweLogin(message, signature as `0x${string}`, req.headers.get('host') || req.nextUrl.host)
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'SIWE verification failed' },
+      { status: 401 }
+    )
+  }
+
+  const role = roleForAddress(address)
+  if (!role) {
+    return NextResponse.json({ error: `No role granted to ${address}` }, { status: 403 })
+  }
+
+  const { session, token } = createSession(address, role, 'siwe')
+  console.log(`🔐 ${address} signed in as ${role}`)
+
+  const response = NextResponse.json({ session, token })
+  setSessionCookie(response, token)
+  return response
+}
@@ -0,0 +1,103 @@
+/**
+ * x402-Protected Bundle Endpoint
+ *
+ * GET /api/bundle/:slug - One payment unlocks every article in the bundle
+ *
+ * Returns the member articles plus an access receipt per article, so each
+ * can be re-read at /api/article/:slug without paying again. The payment is
+ * recorded in the ledger per article for revenue attribution.
+ *
+ * Answers 409 while any member article is unpublished: the bundle's price
+ * covers the full set.
+ */
+
+import { randomUUID } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  allocateBundleRevenue,
+  getBundleArticles,
+  getBundleBySlug,
+  getUnavailableArticleSlugs,
+  priceBundleMembers,
+} from '@/lib/bundles'
+import { appliedCoupon, paywall } from '@/lib/paywall'
+import { accruePayoutShares } from '@/lib/payouts'
+import { issueAccessReceipt, setReceiptCookie } from '@/lib/receipts'
+import { bundlePaywall } from '@/lib/resources'
+import { recordPayment } from '@/lib/stats'
+
+export const dynamic = 'force-dynamic'
+
+type RouteContext = { params: Promise<{ slug: string }> }
+
+export async function GET(req: NextRequest, context: RouteContext) {
+  const { slug } = await context.params
+  const bundle = getBundleBySlug(slug)
+  const articles = bundle ? getBundleArticles(bundle) : []
+
+  if (!bundle || articles.length === 0) {
+    return NextResponse.json({ error: 'Bundle not found' }, { status: 404 })
+  }
+  const unavailable = getUnavailableArticleSlugs(bundle)
+  if (unavailable.length > 0) {
+    return NextResponse.json(
+      { error: 'Bundle is unavailable: some of its articles are not published', unavailable },
+      { status: 409 }
+    )
+  }
+  const members = await priceBundleMembers(bundle, articles)
+
+  return paywall(async () => NextResponse.json({ bundle, articles }), {
+    ...bundlePaywall(bundle, articles),
+    // Access is granted per article below, not to the bundle URL
+    receipts: false,
+    passes: false,
+
+    // Attribute the single payment to each member article
+    record: (payment, resource) => {
+      const purchaseId = randomUUID()
+      const timestamp = Date.now()
+      const coupon = appliedCoupon(resource)
+
+      return allocateBundleRevenue(payment.amount, members).map(share => {
+        const entry = recordPayment({
+          slug: share.article.slug,
+          amount: share.amount,
+          txHash: payment.txHash,
+          payer: payment.payer,
+          timestamp,
+          ...(payment.nonce && { nonce: payment.nonce }),
+          ...(payment.settlementTicket && { settlementTicket: payment.settlementTicket }),
+          network: payment.network,
+          asset: payment.coin.address,
+          purchaseId,
+          bundleSlug: bundle.slug,
+          merchantId: resource.merchantId,
+          ...(coupon && { coupon }),
+        }, share.article.title)
+        accruePayoutShares(entry)
+        return entry
+      })
+    },
+
+    // Grant per-article access so each article can be re-read on its own URL
+    onPaid: (payment, response) => {
+      const receipts = Object.fromEntries(
+        articles.map(article => [
+          article.slug,
+          issueAccessReceipt({ payer: payment.payer, slug: article.slug, txHash: payment.txHash }),
+        ])
+      )
+
+      const bundleResponse = NextResponse.json({ bundle, articles, receipts })
+      const paymentResponseHeader = response.headers.get('payment-response')
+      if (paymentResponseHeader) bundleResponse.headers.set('payment-response', paymentResponseHeader)
+      for (const article of articles) {
+        setReceiptCookie(bundleResponse, receipts[article.slug], article.slug, `/api/article/${article.slug}`)
+      }
+
+      console.log(`📦 Bundle ${bundle.slug} sold to ${payment.payer} (${articles.length} articles)`)
+      return bundleResponse
+    },
+  })(req)
+}
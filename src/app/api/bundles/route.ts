@@ -0,0 +1,29 @@
+/**
+ * Public bundle catalog
+ *
+ * GET /api/bundles - Bundles on sale (published, with every member article
+ * published) and their member articles
+ */
+
+import { NextResponse } from 'next/server'
+import { getAllBundles, getBundleArticles, isBundleAvailable, priceBundleMembers } from '@/lib/bundles'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  const bundles = await Promise.all(getAllBundles().filter(isBundleAvailable).map(async bundle => {
+    const articles = getBundleArticles(bundle)
+    const members = await priceBundleMembers(bundle, articles)
+    return {
+      slug: bundle.slug,
+      title: bundle.title,
+      description: bundle.description,
+      priceUsd: bundle.priceUsd,
+      currency: bundle.currency || 'USD',
+      articleSlugs: articles.map(a => a.slug),
+      // Sum of the member articles' prices, in the bundle's currency
+      listPriceUsd: members.reduce((sum, m) => sum + m.listPrice, 0),
+    }
+  }))
+  return NextResponse.json({ bundles })
+}
@@ -0,0 +1,47 @@
+/**
+ * x402-Protected Pass Purchase Endpoint
+ *
+ * GET /api/pass/:id - Pay once for time-based access (see src/lib/passes.ts)
+ *
+ * On success returns the pass and a pass token (also set as `x-access-pass`
+ * header and cookie) that unlocks covered articles until it expires.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { attachPassToken, getPassProduct, grantPass, issuePassToken } from '@/lib/passes'
+import { paywall } from '@/lib/paywall'
+import { passPaywall } from '@/lib/resources'
+
+export const dynamic = 'force-dynamic'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export async function GET(req: NextRequest, context: RouteContext) {
+  const { id } = await context.params
+  const product = getPassProduct(id)
+
+  if (!product) {
+    return NextResponse.json({ error: 'Pass not found' }, { status: 404 })
+  }
+
+  return paywall(async () => NextResponse.json({ product }), {
+    ...passPaywall(product),
+    // Buying a pass always takes payment
+    receipts: false,
+    passes: false,
+
+    onPaid: (payment, response) => {
+      // Revoked again if a queued settlement fails (see src/lib/settlement-tickets.ts)
+      const pass = grantPass(product, payment.payer, payment.txHash, payment.settlementTicket)
+      const token = issuePassToken(payment.payer)
+      console.log(`🎟️  ${product.id} granted to ${payment.payer} until ${new Date(pass.expiresAt).toISOString()}`)
+
+      // Replace the handler body with the granted pass, keeping the settlement header
+      const passResponse = NextResponse.json({ pass, token })
+      const paymentResponseHeader = response.headers.get('payment-response')
+      if (paymentResponseHeader) passResponse.headers.set('payment-response', paymentResponseHeader)
+      attachPassToken(passResponse, token)
+      return passResponse
+    },
+  })(req)
+}
@@ -0,0 +1,14 @@
+/**
+ * Public pass catalog
+ *
+ * GET /api/passes - Pass products on sale; buy one at /api/pass/:id
+ */
+
+import { NextResponse } from 'next/server'
+import { getPassProducts } from '@/lib/passes'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  return NextResponse.json({ passes: getPassProducts() })
+}
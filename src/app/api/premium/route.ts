@@ -1,18 +1,17 @@
 /**
  * Premium API endpoint protected by x402 payment
  *
- * Requires 0.01 USDC payment on Arc to access.
+ * Base price is 0.01 USDC on Arc; pricing rules may adjust it.
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { withX402 } from "@x402/next";
-import { server, getPayToAddress, ARC_NETWORK } from "@/lib/x402";
-import { ARC_CONTRACTS } from "@/lib/arc";
+import { paywall, PaywallAccess } from "@/lib/paywall";
+import { PREMIUM_PAYWALL } from "@/lib/resources";
 
 // The actual handler that returns premium content
-async function premiumHandler(request: NextRequest) {
-  // Get the payer address from the verified payment (added by x402 middleware)
-  const payerAddress = request.headers.get("x-payer-address") || "unknown";
+async function premiumHandler(request: NextRequest, access: PaywallAccess) {
+  // Verified payer (from the facilitator, a receipt or a pass)
+  const payerAddress = access.payer;
 
   // Generate some "premium" insight
   const insights = [
@@ -34,31 +33,5 @@ async function premiumHandler(request: NextRequest) {
   });
 }
 
-// Dynamic x402 wrapper - fetches merchant address from Circle on each request
-export async function GET(req: NextRequest) {
-  const payToAddress = await getPayToAddress();
-
-  const wrappedHandler = withX402(
-    premiumHandler,
-    {
-      accepts: [
-        {
-          scheme: "exact" as const,
-          network: ARC_NETWORK,
-          payTo: payToAddress,
-          price: "$0.01",
-          extra: {
-            name: "USDC",
-            version: "2",
-            asset: ARC_CONTRACTS.USDC,
-          },
-        },
-      ],
-      description: "Premium AI insight about Arc blockchain",
-      mimeType: "application/json",
-    },
-    server,
-  );
-
-  return wrappedHandler(req);
-}
+// Paid per request; all-access pass holders are served without payment
+export const GET = paywall(premiumHandler, { ...PREMIUM_PAYWALL, receipts: false });
@@ -1,15 +1,21 @@
 /**
  * Reset stats API endpoint
  *
- * GET /api/stats/reset - Clears all payment statistics
+ * POST /api/stats/reset - Clears impressions and the balance cache (admin only)
+ *
+ * Payments stay in the ledger: revenue figures are not reset.
  */
 
-import { NextResponse } from 'next/server'
+import { NextRequest, NextResponse } from 'next/server'
+import { requireRole } from '@/lib/auth'
 import { resetStats } from '@/lib/stats'
 
 export const dynamic = 'force-dynamic'
 
-export async function GET() {
+export async function POST(req: NextRequest) {
+  const denied = requireRole(req, 'admin')
+  if (denied) return denied
+
   resetStats()
   return NextResponse.json({ success: true, message: 'Stats reset' })
 }
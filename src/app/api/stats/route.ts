@@ -3,42 +3,26 @@
  *
  * Returns payment statistics for the dashboard to display.
  * Includes actual on-chain balance from Circle SDK.
+ * For live updates, subscribe to /api/stats/stream instead of polling.
+ * Requires the viewer role (see src/lib/auth.ts).
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { getStats, shouldRefreshBalance, getCachedBalance, setCachedBalance, getCachedWallet, updatePaymentTxHash } from '@/lib/stats'
-import { getMerchantWallet, getWalletBalance } from '@/lib/circle-wallet'
+import { requireRole } from '@/lib/auth'
+import { getStats, updatePaymentTxHash } from '@/lib/stats'
+import { getMerchantBalance } from '@/lib/balance'
+import { accruePayoutShares } from '@/lib/payouts'
 
 export const dynamic = 'force-dynamic'
 
-export async function GET() {
-  const stats = getStats()
+export async function GET(req: NextRequest) {
+  const denied = requireRole(req, 'viewer')
+  if (denied) return denied
 
-  // Use cached values
-  let merchantWallet = getCachedWallet();
-  let onChainBalance = getCachedBalance();
+  const stats = await getStats()
 
-  // Only hit Circle API when we need to refresh
-  if (shouldRefreshBalance()) {
-    try {
-      console.log(`📊 Refreshing from Circle API...`);
-      const wallet = await getMerchantWallet();
-      const balances = await getWalletBalance(wallet.id);
-
-      // Token can be 'USDC' or 'USDC-TESTNET' depending on network
-      const usdcBalance = balances.find((b: any) =>
-        b.token?.symbol?.includes('USDC') || b.token?.includes('USDC')
-      );
-      onChainBalance = usdcBalance?.amount || '0';
-
-      // Store both wallet and balance
-      setCachedBalance(onChainBalance, wallet.id, wallet.address);
-      merchantWallet = { id: wallet.id, address: wallet.address };
-      console.log(`📊 Balance updated: $${onChainBalance}`);
-    } catch (error) {
-      console.error('Failed to get merchant wallet:', error);
-    }
-  }
+  // Only hits Circle API when the cached balance is stale
+  const { merchantWallet, onChainBalance } = await getMerchantBalance()
 
   return NextResponse.json({
     ...stats,
@@ -51,8 +35,12 @@ export async function GET() {
  * POST /api/stats - Update payment with transaction hash
  *
  * Called by MCP client after settlement to record the txHash.
+ * Requires the operator role.
  */
 export async function POST(req: NextRequest) {
+  const denied = requireRole(req, 'operator')
+  if (denied) return denied
+
   try {
     const { slug, payer, txHash } = await req.json()
 
@@ -66,6 +54,7 @@ export async function POST(req: NextRequest) {
     const updated = updatePaymentTxHash(slug, payer, txHash)
 
     if (updated) {
+      accruePayoutShares(updated)
       console.log(`📊 Updated txHash for ${slug}: ${txHash}`)
       return NextResponse.json({ success: true, txHash })
     } else {
@@ -0,0 +1,93 @@
+/**
+ * Live stats stream for the merchant dashboard
+ *
+ * GET /api/stats/stream - Server-sent events
+ *
+ * Sends a `stats` snapshot (same shape as GET /api/stats) on connect, then
+ * forwards payment, settlement, refund and balance events as they happen,
+ * each followed by a fresh `stats` snapshot. Balance refreshes are shared
+ * across all open streams, so watchers do not multiply Circle API calls.
+ * Requires the viewer role.
+ */
+
+import { NextRequest } from 'next/server'
+import { requireRole } from '@/lib/auth'
+import { getMerchantBalance } from '@/lib/balance'
+import { DashboardEvent, subscribeDashboardEvents } from '@/lib/events'
+import { getStats } from '@/lib/stats'
+
+export const dynamic = 'force-dynamic'
+
+// Keep proxies from closing idle connections
+const HEARTBEAT_MS = 25_000
+// Coalesce bursts (e.g. one bundle purchase = several ledger entries) into one snapshot
+const SNAPSHOT_DEBOUNCE_MS = 250
+
+export async function GET(req: NextRequest) {
+  const denied = requireRole(req, 'viewer')
+  if (denied) return denied
+
+  const encoder = new TextEncoder()
+  let cleanup = () => {}
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false
+      let snapshotTimer: ReturnType<typeof setTimeout> | null = null
+
+      const send = (event: string, data: unknown) => {
+        if (closed) return
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+      }
+
+      const sendSnapshot = async () => {
+        const stats = await getStats()
+        const balance = await getMerchantBalance()
+        send('stats', { ...stats, ...balance })
+      }
+
+      const scheduleSnapshot = () => {
+        if (snapshotTimer) clearTimeout(snapshotTimer)
+        snapshotTimer = setTimeout(() => {
+          snapshotTimer = null
+          sendSnapshot().catch(error => console.error('Failed to send stats snapshot:', error))
+        }, SNAPSHOT_DEBOUNCE_MS)
+      }
+
+      const unsubscribe = subscribeDashboardEvents((event: DashboardEvent) => {
+        send(event.type, { ...event.data, at: event.at })
+        scheduleSnapshot()
+      })
+
+      const heartbeat = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(': ping\n\n'))
+      }, HEARTBEAT_MS)
+
+      cleanup = () => {
+        if (closed) return
+        closed = true
+        unsubscribe()
+        clearInterval(heartbeat)
+        if (snapshotTimer) clearTimeout(snapshotTimer)
+        try {
+          controller.close()
+        } catch { /* already closed */ }
+      }
+      req.signal.addEventListener('abort', cleanup)
+
+      await sendSnapshot()
+    },
+    cancel() {
+      cleanup()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  })
+}
@@ -2,8 +2,9 @@
 
 import { useEffect, useState, useRef } from 'react'
 import { useChat } from '@ai-sdk/react'
-import { getAllArticles } from '@/data/articles'
+import type { Article } from '@/data/articles'
 import ReactMarkdown from 'react-markdown'
+import { createSiweMessage } from 'viem/siwe'
 import remarkGfm from 'remark-gfm'
 
 // Inline SVG icons
@@ -21,11 +22,16 @@ const CheckIcon = () => (
 )
 
 interface Payment {
+  id: string
   slug: string
   amount: number
   txHash: string | null
   payer: string
   timestamp: number
+  state: 'pending' | 'settled' | 'failed'
+  assetSymbol: string
+  refundedAmount: number
+  reconciliation?: { status: 'matched' | 'mismatch' | 'orphaned' | 'review'; detail?: string }
 }
 
 interface ArticleStats {
@@ -33,6 +39,38 @@ interface ArticleStats {
   title: string
   views: number
   revenue: number
+  refunded: number
+  impressions: number
+  conversionRate: number | null
+}
+
+interface ConversionStats {
+  slug: string
+  title: string
+  impressions: number
+  impressionsByClient: { agent: number; browser: number }
+  payments: number
+  conversionRate: number | null
+}
+
+interface TimeSeriesPoint {
+  start: number
+  revenue: number
+  payments: number
+  impressions: number
+  conversionRate: number | null
+}
+
+interface Session {
+  sub: string
+  role: 'viewer' | 'operator' | 'admin'
+  method: 'api-key' | 'siwe'
+  exp: number
+}
+
+// Injected wallet (EIP-1193), used for Sign-In with Ethereum
+interface EthereumProvider {
+  request(args: { method: string; params?: unknown[] }): Promise<unknown>
 }
 
 interface MerchantWallet {
@@ -41,21 +79,96 @@ interface MerchantWallet {
 }
 
 interface Stats {
+  currency: 'USD' | 'EUR' // of every revenue figure but revenueByAsset
   totalRevenue: number
+  totalRefunded: number
+  netRevenue: number
   totalPayments: number
+  totalImpressions: number
+  conversionRate: number | null
+  revenueByAsset: Record<string, number>
   recentPayments: Payment[]
   articleStats: ArticleStats[]
+  conversionStats: ConversionStats[]
+  timeSeries: { hourly: TimeSeriesPoint[]; daily: TimeSeriesPoint[] }
   merchantWallet: MerchantWallet | null
   onChainBalance: string | null
 }
 
+const formatRate = (rate: number | null) => (rate === null ? '—' : `${(rate * 100).toFixed(1)}%`)
+
+// Bar chart of revenue per bucket, with payments vs 402 impressions underneath
+function TimeSeriesChart({ points, bucket }: { points: TimeSeriesPoint[]; bucket: 'hour' | 'day' }) {
+  const maxRevenue = Math.max(...points.map(p => p.revenue), 0)
+  const maxCount = Math.max(...points.map(p => Math.max(p.impressions, p.payments)), 0)
+  const label = (start: number) => {
+    const date = new Date(start)
+    return bucket === 'hour'
+      ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+      : date.toLocaleDateString([], { month: 'short', day: 'numeric' })
+  }
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <p className="text-xs text-zinc-500 mb-1">Revenue</p>
+        <div className="flex items-end gap-1 h-24">
+          {points.map(point => (
+            <div
+              key={point.start}
+              className="flex-1 bg-green-500/70 rounded-t"
+              style={{ height: maxRevenue > 0 ? `${(point.revenue / maxRevenue) * 100}%` : '0%' }}
+              title={`${label(point.start)}: $${point.revenue.toFixed(2)}`}
+            />
+          ))}
+        </div>
+      </div>
+      <div>
+        <p className="text-xs text-zinc-500 mb-1">
+          <span className="text-zinc-400">■</span> 402 impressions{' '}
+          <span className="text-blue-400 ml-2">■</span> payments
+        </p>
+        <div className="flex items-end gap-1 h-16">
+          {points.map(point => (
+            <div
+              key={point.start}
+              className="flex-1 relative h-full"
+              title={`${label(point.start)}: ${point.impressions} impressions, ${point.payments} payments (${formatRate(point.conversionRate)})`}
+            >
+              <div
+                className="absolute bottom-0 inset-x-0 bg-zinc-600 rounded-t"
+                style={{ height: maxCount > 0 ? `${(point.impressions / maxCount) * 100}%` : '0%' }}
+              />
+              <div
+                className="absolute bottom-0 inset-x-0 bg-blue-500 rounded-t"
+                style={{ height: maxCount > 0 ? `${(point.payments / maxCount) * 100}%` : '0%' }}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+      <div className="flex justify-between text-xs text-zinc-600">
+        <span>{points.length > 0 && label(points[0].start)}</span>
+        <span>{points.length > 0 && label(points[points.length - 1].start)}</span>
+      </div>
+    </div>
+  )
+}
+
 export default function MerchantDashboard() {
   const [stats, setStats] = useState<Stats | null>(null)
   const [loading, setLoading] = useState(true)
   const [lastUpdate, setLastUpdate] = useState<Date | null>(null)
   const [baseUrl, setBaseUrl] = useState('')
   const [copiedSlug, setCopiedSlug] = useState<string | null>(null)
-  const articles = getAllArticles()
+  const [articles, setArticles] = useState<Omit<Article, 'content'>[]>([])
+  const [refundingId, setRefundingId] = useState<string | null>(null)
+  const [chartBucket, setChartBucket] = useState<'hour' | 'day'>('hour')
+  const [streaming, setStreaming] = useState(false)
+  const [session, setSession] = useState<Session | null>(null)
+  const [authChecked, setAuthChecked] = useState(false)
+  const [loginSecret, setLoginSecret] = useState('')
+  const [loginError, setLoginError] = useState<string | null>(null)
 
   // Buyer Agent chat using Vercel AI SDK
   const { messages, sendMessage, status } = useChat()
@@ -78,6 +191,10 @@ export default function MerchantDashboard() {
   const fetchStats = async () => {
     try {
       const res = await fetch('/api/stats')
+      if (res.status === 401 || res.status === 403) {
+        setSession(null)
+        return
+      }
       const data = await res.json()
       setStats(data)
       setLastUpdate(new Date())
@@ -88,13 +205,165 @@ export default function MerchantDashboard() {
     }
   }
 
-  // Poll every 3 seconds
+  // Fetch article catalog (managed via /api/admin/articles)
+  const fetchArticles = async () => {
+    try {
+      const res = await fetch('/api/articles')
+      const data = await res.json()
+      setArticles(data.articles)
+    } catch (err) {
+      console.error('Failed to fetch articles:', err)
+    }
+  }
+
+  // Check for an existing session
+  const fetchSession = async () => {
+    try {
+      const res = await fetch('/api/auth/session')
+      setSession(res.ok ? (await res.json()).session : null)
+    } catch (err) {
+      console.error('Failed to fetch session:', err)
+    } finally {
+      setAuthChecked(true)
+    }
+  }
+
   useEffect(() => {
-    fetchStats()
-    const interval = setInterval(fetchStats, 3000)
-    return () => clearInterval(interval)
+    fetchArticles()
+    fetchSession()
   }, [])
 
+  // Start a session from the login response
+  const completeLogin = async (res: Response) => {
+    const data = await res.json().catch(() => ({}))
+    if (!res.ok) {
+      setLoginError(data.error || res.statusText)
+      return
+    }
+    setLoginError(null)
+    setLoginSecret('')
+    setSession(data.session)
+  }
+
+  // Sign in with an API key (admin, operator or viewer)
+  const signInWithSecret = async () => {
+    if (!loginSecret) return
+    const res = await fetch('/api/auth/login', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ secret: loginSecret }),
+    })
+    await completeLogin(res)
+  }
+
+  // Sign in with Ethereum using the browser wallet
+  const signInWithWallet = async () => {
+    const ethereum = (window as unknown as { ethereum?: EthereumProvider }).ethereum
+    if (!ethereum) {
+      setLoginError('No browser wallet found')
+      return
+    }
+    try {
+      const [address] = await ethereum.request({ method: 'eth_requestAccounts' }) as `0x${string}`[]
+      const chainId = parseInt(await ethereum.request({ method: 'eth_chainId' }) as string, 16)
+      const { nonce } = await (await fetch('/api/auth/nonce')).json()
+      const message = createSiweMessage({
+        address,
+        chainId,
+        domain: window.location.host,
+        nonce,
+        uri: window.location.origin,
+        version: '1',
+        statement: 'Sign in to the Arc Merchant dashboard',
+      })
+      const signature = await ethereum.request({ method: 'personal_sign', params: [message, address] })
+      const res = await fetch('/api/auth/siwe', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message, signature }),
+      })
+      await completeLogin(res)
+    } catch (err) {
+      setLoginError(err instanceof Error ? err.message : 'Wallet sign-in failed')
+    }
+  }
+
+  const signOut = async () => {
+    await fetch('/api/auth/session', { method: 'DELETE' })
+    setSession(null)
+    setStats(null)
+  }
+
+  // Live updates from the stats stream; poll every 3 seconds while it is unavailable
+  useEffect(() => {
+    if (!session) return
+
+    let interval: ReturnType<typeof setInterval> | null = null
+    const startPolling = () => {
+      if (interval) return
+      fetchStats()
+      interval = setInterval(fetchStats, 3000)
+    }
+    const stopPolling = () => {
+      if (interval) clearInterval(interval)
+      interval = null
+    }
+
+    if (typeof EventSource === 'undefined') {
+      startPolling()
+      return stopPolling
+    }
+
+    // EventSource reconnects on its own; polling bridges the gap
+    const source = new EventSource('/api/stats/stream')
+    source.addEventListener('stats', (event) => {
+      setStats(JSON.parse((event as MessageEvent).data))
+      setLastUpdate(new Date())
+      setLoading(false)
+    })
+    source.onopen = () => {
+      setStreaming(true)
+      stopPolling()
+    }
+    source.onerror = () => {
+      setStreaming(false)
+      startPolling()
+    }
+
+    return () => {
+      source.close()
+      stopPolling()
+    }
+  }, [session])
+
+  // Refund a payment via the admin API (requires an admin session)
+  const refundPayment = async (payment: Payment) => {
+    const refundable = payment.amount - payment.refundedAmount
+    const input = window.prompt(`Refund amount (max ${refundable.toFixed(6)} ${payment.assetSymbol})`, refundable.toFixed(6))
+    if (!input) return
+    const amount = parseFloat(input)
+    if (!(amount > 0)) return
+
+    setRefundingId(payment.id)
+    try {
+      const res = await fetch('/api/admin/refunds', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ paymentId: payment.id, amount }),
+      })
+      if (res.status === 401) setSession(null)
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}))
+        window.alert(`Refund failed: ${data.error || res.statusText}`)
+      }
+      await fetchStats()
+    } catch (err) {
+      console.error('Failed to refund payment:', err)
+    } finally {
+      setRefundingId(null)
+    }
+  }
+
   const formatTime = (timestamp: number) => {
     const date = new Date(timestamp)
     return date.toLocaleTimeString()
@@ -136,20 +405,59 @@ export default function MerchantDashboard() {
           </div>
           <div className="text-right">
             <div className="flex items-center gap-2 text-sm text-zinc-400">
-              <span className="h-2 w-2 rounded-full bg-green-500 animate-pulse" />
-              Live
+              <span className={`h-2 w-2 rounded-full animate-pulse ${streaming ? 'bg-green-500' : 'bg-yellow-500'}`} />
+              {streaming ? 'Live' : 'Polling'}
             </div>
             {lastUpdate && (
               <p className="text-xs text-zinc-600 mt-1">
                 Updated {lastUpdate.toLocaleTimeString()}
               </p>
             )}
+            {session && (
+              <p className="text-xs text-zinc-500 mt-1">
+                <span className="font-mono">{session.sub.startsWith('0x') ? `${session.sub.slice(0, 6)}...${session.sub.slice(-4)}` : session.sub}</span>
+                {' · '}{session.role}{' · '}
+                <button onClick={signOut} className="hover:text-zinc-300 cursor-pointer">Sign out</button>
+              </p>
+            )}
           </div>
         </div>
       </header>
 
       <main className="mx-auto max-w-6xl p-6">
-        {loading ? (
+        {authChecked && !session ? (
+          <div className="mx-auto max-w-md rounded-xl bg-zinc-900 border border-zinc-800 p-6 space-y-4">
+            <div>
+              <h2 className="text-lg font-semibold">Sign in</h2>
+              <p className="text-sm text-zinc-500 mt-1">
+                Sign in with the merchant wallet or an API key to view the dashboard.
+              </p>
+            </div>
+            <button
+              onClick={signInWithWallet}
+              className="w-full px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg text-white font-medium transition-colors cursor-pointer"
+            >
+              Sign in with Ethereum
+            </button>
+            <form onSubmit={(e) => { e.preventDefault(); signInWithSecret(); }} className="flex gap-3">
+              <input
+                type="password"
+                value={loginSecret}
+                onChange={(e) => setLoginSecret(e.target.value)}
+                placeholder="API key"
+                className="flex-1 bg-zinc-800 border border-zinc-700 rounded-lg px-4 py-2 text-white placeholder-zinc-500 focus:outline-none focus:border-blue-500"
+              />
+              <button
+                type="submit"
+                disabled={!loginSecret}
+                className="px-4 py-2 bg-zinc-700 hover:bg-zinc-600 disabled:cursor-not-allowed rounded-lg text-white font-medium transition-colors"
+              >
+                Sign in
+              </button>
+            </form>
+            {loginError && <p className="text-sm text-red-400">{loginError}</p>}
+          </div>
+        ) : loading ? (
           <div className="flex items-center justify-center h-64">
             <div className="animate-spin text-4xl">Loading...</div>
           </div>
@@ -189,6 +497,38 @@ export default function MerchantDashboard() {
               </div>
             )}
 
+            {/* Revenue & Conversions */}
+            {stats?.timeSeries && (
+              <div className="rounded-xl bg-zinc-900 border border-zinc-800 p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <div>
+                    <h2 className="text-lg font-semibold">Revenue &amp; Conversions</h2>
+                    <p className="text-sm text-zinc-500">
+                      {stats.totalPayments} payments from {stats.totalImpressions} 402 impressions
+                      {' · '}conversion {formatRate(stats.conversionRate)}
+                    </p>
+                  </div>
+                  <div className="flex gap-1 text-sm">
+                    {(['hour', 'day'] as const).map(bucket => (
+                      <button
+                        key={bucket}
+                        onClick={() => setChartBucket(bucket)}
+                        className={`px-3 py-1 rounded-lg cursor-pointer ${
+                          chartBucket === bucket ? 'bg-zinc-700 text-white' : 'text-zinc-500 hover:text-zinc-300'
+                        }`}
+                      >
+                        {bucket === 'hour' ? '24h' : '30d'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <TimeSeriesChart
+                  points={chartBucket === 'hour' ? stats.timeSeries.hourly : stats.timeSeries.daily}
+                  bucket={chartBucket}
+                />
+              </div>
+            )}
+
             {/* Articles Table */}
             <div className="rounded-xl bg-zinc-900 border border-zinc-800 overflow-hidden">
               <table className="w-full">
@@ -197,8 +537,10 @@ export default function MerchantDashboard() {
                     <th className="px-6 py-4 font-medium">Article</th>
                     <th className="px-6 py-4 font-medium">Endpoint</th>
                     <th className="px-6 py-4 font-medium text-right">Price</th>
+                    <th className="px-6 py-4 font-medium text-right">402s</th>
                     <th className="px-6 py-4 font-medium text-right">Sales</th>
-                    <th className="px-6 py-4 font-medium text-right">Revenue</th>
+                    <th className="px-6 py-4 font-medium text-right">Conversion</th>
+                    <th className="px-6 py-4 font-medium text-right">Net Revenue</th>
                     <th className="px-6 py-4 font-medium text-right">Last Sale</th>
                   </tr>
                 </thead>
@@ -206,11 +548,14 @@ export default function MerchantDashboard() {
                   {articles
                     .map((article) => {
                       const articleStat = stats?.articleStats.find(s => s.slug === article.slug)
+                      const conversion = stats?.conversionStats.find(c => c.slug === article.slug)
                       const lastPayment = stats?.recentPayments.find(p => p.slug === article.slug)
                       return {
                         ...article,
+                        impressions: conversion?.impressions || 0,
+                        conversionRate: conversion?.conversionRate ?? null,
                         sales: articleStat?.views || 0,
-                        revenue: articleStat?.revenue || 0,
+                        revenue: (articleStat?.revenue || 0) - (articleStat?.refunded || 0),
                         lastSale: lastPayment?.timestamp || null,
                       }
                     })
@@ -235,13 +580,23 @@ export default function MerchantDashboard() {
                           </div>
                         </td>
                         <td className="px-6 py-4 text-right">
-                          <span className="text-green-400">${article.priceUsd}</span>
+                          <span className="text-green-400">
+                            {article.currency === 'EUR' ? '€' : '$'}{article.priceUsd}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 text-right">
+                          <span className={article.impressions > 0 ? 'text-zinc-300' : 'text-zinc-600'}>
+                            {article.impressions}
+                          </span>
                         </td>
                         <td className="px-6 py-4 text-right">
                           <span className={article.sales > 0 ? 'text-blue-400' : 'text-zinc-600'}>
                             {article.sales}
                           </span>
                         </td>
+                        <td className="px-6 py-4 text-right text-sm text-zinc-400">
+                          {formatRate(article.conversionRate)}
+                        </td>
                         <td className="px-6 py-4 text-right">
                           <span className={article.revenue > 0 ? 'text-green-400' : 'text-zinc-600'}>
                             ${article.revenue.toFixed(2)}
@@ -286,12 +641,32 @@ export default function MerchantDashboard() {
                             )}
                             <span>•</span>
                             <span>{formatTime(payment.timestamp)}</span>
+                            {payment.reconciliation && payment.reconciliation.status !== 'matched' && (
+                              <span className="text-red-400" title={payment.reconciliation.detail}>
+                                • {payment.reconciliation.status}
+                              </span>
+                            )}
                           </div>
                         </div>
                         <div className="text-right ml-4">
                           <p className="text-green-400 font-medium">
-                            +${payment.amount.toFixed(2)}
+                            +{payment.assetSymbol === 'EURC' ? '€' : '$'}{payment.amount.toFixed(2)}{' '}
+                            <span className="text-xs font-normal text-zinc-500">{payment.assetSymbol}</span>
                           </p>
+                          {payment.refundedAmount > 0 && (
+                            <p className="text-xs text-yellow-500">
+                              refunded {payment.assetSymbol === 'EURC' ? '€' : '$'}{payment.refundedAmount.toFixed(2)}
+                            </p>
+                          )}
+                          {session?.role === 'admin' && payment.state === 'settled' && payment.refundedAmount < payment.amount && (
+                            <button
+                              onClick={() => refundPayment(payment)}
+                              disabled={refundingId === payment.id}
+                              className="text-xs text-zinc-500 hover:text-yellow-400 transition-colors cursor-pointer disabled:opacity-50"
+                            >
+                              {refundingId === payment.id ? 'Refunding...' : 'Refund'}
+                            </button>
+                          )}
                         </div>
                       </div>
                     )
@@ -1,16 +1,31 @@
 /**
  * Article data for x402 paywall demo
+ *
+ * These are the seed articles. The live catalog is managed through
+ * /api/admin/articles and read via src/lib/articles.ts.
  */
 
+// Share of an article's revenue paid out to a collaborator
+export interface RevenueSplit {
+  recipient: string // e.g. "Jane Doe (author)"
+  address: string
+  percent: number // 0-100; whatever is not split stays with the merchant
+}
+
 export interface Article {
   slug: string
   title: string
   description: string
-  priceUsd: number
+  priceUsd: number // list price, in `currency`
+  currency?: 'USD' | 'EUR' // defaults to USD
   author: string
   publishedAt: string
   content: string
   tags: string[]
+  published?: boolean // defaults to true
+  merchantId?: string // defaults to the default merchant
+  splits?: RevenueSplit[]
+  previewChars?: number // teaser length in the 402 body; defaults to PREVIEW_CHARS, 0 hides it
 }
 
 export const articles: Article[] = [
@@ -82,11 +97,3 @@ Ethereum, Base, Arbitrum, Polygon, Solana, and Arc.
 `,
   },
 ]
-
-export function getArticleBySlug(slug: string): Article | undefined {
-  return articles.find(article => article.slug === slug)
-}
-
-export function getAllArticles(): Article[] {
-  return articles
-}
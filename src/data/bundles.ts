@@ -0,0 +1,28 @@
+/**
+ * Bundle data for x402 paywall demo
+ *
+ * A bundle sells several articles for a single payment. These are the seed
+ * bundles; the live list is managed through /api/admin/bundles and read via
+ * src/lib/bundles.ts.
+ */
+
+export interface Bundle {
+  slug: string
+  title: string
+  description: string
+  priceUsd: number // bundle price, in `currency`
+  currency?: 'USD' | 'EUR' // defaults to USD
+  articleSlugs: string[]
+  published?: boolean // defaults to true
+  merchantId?: string // defaults to the default merchant
+}
+
+export const bundles: Bundle[] = [
+  {
+    slug: 'arc-developer-pack',
+    title: 'Arc Developer Pack',
+    description: 'Everything you need to build payments on Arc: the chain, x402 and Circle Gateway',
+    priceUsd: 0.025,
+    articleSlugs: ['arc-blockchain-guide', 'x402-micropayments', 'circle-gateway-guide'],
+  },
+]
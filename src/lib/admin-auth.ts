@@ -0,0 +1,19 @@
+/**
+ * Admin API authentication
+ *
+ * Admin routes require the admin role (see ./auth): either
+ * `Authorization: Bearer <ADMIN_API_KEY>` or an admin session from
+ * /api/auth/login or /api/auth/siwe.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from './auth';
+
+/**
+ * Check admin credentials on a request
+ *
+ * Returns an error response to send back, or null if the caller is allowed.
+ */
+export function requireAdmin(req: NextRequest): NextResponse | null {
+  return requireRole(req, 'admin');
+}
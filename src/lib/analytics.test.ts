@@ -0,0 +1,76 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getConversionStats, recordImpression } from './analytics';
+
+// Read once at import time; the log rotates on every fifth impression below
+vi.hoisted(() => {
+  process.env.ANALYTICS_MAX_LOG_BYTES = '1900';
+});
+
+const article = { slug: 'arc-blockchain-guide', title: 'Arc guide', price: 0.01, currency: 'USD' as const };
+// Cut to 256 characters, which makes each line 396 bytes
+const agent = new Headers({ 'user-agent': `curl/8.0 ${'x'.repeat(300)}` });
+
+function impressions(count: number) {
+  for (let i = 0; i < count; i++) recordImpression(article, agent);
+}
+
+function logLines(name: string): number {
+  return readFileSync(join(dataDir, name), 'utf8').split('\n').filter(Boolean).length;
+}
+
+// Drop the in-process aggregates, as a restart would
+function restart() {
+  globalThis.impressionAggregates = undefined;
+}
+
+let dataDir: string;
+
+beforeEach(() => {
+  dataDir = mkdtempSync(join(tmpdir(), 'arc-analytics-'));
+  process.env.ARC_MERCHANT_DATA_DIR = dataDir;
+  delete process.env.ANALYTICS_FILE;
+  restart();
+});
+
+afterEach(() => {
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe('impression log rotation', () => {
+  it('moves the log aside and saves a summary once it reaches the size limit', () => {
+    impressions(4);
+    expect(existsSync(join(dataDir, 'impressions.jsonl.1'))).toBe(false);
+
+    impressions(1);
+
+    expect(existsSync(join(dataDir, 'impressions.jsonl'))).toBe(false);
+    expect(logLines('impressions.jsonl.1')).toBe(5);
+    const summary = JSON.parse(readFileSync(join(dataDir, 'impressions-summary.json'), 'utf8'));
+    expect(summary.bySlug[article.slug]).toMatchObject({ impressions: 5, impressionsByClient: { agent: 5, browser: 0 } });
+  });
+
+  it('restores totals from the summary plus the current log after a restart', () => {
+    impressions(7);
+    restart();
+
+    expect(getConversionStats([])).toMatchObject([{ slug: article.slug, impressions: 7, lastQuotedPrice: 0.01 }]);
+  });
+
+  it('keeps only the previous log when rotating again', () => {
+    impressions(10);
+
+    expect(logLines('impressions.jsonl.1')).toBe(5);
+    expect(getConversionStats([])[0].impressions).toBe(10);
+  });
+
+  it('follows ANALYTICS_FILE for the log and its summary', () => {
+    process.env.ANALYTICS_FILE = 'views.jsonl';
+    impressions(5);
+
+    expect(logLines('views.jsonl.1')).toBe(5);
+    expect(existsSync(join(dataDir, 'views-summary.json'))).toBe(true);
+  });
+});
@@ -0,0 +1,302 @@
+/**
+ * Conversion analytics
+ *
+ * The paywall records every 402 challenge it serves as an impression, so
+ * paid views can be compared with how often a price was quoted. Impressions
+ * are appended to a JSONL log under the data directory (ANALYTICS_FILE,
+ * default impressions.jsonl), while the process only keeps rolling
+ * aggregates: totals per resource and impressions per UTC hour for the last
+ * HOURLY_RETENTION_DAYS days.
+ *
+ * The log is rotated once it reaches ANALYTICS_MAX_LOG_BYTES (default: 5 MB):
+ * the aggregates so far are saved to a summary file next to it, the log moves
+ * to `<file>.1` (replacing the previous one) and a new log starts. On startup
+ * the summary is loaded and only the current log is replayed.
+ *
+ * Clients are classified the way x402 picks its HTML paywall: requests that
+ * accept text/html from a Mozilla-style user agent are browsers, everything
+ * else is treated as an agent.
+ */
+
+import { appendFileSync, existsSync, readFileSync, renameSync, statSync, writeFileSync } from 'fs';
+import type { Currency } from './currency';
+import type { LedgerEntry } from './ledger';
+import { dataFilePath, readJsonFile, writeJsonFile } from './storage';
+
+export type ClientType = 'agent' | 'browser';
+
+export interface Impression {
+  slug: string;
+  title: string;
+  timestamp: number;
+  userAgent: string;
+  client: ClientType;
+  price: number; // quoted price, in `currency`
+  currency: Currency;
+}
+
+export interface ConversionStats {
+  slug: string;
+  title: string;
+  impressions: number;
+  impressionsByClient: Record<ClientType, number>;
+  payments: number;
+  conversionRate: number | null; // payments per impression, null without impressions
+  lastQuotedPrice: number | null;
+}
+
+export type TimeBucket = 'hour' | 'day';
+
+export interface TimeSeriesPoint {
+  start: number; // bucket start (ms since epoch)
+  revenue: number;
+  payments: number;
+  impressions: number;
+  conversionRate: number | null;
+}
+
+// Impressions of one resource since stats were last reset
+interface ImpressionTotals {
+  title: string;
+  impressions: number;
+  impressionsByClient: Record<ClientType, number>;
+  lastQuotedPrice: number;
+}
+
+// What survives a log rotation
+interface ImpressionSummary {
+  bySlug: Record<string, ImpressionTotals>;
+  hourly: Record<string, number>; // impressions per UTC hour start (ms)
+}
+
+const BUCKET_MS: Record<TimeBucket, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+};
+
+const HOURLY_RETENTION_DAYS = 31; // covers the 30-day series
+const MAX_USER_AGENT_LENGTH = 256;
+const MAX_LOG_BYTES = parseInt(process.env.ANALYTICS_MAX_LOG_BYTES || String(5 * 1024 * 1024));
+
+// Extend globalThis to keep aggregates across Next.js hot reloads
+declare global {
+  var impressionAggregates: { summary: ImpressionSummary; logBytes: number } | undefined;
+}
+
+function getLogName(): string {
+  return process.env.ANALYTICS_FILE || 'impressions.jsonl';
+}
+
+function getSummaryName(): string {
+  return `${getLogName().replace(/\.jsonl$/, '')}-summary.json`;
+}
+
+function emptySummary(): ImpressionSummary {
+  return { bySlug: {}, hourly: {} };
+}
+
+function addImpression(summary: ImpressionSummary, impression: Impression) {
+  if (!summary.bySlug[impression.slug]) {
+    summary.bySlug[impression.slug] = {
+      title: impression.title,
+      impressions: 0,
+      impressionsByClient: { agent: 0, browser: 0 },
+      lastQuotedPrice: impression.price,
+    };
+  }
+  const totals = summary.bySlug[impression.slug];
+  totals.title = impression.title;
+  totals.impressions++;
+  totals.impressionsByClient[impression.client]++;
+  totals.lastQuotedPrice = impression.price;
+
+  const hour = Math.floor(impression.timestamp / BUCKET_MS.hour) * BUCKET_MS.hour;
+  if (!summary.hourly[hour]) pruneHourly(summary); // once per new hour
+  summary.hourly[hour] = (summary.hourly[hour] || 0) + 1;
+}
+
+// Drop hourly buckets older than the retention window
+function pruneHourly(summary: ImpressionSummary) {
+  const cutoff = Date.now() - HOURLY_RETENTION_DAYS * BUCKET_MS.day;
+  for (const hour of Object.keys(summary.hourly)) {
+    if (Number(hour) < cutoff) delete summary.hourly[hour];
+  }
+}
+
+function loadAggregates() {
+  if (globalThis.impressionAggregates) return globalThis.impressionAggregates;
+
+  const summary = readJsonFile<ImpressionSummary>(getSummaryName(), emptySummary());
+  const path = dataFilePath(getLogName());
+  let logBytes = 0;
+  if (existsSync(path)) {
+    logBytes = statSync(path).size;
+    for (const line of readFileSync(path, 'utf8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        addImpression(summary, JSON.parse(line) as Impression);
+      } catch {
+        console.warn(`Skipping corrupt impression line in ${path}`);
+      }
+    }
+  }
+
+  globalThis.impressionAggregates = { summary, logBytes };
+  return globalThis.impressionAggregates;
+}
+
+// Fold the log into the summary file and start a new one
+function rotateLog(aggregates: { summary: ImpressionSummary; logBytes: number }) {
+  const path = dataFilePath(getLogName());
+  writeJsonFile(getSummaryName(), aggregates.summary);
+  renameSync(path, `${path}.1`);
+  aggregates.logBytes = 0;
+}
+
+function rate(payments: number, impressions: number): number | null {
+  return impressions > 0 ? payments / impressions : null;
+}
+
+// A bundle purchase is split across entries but is one conversion of the bundle
+function purchaseSlug(entry: LedgerEntry): string {
+  return entry.bundleSlug || entry.slug;
+}
+
+/**
+ * Classify a client as agent or browser from its request headers
+ */
+export function classifyClient(headers: Headers): ClientType {
+  const accept = headers.get('accept') || '';
+  const userAgent = headers.get('user-agent') || '';
+  return accept.includes('text/html') && userAgent.includes('Mozilla') ? 'browser' : 'agent';
+}
+
+/**
+ * Record a 402 challenge served for a resource
+ */
+export function recordImpression(
+  resource: { slug: string; title: string; price: number; currency: Currency },
+  headers: Headers
+): Impression {
+  const impression: Impression = {
+    slug: resource.slug,
+    title: resource.title,
+    timestamp: Date.now(),
+    userAgent: (headers.get('user-agent') || '').slice(0, MAX_USER_AGENT_LENGTH),
+    client: classifyClient(headers),
+    price: resource.price,
+    currency: resource.currency,
+  };
+
+  const aggregates = loadAggregates();
+  const line = JSON.stringify(impression) + '\n';
+  appendFileSync(dataFilePath(getLogName()), line);
+  aggregates.logBytes += Buffer.byteLength(line);
+  addImpression(aggregates.summary, impression);
+  if (aggregates.logBytes >= MAX_LOG_BYTES) rotateLog(aggregates);
+  return impression;
+}
+
+/**
+ * Remove every recorded impression
+ */
+export function clearImpressions() {
+  writeFileSync(dataFilePath(getLogName()), '');
+  writeJsonFile(getSummaryName(), emptySummary());
+  globalThis.impressionAggregates = { summary: emptySummary(), logBytes: 0 };
+}
+
+/**
+ * Impressions, payments and conversion rate per paywalled resource
+ *
+ * Payments are distinct purchases, so a bundle sale counts once for the
+ * bundle rather than once per article.
+ */
+export function getConversionStats(entries: LedgerEntry[]): ConversionStats[] {
+  const stats = new Map<string, ConversionStats>();
+
+  const statsFor = (slug: string, title: string) => {
+    let stat = stats.get(slug);
+    if (!stat) {
+      stat = {
+        slug,
+        title,
+        impressions: 0,
+        impressionsByClient: { agent: 0, browser: 0 },
+        payments: 0,
+        conversionRate: null,
+        lastQuotedPrice: null,
+      };
+      stats.set(slug, stat);
+    }
+    return stat;
+  };
+
+  for (const [slug, totals] of Object.entries(loadAggregates().summary.bySlug)) {
+    const stat = statsFor(slug, totals.title);
+    stat.impressions = totals.impressions;
+    stat.impressionsByClient = { ...totals.impressionsByClient };
+    stat.lastQuotedPrice = totals.lastQuotedPrice;
+  }
+
+  const purchases = new Map<string, LedgerEntry>();
+  for (const entry of entries) {
+    purchases.set(entry.purchaseId || entry.id, entry);
+  }
+  for (const entry of purchases.values()) {
+    const slug = purchaseSlug(entry);
+    statsFor(slug, entry.bundleSlug ? slug : entry.title).payments++;
+  }
+
+  return Array.from(stats.values())
+    .map(stat => ({ ...stat, conversionRate: rate(stat.payments, stat.impressions) }))
+    .sort((a, b) => b.impressions - a.impressions);
+}
+
+/**
+ * Revenue, payments and impressions per hour or day
+ *
+ * Returns `points` consecutive buckets ending with the current one
+ * (UTC boundaries), including empty buckets. `revenueOf` values an entry,
+ * e.g. converted to one currency (default: its face amount).
+ */
+export function getTimeSeries(
+  entries: LedgerEntry[],
+  bucket: TimeBucket,
+  points: number,
+  revenueOf: (entry: LedgerEntry) => number = entry => entry.amount
+): TimeSeriesPoint[] {
+  const size = BUCKET_MS[bucket];
+  const last = Math.floor(Date.now() / size) * size;
+  const first = last - (points - 1) * size;
+
+  const series: TimeSeriesPoint[] = Array.from({ length: points }, (_, i) => ({
+    start: first + i * size,
+    revenue: 0,
+    payments: 0,
+    impressions: 0,
+    conversionRate: null,
+  }));
+  const indexOf = (timestamp: number) => Math.floor((timestamp - first) / size);
+
+  const seenPurchases = new Set<string>();
+  for (const entry of entries) {
+    const point = series[indexOf(entry.timestamp)];
+    if (!point) continue;
+    point.revenue += revenueOf(entry);
+
+    const purchaseId = entry.purchaseId || entry.id;
+    if (!seenPurchases.has(purchaseId)) {
+      seenPurchases.add(purchaseId);
+      point.payments++;
+    }
+  }
+
+  // Hours fall inside UTC days, so hourly counts serve both bucket sizes
+  for (const [hour, count] of Object.entries(loadAggregates().summary.hourly)) {
+    const point = series[indexOf(Number(hour))];
+    if (point) point.impressions += count;
+  }
+
+  return series.map(point => ({ ...point, conversionRate: rate(point.payments, point.impressions) }));
+}
@@ -1,4 +1,4 @@
-import { defineChain } from 'viem'
+import { createPublicClient, defineChain, http, parseAbiItem } from 'viem'
 
 // Arc Testnet configuration
 export const arcTestnet = defineChain({
@@ -34,6 +34,8 @@ export const ARC_CONTRACTS = {
   PERMIT2: '0x000000000022D473030F116dDEE9F6B43aC78BA3' as const,
   // StableFX escrow for FX swaps
   FX_ESCROW: '0x1f91886C7028986aD885ffCee0e40b75C9cd5aC1' as const,
+  // Multicall3 (canonical deployment) for batched settlement
+  MULTICALL3: '0xcA11bde05977b3631167028862bE2a173976CA11' as const,
 }
 
 // ERC20 ABI for balance/transfer
@@ -70,3 +72,17 @@ export const ERC20_ABI = [
     type: 'function',
   },
 ] as const
+
+// Read-only client for Arc Testnet (event scans, receipts, signature checks)
+export const arcPublicClient = createPublicClient({
+  chain: arcTestnet,
+  transport: http(),
+})
+
+// ERC-20 transfer and EIP-3009 authorization events
+export const TRANSFER_EVENT = parseAbiItem(
+  'event Transfer(address indexed from, address indexed to, uint256 value)'
+)
+export const AUTHORIZATION_USED_EVENT = parseAbiItem(
+  'event AuthorizationUsed(address indexed authorizer, bytes32 indexed nonce)'
+)
@@ -0,0 +1,173 @@
+/**
+ * Article catalog
+ *
+ * Persistent article store behind the paywall and the admin API.
+ * Seeded from src/data/articles.ts on first use; after that the stored
+ * catalog is the source of truth. Every read goes to disk, so edits made
+ * through /api/admin/articles apply to the very next paywall request.
+ */
+
+import { z } from 'zod';
+import { Article, articles as seedArticles } from '../data/articles';
+import { merchantIdSchema } from './merchants';
+import { readJsonFile, writeJsonFile } from './storage';
+
+const ARTICLES_FILE = 'articles.json';
+const DEFAULT_PREVIEW_CHARS = 280;
+
+export const revenueSplitsSchema = z.array(z.object({
+  recipient: z.string().min(1),
+  address: z.string().regex(/^0x[0-9a-fA-F]{40}$/, 'Address must be a 0x address'),
+  percent: z.number().gt(0).max(100),
+})).refine(
+  splits => splits.reduce((sum, s) => sum + s.percent, 0) <= 100,
+  'Split percentages must add up to 100 or less'
+);
+
+const articleFields = z.object({
+  slug: z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Slug must be lowercase kebab-case'),
+  title: z.string().min(1),
+  description: z.string(),
+  priceUsd: z.number().positive(),
+  currency: z.enum(['USD', 'EUR']).optional(),
+  author: z.string().min(1),
+  publishedAt: z.string(),
+  content: z.string(),
+  tags: z.array(z.string()),
+  published: z.boolean(),
+  merchantId: merchantIdSchema.optional(),
+  splits: revenueSplitsSchema.optional(),
+  previewChars: z.number().int().min(0).optional(),
+});
+
+export const articleInputSchema = articleFields.extend({
+  description: articleFields.shape.description.default(''),
+  publishedAt: articleFields.shape.publishedAt.default(() => new Date().toISOString().slice(0, 10)),
+  tags: articleFields.shape.tags.default([]),
+  published: articleFields.shape.published.default(true),
+});
+
+// No defaults here: omitted fields must stay untouched on update
+export const articleUpdateSchema = articleFields.omit({ slug: true }).partial();
+
+export type ArticleInput = z.infer<typeof articleInputSchema>;
+export type ArticleUpdate = z.infer<typeof articleUpdateSchema>;
+
+function loadArticles(): Article[] {
+  return readJsonFile<Article[]>(ARTICLES_FILE, seedArticles);
+}
+
+function saveArticles(list: Article[]) {
+  writeJsonFile(ARTICLES_FILE, list);
+}
+
+/**
+ * Check whether an article is live behind the paywall
+ */
+export function isPublished(article: Article): boolean {
+  return article.published !== false;
+}
+
+/**
+ * Get all articles
+ *
+ * Unpublished articles are only included when explicitly requested.
+ */
+export function getAllArticles(options: { includeUnpublished?: boolean } = {}): Article[] {
+  const list = loadArticles();
+  return options.includeUnpublished ? list : list.filter(isPublished);
+}
+
+/**
+ * Get an article by slug
+ *
+ * Unpublished articles are only returned when explicitly requested.
+ */
+export function getArticleBySlug(
+  slug: string,
+  options: { includeUnpublished?: boolean } = {}
+): Article | undefined {
+  return getAllArticles(options).find(article => article.slug === slug);
+}
+
+// Public teaser returned with the 402 so buyers can judge an article first
+export interface ArticlePreview {
+  slug: string;
+  title: string;
+  description: string;
+  author: string;
+  publishedAt: string;
+  tags: string[];
+  wordCount: number;
+  excerpt: string;
+  excerptTruncated: boolean;
+}
+
+/**
+ * Build the public preview of an article
+ *
+ * The excerpt is the first `previewChars` characters of the content
+ * (PREVIEW_CHARS by default), cut back to a word boundary.
+ */
+export function buildArticlePreview(article: Article): ArticlePreview {
+  const limit = article.previewChars ?? parseInt(process.env.PREVIEW_CHARS || String(DEFAULT_PREVIEW_CHARS));
+  const content = article.content.trim();
+  const truncated = content.length > limit;
+
+  let excerpt = truncated ? content.slice(0, limit) : content;
+  if (truncated && limit > 0) {
+    const lastSpace = excerpt.search(/\s\S*$/);
+    if (lastSpace > 0) excerpt = excerpt.slice(0, lastSpace);
+  }
+
+  return {
+    slug: article.slug,
+    title: article.title,
+    description: article.description,
+    author: article.author,
+    publishedAt: article.publishedAt,
+    tags: article.tags,
+    wordCount: content.split(/\s+/).filter(Boolean).length,
+    excerpt: excerpt.trimEnd(),
+    excerptTruncated: truncated,
+  };
+}
+
+/**
+ * Create a new article
+ */
+export function createArticle(input: ArticleInput): Article {
+  const list = loadArticles();
+  if (list.some(a => a.slug === input.slug)) {
+    throw new Error(`Article already exists: ${input.slug}`);
+  }
+
+  const article: Article = { ...input };
+  saveArticles([...list, article]);
+  return article;
+}
+
+/**
+ * Update an existing article (title, content, price, publish state, ...)
+ *
+ * Returns null if no article has the given slug.
+ */
+export function updateArticle(slug: string, update: ArticleUpdate): Article | null {
+  const list = loadArticles();
+  const index = list.findIndex(a => a.slug === slug);
+  if (index === -1) return null;
+
+  const article: Article = { ...list[index], ...update, slug };
+  list[index] = article;
+  saveArticles(list);
+  return article;
+}
+
+/**
+ * Take an article off the paywall without deleting it
+ *
+ * Payments already recorded against the slug stay attributable.
+ */
+export function unpublishArticle(slug: string): Article | null {
+  return updateArticle(slug, { published: false });
+}
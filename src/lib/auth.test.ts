@@ -0,0 +1,182 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { NextRequest } from 'next/server';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { verifyMessage } from 'viem';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import { createSiweMessage, parseSiweMessage, validateSiweMessage } from 'viem/siwe';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createSession,
+  issueSiweNonce,
+  requireRole,
+  revokeSession,
+  roleForAddress,
+  SESSION_COOKIE,
+  verifySession,
+  verifySiweLogin,
+} from './auth';
+
+// Checks EOA signatures offline instead of calling Arc
+vi.mock('./arc', () => ({
+  arcPublicClient: {
+    verifySiweMessage: vi.fn(async ({ message, signature, domain, nonce }: {
+      message: string; signature: `0x${string}`; domain: string; nonce: string;
+    }) => {
+      const fields = parseSiweMessage(message);
+      return validateSiweMessage({ message: fields, domain, nonce }) &&
+        verifyMessage({ address: fields.address!, message, signature });
+    }),
+  },
+}));
+
+const MERCHANT = '0x1111111111111111111111111111111111111111';
+const OPERATOR = '0x3333333333333333333333333333333333333333';
+const DOMAIN = 'localhost:3000';
+
+function request(headers: Record<string, string> = {}): NextRequest {
+  return new NextRequest('http://localhost:3000/api/admin/payouts', { headers });
+}
+
+function siweMessage(address: `0x${string}`, nonce: string): string {
+  return createSiweMessage({ address, chainId: 5042002, domain: DOMAIN, nonce, uri: `http://${DOMAIN}`, version: '1' });
+}
+
+let dataDir: string;
+
+beforeEach(() => {
+  dataDir = mkdtempSync(join(tmpdir(), 'arc-auth-'));
+  process.env.ARC_MERCHANT_DATA_DIR = dataDir;
+  process.env.RECEIPT_SECRET = 'test-secret';
+  process.env.ADMIN_API_KEY = 'admin-key';
+  process.env.VIEWER_API_KEY = 'viewer-key';
+  process.env.MERCHANT_WALLET_ID = 'merchant-wallet';
+  process.env.MERCHANT_PAYOUT_ADDRESS = MERCHANT;
+  process.env.AUTH_OPERATOR_ADDRESSES = OPERATOR;
+  delete process.env.SESSION_TTL_SECONDS;
+  globalThis.siweNonces = undefined;
+});
+
+afterEach(() => {
+  rmSync(dataDir, { recursive: true, force: true });
+  vi.useRealTimers();
+});
+
+describe('requireRole', () => {
+  it('lets an API key through for its role and the roles below it', () => {
+    expect(requireRole(request({ authorization: 'Bearer admin-key' }), 'admin')).toBeNull();
+    expect(requireRole(request({ authorization: 'Bearer admin-key' }), 'viewer')).toBeNull();
+    expect(requireRole(request({ authorization: 'Bearer viewer-key' }), 'viewer')).toBeNull();
+  });
+
+  it('refuses a role above the caller', async () => {
+    const denied = requireRole(request({ authorization: 'Bearer viewer-key' }), 'operator');
+
+    expect(denied?.status).toBe(403);
+    expect(await denied?.json()).toEqual({ error: 'Forbidden: requires operator role' });
+  });
+
+  it('refuses callers without credentials or with an unknown key', () => {
+    expect(requireRole(request(), 'viewer')?.status).toBe(401);
+    expect(requireRole(request({ authorization: 'Bearer wrong-key' }), 'viewer')?.status).toBe(401);
+  });
+
+  it('accepts a session from the cookie or as a bearer token', () => {
+    const { token } = createSession(OPERATOR, 'operator', 'siwe');
+
+    expect(requireRole(request({ cookie: `${SESSION_COOKIE}=${token}` }), 'operator')).toBeNull();
+    expect(requireRole(request({ authorization: `Bearer ${token}` }), 'operator')).toBeNull();
+    expect(requireRole(request({ authorization: `Bearer ${token}` }), 'admin')?.status).toBe(403);
+  });
+
+  it('is unavailable until an API key or merchant is configured', () => {
+    delete process.env.ADMIN_API_KEY;
+    delete process.env.VIEWER_API_KEY;
+    delete process.env.MERCHANT_WALLET_ID;
+    delete process.env.MERCHANT_PAYOUT_ADDRESS;
+
+    expect(requireRole(request({ authorization: 'Bearer admin-key' }), 'viewer')?.status).toBe(503);
+  });
+});
+
+describe('verifySession', () => {
+  it('refuses a session once it expires', () => {
+    vi.useFakeTimers();
+    const { token } = createSession(MERCHANT, 'admin', 'siwe');
+    expect(verifySession(token)).toMatchObject({ sub: MERCHANT, role: 'admin' });
+
+    vi.advanceTimersByTime(60 * 60 * 1000 + 1000);
+    expect(verifySession(token)).toBeNull();
+  });
+
+  it('refuses a revoked session but not others', () => {
+    const signedOut = createSession(MERCHANT, 'admin', 'siwe');
+    const other = createSession(MERCHANT, 'admin', 'siwe');
+
+    revokeSession(signedOut.session);
+
+    expect(verifySession(signedOut.token)).toBeNull();
+    expect(verifySession(other.token)).not.toBeNull();
+  });
+
+  it('forgets revocations of sessions that have expired', () => {
+    vi.useFakeTimers();
+    const expired = createSession(MERCHANT, 'admin', 'siwe');
+    revokeSession(expired.session);
+
+    vi.advanceTimersByTime(60 * 60 * 1000 + 1000);
+    const current = createSession(MERCHANT, 'admin', 'siwe');
+    revokeSession(current.session);
+
+    const revoked = JSON.parse(readFileSync(join(dataDir, 'revoked-sessions.json'), 'utf8'));
+    expect(Object.keys(revoked)).toEqual([current.session.sid]);
+  });
+});
+
+describe('roleForAddress', () => {
+  it('makes merchant payout addresses admins and listed addresses operators', () => {
+    expect(roleForAddress(MERCHANT)).toBe('admin');
+    expect(roleForAddress(OPERATOR)).toBe('operator');
+    expect(roleForAddress('0x4444444444444444444444444444444444444444')).toBeNull();
+  });
+});
+
+describe('verifySiweLogin', () => {
+  const account = privateKeyToAccount(generatePrivateKey());
+
+  it('returns the address that signed a message with an issued nonce', async () => {
+    const message = siweMessage(account.address, issueSiweNonce());
+    const signature = await account.signMessage({ message });
+
+    await expect(verifySiweLogin(message, signature, DOMAIN)).resolves.toBe(account.address);
+  });
+
+  it('accepts each nonce once', async () => {
+    const message = siweMessage(account.address, issueSiweNonce());
+    const signature = await account.signMessage({ message });
+    await verifySiweLogin(message, signature, DOMAIN);
+
+    await expect(verifySiweLogin(message, signature, DOMAIN)).rejects.toThrow('Unknown or expired nonce');
+  });
+
+  it('refuses a nonce it did not issue', async () => {
+    const message = siweMessage(account.address, 'abcdefgh12345678');
+    const signature = await account.signMessage({ message });
+
+    await expect(verifySiweLogin(message, signature, DOMAIN)).rejects.toThrow('Unknown or expired nonce');
+  });
+
+  it('refuses a message signed by another address', async () => {
+    const message = siweMessage(account.address, issueSiweNonce());
+    const signature = await privateKeyToAccount(generatePrivateKey()).signMessage({ message });
+
+    await expect(verifySiweLogin(message, signature, DOMAIN)).rejects.toThrow('Invalid SIWE signature or message');
+  });
+
+  it('refuses a message for another domain', async () => {
+    const message = siweMessage(account.address, issueSiweNonce());
+    const signature = await account.signMessage({ message });
+
+    await expect(verifySiweLogin(message, signature, 'evil.example')).rejects.toThrow('Invalid SIWE signature or message');
+  });
+});
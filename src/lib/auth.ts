@@ -0,0 +1,259 @@
+/**
+ * Merchant authentication and roles
+ *
+ * Roles, from least to most privileged:
+ * - viewer: read stats and the live stream
+ * - operator: viewer + record settlement txHashes
+ * - admin: operator + reset stats and the admin API (/api/admin/*)
+ *
+ * Callers authenticate in one of two ways:
+ * - API key: `Authorization: Bearer <key>` with ADMIN_API_KEY, OPERATOR_API_KEY
+ *   or VIEWER_API_KEY (for scripts and agents)
+ * - Session: a signed, expiring token from POST /api/auth/login (API key) or
+ *   POST /api/auth/siwe (Sign-In with Ethereum), sent as the `arc_session`
+ *   cookie or as a bearer token. Signing out revokes the session ID, so a
+ *   copied token stops working too; revocations are kept in
+ *   `revoked-sessions.json` until the session would have expired.
+ *
+ * SIWE roles: registered merchant payout addresses are admins;
+ * AUTH_OPERATOR_ADDRESSES and AUTH_VIEWER_ADDRESSES (comma-separated) grant
+ * the lower roles. Any other address is refused.
+ */
+
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { generateSiweNonce, parseSiweMessage } from 'viem/siwe';
+import { arcPublicClient } from './arc';
+import { getMerchants } from './merchants';
+import { signToken, verifyToken } from './receipts';
+import { readJsonFile, writeJsonFile } from './storage';
+
+export const ROLES = ['viewer', 'operator', 'admin'] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export const SESSION_COOKIE = 'arc_session';
+
+const REVOKED_SESSIONS_FILE = 'revoked-sessions.json';
+
+const DEFAULT_SESSION_TTL_SECONDS = 60 * 60;
+const NONCE_TTL_MS = 10 * 60 * 1000;
+
+export interface Session {
+  typ: 'session'; // receipts and passes share the signing key (see ./receipts)
+  sid: string;
+  sub: string; // wallet address, or "api-key:<role>"
+  role: Role;
+  method: 'api-key' | 'siwe';
+  iat: number; // issued at (unix seconds)
+  exp: number; // expires at (unix seconds)
+}
+
+// Issued SIWE nonces and when they expire; each can be used once
+declare global {
+  var siweNonces: Map<string, number> | undefined;
+}
+
+function getNonces(): Map<string, number> {
+  if (!globalThis.siweNonces) globalThis.siweNonces = new Map();
+  return globalThis.siweNonces;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+}
+
+function parseAddressList(value: string | undefined): string[] {
+  return (value || '').split(',').map(a => a.trim().toLowerCase()).filter(Boolean);
+}
+
+function getApiKeys(): { role: Role; key: string }[] {
+  const keys: { role: Role; key: string | undefined }[] = [
+    { role: 'admin', key: process.env.ADMIN_API_KEY },
+    { role: 'operator', key: process.env.OPERATOR_API_KEY },
+    { role: 'viewer', key: process.env.VIEWER_API_KEY },
+  ];
+  return keys.filter((k): k is { role: Role; key: string } => !!k.key);
+}
+
+/**
+ * Whether a role includes the privileges of another
+ */
+export function hasRole(role: Role, required: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+/**
+ * Session lifetime in seconds
+ */
+export function getSessionTtl(): number {
+  return parseInt(process.env.SESSION_TTL_SECONDS || String(DEFAULT_SESSION_TTL_SECONDS));
+}
+
+/**
+ * Role granted to an API key, or null if the key is unknown
+ */
+export function roleForApiKey(key: string): Role | null {
+  return getApiKeys().find(k => safeEqual(key, k.key))?.role || null;
+}
+
+/**
+ * Role granted to a wallet address signing in with Ethereum, or null
+ */
+export function roleForAddress(address: string): Role | null {
+  const normalized = address.toLowerCase();
+  if (getMerchants().some(m => m.payoutAddress.toLowerCase() === normalized)) return 'admin';
+  if (parseAddressList(process.env.AUTH_OPERATOR_ADDRESSES).includes(normalized)) return 'operator';
+  if (parseAddressList(process.env.AUTH_VIEWER_ADDRESSES).includes(normalized)) return 'viewer';
+  return null;
+}
+
+/**
+ * Create a signed session token
+ */
+export function createSession(sub: string, role: Role, method: Session['method']): { session: Session; token: string } {
+  const iat = Math.floor(Date.now() / 1000);
+  const session: Session = { typ: 'session', sid: randomUUID(), sub, role, method, iat, exp: iat + getSessionTtl() };
+  return { session, token: signToken(session) };
+}
+
+/**
+ * Issue a one-time nonce for a SIWE message
+ */
+export function issueSiweNonce(): string {
+  const nonces = getNonces();
+  const now = Date.now();
+  for (const [nonce, expiresAt] of nonces) {
+    if (expiresAt < now) nonces.delete(nonce);
+  }
+
+  const nonce = generateSiweNonce();
+  nonces.set(nonce, now + NONCE_TTL_MS);
+  return nonce;
+}
+
+/**
+ * Verify a signed SIWE message and return the signer's address
+ *
+ * The message must be for `domain`, carry a nonce issued by
+ * issueSiweNonce() (consumed here) and be signed by its address. Smart
+ * contract wallets are verified on Arc (ERC-1271 / ERC-6492).
+ * Throws with a reason when any check fails.
+ */
+export async function verifySiweLogin(message: string, signature: `0x${string}`, domain: string): Promise<string> {
+  const fields = parseSiweMessage(message);
+  if (!fields.address || !fields.nonce) {
+    throw new Error('Malformed SIWE message');
+  }
+
+  const nonces = getNonces();
+  const expiresAt = nonces.get(fields.nonce);
+  nonces.delete(fields.nonce);
+  if (!expiresAt || expiresAt < Date.now()) {
+    throw new Error('Unknown or expired nonce');
+  }
+
+  const valid = await arcPublicClient.verifySiweMessage({ message, signature, domain, nonce: fields.nonce });
+  if (!valid) {
+    throw new Error('Invalid SIWE signature or message');
+  }
+  return fields.address;
+}
+
+// Revoked session IDs and when each session expires (unix seconds)
+function loadRevokedSessions(): Record<string, number> {
+  return readJsonFile<Record<string, number>>(REVOKED_SESSIONS_FILE, {});
+}
+
+/**
+ * Revoke a session, e.g. on sign-out
+ *
+ * Its token is refused from then on, even if a copy outlives the cookie.
+ */
+export function revokeSession(session: Session) {
+  const now = Math.floor(Date.now() / 1000);
+  // Expired sessions are refused anyway, so their entries can go
+  const revoked = Object.fromEntries(Object.entries(loadRevokedSessions()).filter(([, exp]) => exp > now));
+  revoked[session.sid] = session.exp;
+  writeJsonFile(REVOKED_SESSIONS_FILE, revoked);
+}
+
+/**
+ * Verify a session token, returning the session or null
+ *
+ * Refuses expired and revoked sessions.
+ */
+export function verifySession(token: string): Session | null {
+  const session = verifyToken<Session>(token, 'session');
+  if (!session || !ROLES.includes(session.role)) return null;
+  if (typeof session.sid !== 'string' || loadRevokedSessions()[session.sid] !== undefined) return null;
+  return session;
+}
+
+/**
+ * Resolve the caller's session from a bearer token or the session cookie
+ *
+ * Bearer API keys yield an ephemeral session for their role.
+ */
+export function getSession(req: NextRequest): Session | null {
+  const header = req.headers.get('authorization') || '';
+  const bearer = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+
+  if (bearer) {
+    const role = roleForApiKey(bearer);
+    if (role) {
+      const iat = Math.floor(Date.now() / 1000);
+      return { typ: 'session', sid: 'api-key', sub: `api-key:${role}`, role, method: 'api-key', iat, exp: iat };
+    }
+    return verifySession(bearer);
+  }
+
+  const cookie = req.cookies.get(SESSION_COOKIE)?.value;
+  return cookie ? verifySession(cookie) : null;
+}
+
+/**
+ * Check that the caller has at least the given role
+ *
+ * Returns an error response to send back, or null if the caller is allowed.
+ */
+export function requireRole(req: NextRequest, role: Role): NextResponse | null {
+  if (getApiKeys().length === 0 && getMerchants().length === 0) {
+    return NextResponse.json(
+      { error: 'Authentication not configured: set ADMIN_API_KEY or register a merchant' },
+      { status: 503 }
+    );
+  }
+
+  const session = getSession(req);
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!hasRole(session.role, role)) {
+    return NextResponse.json({ error: `Forbidden: requires ${role} role` }, { status: 403 });
+  }
+  return null;
+}
+
+/**
+ * Set the session cookie on a response
+ */
+export function setSessionCookie(response: NextResponse, token: string) {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    // Lax keeps the cookie off cross-site POSTs
+    sameSite: 'lax',
+    path: '/',
+    maxAge: getSessionTtl(),
+  });
+}
+
+/**
+ * Clear the session cookie on a response
+ */
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE, '', { httpOnly: true, path: '/', maxAge: 0 });
+}
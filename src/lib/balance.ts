@@ -0,0 +1,58 @@
+/**
+ * Merchant balance for the dashboard
+ *
+ * Reads the merchant wallet's USDC balance from Circle, but only when the
+ * cache in ./stats is stale (after a payment or refund, or once the TTL
+ * expires). Concurrent callers share one in-flight Circle request, so any
+ * number of dashboard polls and streams cost at most one call per refresh.
+ */
+
+import type { Balance } from '@circle-fin/developer-controlled-wallets';
+import { getMerchantWallet, getWalletBalance } from './circle-wallet';
+import { getCachedBalance, getCachedWallet, setCachedBalance, shouldRefreshBalance } from './stats';
+
+export interface MerchantBalance {
+  merchantWallet: { id: string; address: string } | null;
+  onChainBalance: string | null;
+}
+
+declare global {
+  var balanceRefresh: Promise<void> | undefined;
+}
+
+async function refreshFromCircle() {
+  try {
+    console.log(`📊 Refreshing from Circle API...`);
+    const wallet = await getMerchantWallet();
+    const balances = await getWalletBalance(wallet.id);
+
+    // Token can be 'USDC' or 'USDC-TESTNET' depending on network
+    const usdcBalance = balances.find((b: Balance) => b.token?.symbol?.includes('USDC'));
+    const onChainBalance = usdcBalance?.amount || '0';
+
+    // Store both wallet and balance
+    setCachedBalance(onChainBalance, wallet.id, wallet.address);
+    console.log(`📊 Balance updated: $${onChainBalance}`);
+  } catch (error) {
+    console.error('Failed to get merchant wallet:', error);
+  }
+}
+
+/**
+ * Get the merchant wallet and balance, refreshing from Circle when stale
+ */
+export async function getMerchantBalance(): Promise<MerchantBalance> {
+  if (shouldRefreshBalance()) {
+    if (!globalThis.balanceRefresh) {
+      globalThis.balanceRefresh = refreshFromCircle().finally(() => {
+        globalThis.balanceRefresh = undefined;
+      });
+    }
+    await globalThis.balanceRefresh;
+  }
+
+  return {
+    merchantWallet: getCachedWallet(),
+    onChainBalance: getCachedBalance(),
+  };
+}
@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Article } from '../data/articles';
+import { Bundle } from '../data/bundles';
+import { allocateBundleRevenue, BundleMember, priceBundleMembers } from './bundles';
+import { setFxProvider, StaticFxProvider } from './currency';
+
+function article(slug: string, priceUsd: number, currency?: 'USD' | 'EUR'): Article {
+  return {
+    slug,
+    title: slug,
+    description: '',
+    priceUsd,
+    ...(currency && { currency }),
+    author: 'Arc',
+    publishedAt: '2026-03-01',
+    content: '',
+    tags: [],
+  };
+}
+
+function member(slug: string, listPrice: number): BundleMember {
+  return { article: article(slug, listPrice), listPrice };
+}
+
+const bundle: Bundle = {
+  slug: 'arc-developer-pack',
+  title: 'Arc Developer Pack',
+  description: '',
+  priceUsd: 0.025,
+  articleSlugs: ['arc-blockchain-guide', 'x402-micropayments'],
+};
+
+beforeEach(() => {
+  setFxProvider(new StaticFxProvider(1.25));
+});
+
+afterEach(() => {
+  globalThis.fxProvider = undefined;
+});
+
+describe('allocateBundleRevenue', () => {
+  it('splits the payment pro rata to list prices', () => {
+    const shares = allocateBundleRevenue(0.03, [member('a', 0.01), member('b', 0.02), member('c', 0.03)]);
+
+    expect(shares.map(s => [s.article.slug, s.amount])).toEqual([['a', 0.005], ['b', 0.01], ['c', 0.015]]);
+  });
+
+  it('gives the rounding remainder to the last article so shares add up to the payment', () => {
+    const shares = allocateBundleRevenue(0.01, [member('a', 1), member('b', 1), member('c', 1)]);
+
+    expect(shares.map(s => s.amount)).toEqual([0.003333, 0.003333, 0.003334]);
+    expect(Math.round(shares.reduce((sum, s) => sum + s.amount, 0) * 1_000_000)).toBe(10_000);
+  });
+});
+
+describe('priceBundleMembers', () => {
+  it("prices members in the bundle's currency", async () => {
+    const members = await priceBundleMembers({ ...bundle, currency: 'EUR' }, [
+      article('arc-blockchain-guide', 0.0125),
+      article('x402-micropayments', 0.01, 'EUR'),
+    ]);
+
+    expect(members[0].listPrice).toBeCloseTo(0.01, 9);
+    expect(members[1].listPrice).toBe(0.01);
+  });
+
+  it('weighs a bundle payment by converted prices when members use different currencies', async () => {
+    const members = await priceBundleMembers(bundle, [
+      article('arc-blockchain-guide', 0.01, 'EUR'),
+      article('x402-micropayments', 0.0125),
+    ]);
+
+    expect(allocateBundleRevenue(0.02, members).map(s => s.amount)).toEqual([0.01, 0.01]);
+  });
+});
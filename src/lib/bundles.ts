@@ -0,0 +1,167 @@
+/**
+ * Article bundles
+ *
+ * Persistent bundle store behind /api/bundle/:slug and the admin API.
+ * Seeded from src/data/bundles.ts on first use. One payment for a bundle
+ * unlocks every member article; the revenue is attributed to the member
+ * articles pro rata to their list prices, converted to one currency.
+ *
+ * A bundle whose members are not all published is not for sale: its price
+ * was set for the full set of articles.
+ */
+
+import { z } from 'zod';
+import { Article } from '../data/articles';
+import { Bundle, bundles as seedBundles } from '../data/bundles';
+import { getArticleBySlug } from './articles';
+import { convertAmount, Currency } from './currency';
+import { merchantIdSchema } from './merchants';
+import { readJsonFile, writeJsonFile } from './storage';
+
+const BUNDLES_FILE = 'bundles.json';
+
+const bundleFields = z.object({
+  slug: z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Slug must be lowercase kebab-case'),
+  title: z.string().min(1),
+  description: z.string(),
+  priceUsd: z.number().positive(),
+  currency: z.enum(['USD', 'EUR']).optional(),
+  articleSlugs: z.array(z.string()).min(2),
+  published: z.boolean(),
+  merchantId: merchantIdSchema.optional(),
+});
+
+export const bundleInputSchema = bundleFields.extend({
+  description: bundleFields.shape.description.default(''),
+  published: bundleFields.shape.published.default(true),
+});
+
+// No defaults here: omitted fields must stay untouched on update
+export const bundleUpdateSchema = bundleFields.omit({ slug: true }).partial();
+
+export type BundleInput = z.infer<typeof bundleInputSchema>;
+export type BundleUpdate = z.infer<typeof bundleUpdateSchema>;
+
+// A member article with its list price in the bundle's currency
+export interface BundleMember {
+  article: Article;
+  listPrice: number;
+}
+
+function loadBundles(): Bundle[] {
+  return readJsonFile<Bundle[]>(BUNDLES_FILE, seedBundles);
+}
+
+function saveBundles(list: Bundle[]) {
+  writeJsonFile(BUNDLES_FILE, list);
+}
+
+/**
+ * Get all bundles
+ *
+ * Unpublished bundles are only included when explicitly requested.
+ */
+export function getAllBundles(options: { includeUnpublished?: boolean } = {}): Bundle[] {
+  const list = loadBundles();
+  return options.includeUnpublished ? list : list.filter(b => b.published !== false);
+}
+
+/**
+ * Get a bundle by slug
+ */
+export function getBundleBySlug(
+  slug: string,
+  options: { includeUnpublished?: boolean } = {}
+): Bundle | undefined {
+  return getAllBundles(options).find(bundle => bundle.slug === slug);
+}
+
+/**
+ * Get the bundles on sale that contain an article (for cross-selling)
+ */
+export function getBundlesForArticle(articleSlug: string): Bundle[] {
+  return getAllBundles().filter(bundle => bundle.articleSlugs.includes(articleSlug) && isBundleAvailable(bundle));
+}
+
+/**
+ * Member slugs that are unpublished or missing
+ */
+export function getUnavailableArticleSlugs(bundle: Bundle): string[] {
+  return bundle.articleSlugs.filter(slug => !getArticleBySlug(slug));
+}
+
+/**
+ * Whether every member article is published, so the bundle can be sold
+ */
+export function isBundleAvailable(bundle: Bundle): boolean {
+  return getUnavailableArticleSlugs(bundle).length === 0;
+}
+
+/**
+ * Resolve a bundle's member articles, skipping unpublished or missing ones
+ */
+export function getBundleArticles(bundle: Bundle): Article[] {
+  return bundle.articleSlugs
+    .map(slug => getArticleBySlug(slug))
+    .filter((article): article is Article => !!article);
+}
+
+/**
+ * Create a new bundle
+ */
+export function createBundle(input: BundleInput): Bundle {
+  const list = loadBundles();
+  if (list.some(b => b.slug === input.slug)) {
+    throw new Error(`Bundle already exists: ${input.slug}`);
+  }
+
+  const bundle: Bundle = { ...input };
+  saveBundles([...list, bundle]);
+  return bundle;
+}
+
+/**
+ * Update an existing bundle
+ *
+ * Returns null if no bundle has the given slug.
+ */
+export function updateBundle(slug: string, update: BundleUpdate): Bundle | null {
+  const list = loadBundles();
+  const index = list.findIndex(b => b.slug === slug);
+  if (index === -1) return null;
+
+  const bundle: Bundle = { ...list[index], ...update, slug };
+  list[index] = bundle;
+  saveBundles(list);
+  return bundle;
+}
+
+/**
+ * Price member articles in the bundle's currency with the active FX provider
+ */
+export async function priceBundleMembers(bundle: Bundle, articles: Article[]): Promise<BundleMember[]> {
+  const currency: Currency = bundle.currency || 'USD';
+  return Promise.all(articles.map(async article => ({
+    article,
+    listPrice: await convertAmount(article.priceUsd, article.currency || 'USD', currency),
+  })));
+}
+
+/**
+ * Split a bundle payment across its articles, pro rata to list price
+ *
+ * Shares are rounded to 6 decimals; the rounding remainder goes to the
+ * last article so the shares always add up to the amount paid.
+ */
+export function allocateBundleRevenue(amount: number, members: BundleMember[]): { article: Article; amount: number }[] {
+  const listTotal = members.reduce((sum, m) => sum + m.listPrice, 0);
+  let allocated = 0;
+
+  return members.map(({ article, listPrice }, i) => {
+    const share = i === members.length - 1
+      ? Math.round((amount - allocated) * 1_000_000) / 1_000_000
+      : Math.round((amount * listPrice / listTotal) * 1_000_000) / 1_000_000;
+    allocated += share;
+    return { article, amount: share };
+  });
+}
@@ -9,6 +9,7 @@ import { initiateDeveloperControlledWalletsClient } from '@circle-fin/developer-
 import dotenv from 'dotenv';
 import { fileURLToPath } from 'url';
 import { dirname, resolve } from 'path';
+import { resolveMerchant } from './merchants';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -86,8 +87,8 @@ export async function getWalletBalance(walletId: string) {
 /**
  * Sign an EIP-3009 authorization for x402 payment
  *
- * This allows the AI agent to authorize USDC transfers
- * without holding the private key directly.
+ * This allows the AI agent to authorize USDC (or EURC, via tokenDomain)
+ * transfers without holding the private key directly.
  */
 export async function signPaymentAuthorization(
   walletId: string,
@@ -98,6 +99,7 @@ export async function signPaymentAuthorization(
   validBefore: bigint,
   nonce: `0x${string}`,
   usdcContract: `0x${string}`,
+  tokenDomain: { name: string; version: string } = { name: 'USDC', version: '2' },
 ) {
   // Build EIP-712 typed data for TransferWithAuthorization
   const typedData = {
@@ -119,8 +121,8 @@ export async function signPaymentAuthorization(
     },
     primaryType: 'TransferWithAuthorization',
     domain: {
-      name: 'USDC',
-      version: '2',
+      name: tokenDomain.name,
+      version: tokenDomain.version,
       chainId: 5042002, // Arc testnet
       verifyingContract: usdcContract,
     },
@@ -196,11 +198,30 @@ export async function transferUSDC(
   walletAddress: string,
   destinationAddress: string,
   amount: string // Human-readable amount like "1.50"
+) {
+  return transferToken(
+    walletAddress,
+    destinationAddress,
+    amount,
+    '0x3600000000000000000000000000000000000000' // Arc USDC (native precompile)
+  );
+}
+
+/**
+ * Transfer an ERC-20 token (e.g. USDC or EURC) to another address on Arc
+ */
+export async function transferToken(
+  walletAddress: string,
+  destinationAddress: string,
+  amount: string, // Human-readable amount like "1.50"
+  tokenAddress: string,
+  idempotencyKey?: string // UUID; Circle creates one transfer per key
 ) {
   const response = await circleClient.createTransaction({
+    ...(idempotencyKey && { idempotencyKey }),
     blockchain: 'ARC-TESTNET' as const,
     walletAddress,
-    tokenAddress: '0x3600000000000000000000000000000000000000', // Arc USDC (native precompile)
+    tokenAddress,
     amount: [amount],
     destinationAddress,
     fee: {
@@ -214,35 +235,38 @@ export async function transferUSDC(
 }
 
 /**
- * Get the merchant wallet for receiving x402 payments
+ * Get a merchant's Circle wallet (funds, balance, refunds)
  *
- * Retrieves an existing Circle wallet. Does NOT create one.
- * If no merchant wallet exists, throws an error.
- *
- * Sorts wallets by ID to ensure deterministic selection.
+ * Resolved through the merchant registry; the default merchant is used
+ * when no ID is given. Throws if the merchant or its wallet does not exist.
  */
-export async function getMerchantWallet(): Promise<{ id: string; address: `0x${string}` }> {
-  const wallets = await listWallets();
-
-  // Filter to Arc testnet EOA wallets and sort by ID for deterministic selection
-  const arcWallets = wallets
-    .filter((w: any) => w.blockchain === 'ARC-TESTNET' && w.accountType === 'EOA')
-    .sort((a: any, b: any) => a.id.localeCompare(b.id));
+export async function getMerchantWallet(merchantId?: string): Promise<{ id: string; address: `0x${string}` }> {
+  const merchant = resolveMerchant(merchantId);
+  const wallet = await getWallet(merchant.walletId);
 
-  if (arcWallets.length < 2) {
-    throw new Error('Need at least 2 wallets (agent + merchant). Create more using arc_create_wallet MCP tool.');
+  if (!wallet) {
+    throw new Error(`Circle wallet ${merchant.walletId} for merchant ${merchant.id} not found`);
   }
 
-  // Use the SECOND wallet as merchant (first is used by agent for payments)
-  const merchant = arcWallets[1];
-  console.log(`Merchant wallet: ${merchant.address} (ID: ${merchant.id})`);
-
   return {
-    id: merchant.id,
-    address: merchant.address as `0x${string}`,
+    id: wallet.id,
+    address: wallet.address as `0x${string}`,
   };
 }
 
+/**
+ * Circle reported a transaction as FAILED, CANCELLED or DENIED
+ *
+ * Only this error means the transfer will not land; timeouts and API errors
+ * from waitForCircleTransaction leave the outcome unknown.
+ */
+export class CircleTransactionFailedError extends Error {
+  constructor(message: string, readonly state: string) {
+    super(message);
+    this.name = 'CircleTransactionFailedError';
+  }
+}
+
 /**
  * Poll for Circle transaction completion
  */
@@ -269,13 +293,13 @@ export async function waitForCircleTransaction(
         return { txHash: tx.txHash, state: tx.state };
 
       case 'FAILED':
-        throw new Error(`Transaction failed: ${tx.errorReason || 'Unknown error'}`);
+        throw new CircleTransactionFailedError(`Transaction failed: ${tx.errorReason || 'Unknown error'}`, tx.state);
 
       case 'CANCELLED':
-        throw new Error('Transaction was cancelled');
+        throw new CircleTransactionFailedError('Transaction was cancelled', tx.state);
 
       case 'DENIED':
-        throw new Error('Transaction was denied');
+        throw new CircleTransactionFailedError('Transaction was denied', tx.state);
 
       default:
         // Still processing (INITIATED, QUEUED, SENT, CONFIRMED) - keep polling
@@ -286,6 +310,53 @@ export async function waitForCircleTransaction(
   throw new Error(`Transaction ${transactionId} timed out after ${maxAttempts} attempts`);
 }
 
+// Circle transactions with a watcher in this process
+declare global {
+  var watchedCircleTransactions: Set<string> | undefined;
+}
+
+const MAX_WATCH_BACKOFF_MS = 60 * 1000;
+
+/**
+ * Follow a Circle transaction until it is final, in the background
+ *
+ * Timeouts and API errors never count as failure, since the transfer may
+ * still land: polling resumes with a growing pause (up to a minute).
+ * `onFailed` runs only when Circle reports FAILED, CANCELLED or DENIED.
+ * A transaction already watched in this process is not watched twice.
+ */
+export function watchCircleTransaction(
+  transactionId: string,
+  handlers: {
+    onComplete: (txHash: string) => void;
+    onFailed: (error: CircleTransactionFailedError) => void;
+  }
+) {
+  const watched = globalThis.watchedCircleTransactions || new Set<string>();
+  globalThis.watchedCircleTransactions = watched;
+  if (watched.has(transactionId)) return;
+  watched.add(transactionId);
+
+  const poll = async () => {
+    let backoffMs = 5000;
+    for (;;) {
+      try {
+        const { txHash } = await waitForCircleTransaction(transactionId);
+        return handlers.onComplete(txHash);
+      } catch (error) {
+        if (error instanceof CircleTransactionFailedError) return handlers.onFailed(error);
+        console.warn(`Circle tx ${transactionId} not final yet, polling again in ${backoffMs / 1000}s:`, error);
+        await new Promise(resolve => setTimeout(resolve, backoffMs));
+        backoffMs = Math.min(MAX_WATCH_BACKOFF_MS, backoffMs * 2);
+      }
+    }
+  };
+
+  poll()
+    .catch(error => console.error(`Watching Circle tx ${transactionId} failed:`, error))
+    .finally(() => watched.delete(transactionId));
+}
+
 /**
  * Execute a smart contract function via Circle wallet
  * Used by the facilitator to submit settlement transactions
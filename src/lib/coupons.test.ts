@@ -0,0 +1,115 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { couponInputSchema, createCoupon, getCouponRedemptions, quoteCoupon } from './coupons';
+import { getLedger, LedgerEntry } from './ledger';
+import { MIN_PRICE } from './pricing';
+
+const PAYER = '0x2222222222222222222222222222222222222222';
+const OTHER_PAYER = '0x3333333333333333333333333333333333333333';
+const NOW = new Date('2026-03-15T12:00:00Z');
+
+const article = { slug: 'arc-blockchain-guide', tags: ['arc'] };
+
+function coupon(input: Record<string, unknown>) {
+  return createCoupon(couponInputSchema.parse({ code: 'LAUNCH', discount: { type: 'percent', percent: 20 }, ...input }));
+}
+
+function redemption(id: string, overrides: Partial<LedgerEntry> = {}): LedgerEntry {
+  return {
+    id,
+    slug: 'arc-blockchain-guide',
+    title: 'Arc guide',
+    amount: 0.008,
+    payer: PAYER,
+    txHash: '0xabc',
+    network: 'eip155:5042002',
+    asset: '0x3600000000000000000000000000000000000000',
+    state: 'settled',
+    timestamp: NOW.getTime(),
+    coupon: { code: 'LAUNCH', discount: 0.002 },
+    ...overrides,
+  };
+}
+
+let dataDir: string;
+
+beforeEach(() => {
+  dataDir = mkdtempSync(join(tmpdir(), 'arc-coupons-'));
+  process.env.ARC_MERCHANT_DATA_DIR = dataDir;
+  process.env.LEDGER_BACKEND = 'memory';
+  globalThis.ledgerStore = undefined;
+});
+
+afterEach(() => {
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe('quoteCoupon', () => {
+  it('applies a percent discount to a code in any case', () => {
+    coupon({});
+
+    expect(quoteCoupon('launch', article, 0.01, null, NOW)).toEqual({
+      code: 'LAUNCH', status: 'applied', discount: 0.002, price: 0.008,
+    });
+  });
+
+  it('never discounts a fixed amount below the smallest stablecoin unit', () => {
+    coupon({ discount: { type: 'fixed', amount: 0.05 } });
+
+    expect(quoteCoupon('LAUNCH', article, 0.01, null, NOW)).toMatchObject({ price: MIN_PRICE, discount: 0.009999 });
+  });
+
+  it('reports codes that do not exist, are disabled, not started yet or expired', () => {
+    expect(quoteCoupon('NOPE', article, 0.01, null, NOW).status).toBe('unknown');
+
+    coupon({ code: 'OFF', enabled: false });
+    coupon({ code: 'SOON', startsAt: '2026-04-01T00:00:00Z' });
+    coupon({ code: 'OVER', expiresAt: '2026-03-15T12:00:00Z' });
+
+    expect(quoteCoupon('OFF', article, 0.01, null, NOW).status).toBe('inactive');
+    expect(quoteCoupon('SOON', article, 0.01, null, NOW).status).toBe('inactive');
+    expect(quoteCoupon('OVER', article, 0.01, null, NOW).status).toBe('expired');
+  });
+
+  it('only applies to the slug or tag it is restricted to', () => {
+    coupon({ code: 'ARC', tag: 'arc' });
+    coupon({ code: 'X402', slug: 'x402-micropayments' });
+
+    expect(quoteCoupon('ARC', article, 0.01, null, NOW).status).toBe('applied');
+    expect(quoteCoupon('X402', article, 0.01, null, NOW).status).toBe('not-applicable');
+  });
+
+  it('is exhausted once its redemptions reach the cap, counting a bundle once', () => {
+    coupon({ maxRedemptions: 2 });
+    getLedger().insert(redemption('bundle-1', { purchaseId: 'purchase-1' }));
+    getLedger().insert(redemption('bundle-2', { purchaseId: 'purchase-1' }));
+    getLedger().insert(redemption('payment-1', { state: 'failed' }));
+    expect(quoteCoupon('LAUNCH', article, 0.01, null, NOW).status).toBe('applied');
+
+    getLedger().insert(redemption('payment-2', { payer: OTHER_PAYER }));
+    expect(quoteCoupon('LAUNCH', article, 0.01, null, NOW).status).toBe('exhausted');
+  });
+
+  it('holds each payer to the per-payer cap, and ignores it without a payer', () => {
+    coupon({ maxRedemptionsPerPayer: 1 });
+    getLedger().insert(redemption('payment-1', { payer: '0xAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA' }));
+
+    expect(quoteCoupon('LAUNCH', article, 0.01, '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa', NOW).status).toBe('exhausted');
+    expect(quoteCoupon('LAUNCH', article, 0.01, OTHER_PAYER, NOW).status).toBe('applied');
+    expect(quoteCoupon('LAUNCH', article, 0.01, null, NOW).status).toBe('applied');
+  });
+});
+
+describe('getCouponRedemptions', () => {
+  it('totals redemptions and discounts per code from the ledger', () => {
+    getLedger().insert(redemption('bundle-1', { purchaseId: 'purchase-1' }));
+    getLedger().insert(redemption('bundle-2', { purchaseId: 'purchase-1' }));
+    getLedger().insert(redemption('payment-1', { coupon: { code: 'LAUNCH', discount: 0.001 } }));
+    getLedger().insert(redemption('payment-2', { state: 'failed' }));
+    getLedger().insert(redemption('payment-3', { coupon: undefined }));
+
+    expect(getCouponRedemptions()).toEqual({ LAUNCH: { redemptions: 2, discountTotal: 0.003 } });
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Promo codes and coupons
+ *
+ * Merchants create coupons through /api/admin/coupons; buyers present a code
+ * in the `x-coupon-code` header or the `?coupon=` query param. The paywall
+ * quotes the discounted price in the x402 `accepts` block (after pricing
+ * rules) and records the coupon on the ledger entries of the purchase.
+ *
+ * Redemption counts come from the ledger, so there is no separate counter
+ * to drift. Caps are checked when quoting; a handful of payments racing for
+ * the last redemption can overshoot a cap slightly.
+ *
+ * Per-payer caps key off the signed payment's `from` address, like
+ * payer-dependent pricing rules (see ./pricing). A quote without a payer
+ * ignores them; the paid retry is checked and re-quoted at full price when
+ * the payer already used up the coupon.
+ */
+
+import { z } from 'zod';
+import type { NextRequest } from 'next/server';
+import { getLedger, LedgerEntry } from './ledger';
+import { MIN_PRICE } from './pricing';
+import { readJsonFile, writeJsonFile } from './storage';
+
+export const COUPON_HEADER = 'x-coupon-code';
+export const COUPON_QUERY_PARAM = 'coupon';
+export const COUPON_STATUS_HEADER = 'x-coupon-status';
+
+const COUPONS_FILE = 'coupons.json';
+
+const couponFields = z.object({
+  code: z.string().trim().toUpperCase().regex(/^[A-Z0-9][A-Z0-9_-]{2,31}$/, 'Code must be 3-32 letters, digits, - or _'),
+  description: z.string(),
+  discount: z.discriminatedUnion('type', [
+    z.object({ type: z.literal('percent'), percent: z.number().gt(0).max(100) }),
+    z.object({ type: z.literal('fixed'), amount: z.number().positive() }), // in the item's currency
+  ]),
+  // Restrict to one slug and/or tag (all content when both are omitted)
+  slug: z.string().min(1).optional(),
+  tag: z.string().min(1).optional(),
+  startsAt: z.iso.datetime({ offset: true }).optional(),
+  expiresAt: z.iso.datetime({ offset: true }).optional(),
+  maxRedemptions: z.number().int().positive().optional(),
+  maxRedemptionsPerPayer: z.number().int().positive().optional(),
+  enabled: z.boolean(),
+});
+
+export const couponInputSchema = couponFields.extend({
+  description: couponFields.shape.description.default(''),
+  enabled: couponFields.shape.enabled.default(true),
+});
+
+// No defaults here: omitted fields must stay untouched on update
+export const couponUpdateSchema = couponFields.omit({ code: true }).partial();
+
+export type CouponInput = z.infer<typeof couponInputSchema>;
+export type CouponUpdate = z.infer<typeof couponUpdateSchema>;
+
+export interface Coupon extends CouponInput {
+  createdAt: string;
+}
+
+export type CouponStatus = 'applied' | 'unknown' | 'inactive' | 'expired' | 'exhausted' | 'not-applicable';
+
+// Outcome of presenting a code for an item, reported in the `x-coupon-status` header
+export type CouponQuote =
+  | { code: string; status: 'applied'; discount: number; price: number }
+  | { code: string; status: Exclude<CouponStatus, 'applied'> };
+
+export interface CouponRedemptions {
+  redemptions: number;
+  discountTotal: number;
+}
+
+// What a coupon can be applied to
+export interface CouponItem {
+  slug: string;
+  tags?: string[];
+}
+
+function loadCoupons(): Coupon[] {
+  return readJsonFile<Coupon[]>(COUPONS_FILE, []);
+}
+
+function saveCoupons(list: Coupon[]) {
+  writeJsonFile(COUPONS_FILE, list);
+}
+
+function normalizeCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Get all coupons
+ */
+export function getCoupons(): Coupon[] {
+  return loadCoupons();
+}
+
+/**
+ * Get a coupon by code (case-insensitive)
+ */
+export function getCoupon(code: string): Coupon | undefined {
+  const normalized = normalizeCode(code);
+  return loadCoupons().find(c => c.code === normalized);
+}
+
+/**
+ * Create a new coupon
+ */
+export function createCoupon(input: CouponInput): Coupon {
+  const list = loadCoupons();
+  if (list.some(c => c.code === input.code)) {
+    throw new Error(`Coupon already exists: ${input.code}`);
+  }
+
+  const coupon: Coupon = { ...input, createdAt: new Date().toISOString() };
+  saveCoupons([...list, coupon]);
+  return coupon;
+}
+
+/**
+ * Update an existing coupon
+ *
+ * Returns null if no coupon has the given code.
+ */
+export function updateCoupon(code: string, update: CouponUpdate): Coupon | null {
+  const list = loadCoupons();
+  const normalized = normalizeCode(code);
+  const index = list.findIndex(c => c.code === normalized);
+  if (index === -1) return null;
+
+  const coupon: Coupon = { ...list[index], ...update, code: normalized };
+  list[index] = coupon;
+  saveCoupons(list);
+  return coupon;
+}
+
+/**
+ * Delete a coupon
+ *
+ * Ledger entries keep the code, so past redemptions stay attributed.
+ */
+export function removeCoupon(code: string): boolean {
+  const list = loadCoupons();
+  const normalized = normalizeCode(code);
+  const next = list.filter(c => c.code !== normalized);
+  if (next.length === list.length) return false;
+
+  saveCoupons(next);
+  return true;
+}
+
+/**
+ * The coupon code presented by a request, if any
+ */
+export function getCouponCode(req: NextRequest): string | null {
+  const code = req.headers.get(COUPON_HEADER) || req.nextUrl.searchParams.get(COUPON_QUERY_PARAM);
+  return code ? normalizeCode(code) : null;
+}
+
+function redemptionEntries(code: string, payer?: string): LedgerEntry[] {
+  return getLedger().list().filter(entry =>
+    entry.coupon?.code === code &&
+    entry.state !== 'failed' &&
+    (!payer || entry.payer.toLowerCase() === payer.toLowerCase())
+  );
+}
+
+// A bundle is one redemption even though it has an entry per article
+function countPurchases(entries: LedgerEntry[]): number {
+  return new Set(entries.map(entry => entry.purchaseId || entry.id)).size;
+}
+
+/**
+ * Redemption count and total discount granted, per coupon code
+ */
+export function getCouponRedemptions(): Record<string, CouponRedemptions> {
+  const byCode: Record<string, CouponRedemptions> = {};
+  const seen = new Set<string>();
+
+  for (const entry of getLedger().list()) {
+    if (!entry.coupon || entry.state === 'failed') continue;
+    const purchase = entry.purchaseId || entry.id;
+    if (seen.has(purchase)) continue;
+    seen.add(purchase);
+
+    const totals = byCode[entry.coupon.code] || { redemptions: 0, discountTotal: 0 };
+    byCode[entry.coupon.code] = totals;
+    totals.redemptions += 1;
+    totals.discountTotal = Math.round((totals.discountTotal + entry.coupon.discount) * 1_000_000) / 1_000_000;
+  }
+  return byCode;
+}
+
+/**
+ * Apply a coupon code to an item's price
+ *
+ * `price` is the price after pricing rules, in the item's currency.
+ */
+export function quoteCoupon(
+  code: string,
+  item: CouponItem,
+  price: number,
+  payer: string | null = null,
+  now = new Date()
+): CouponQuote {
+  const coupon = getCoupon(code);
+  if (!coupon) return { code, status: 'unknown' };
+  if (!coupon.enabled || (coupon.startsAt && now < new Date(coupon.startsAt))) {
+    return { code: coupon.code, status: 'inactive' };
+  }
+  if (coupon.expiresAt && now >= new Date(coupon.expiresAt)) {
+    return { code: coupon.code, status: 'expired' };
+  }
+  if ((coupon.slug && coupon.slug !== item.slug) || (coupon.tag && !item.tags?.includes(coupon.tag))) {
+    return { code: coupon.code, status: 'not-applicable' };
+  }
+  if (coupon.maxRedemptions && countPurchases(redemptionEntries(coupon.code)) >= coupon.maxRedemptions) {
+    return { code: coupon.code, status: 'exhausted' };
+  }
+  if (
+    payer && coupon.maxRedemptionsPerPayer &&
+    countPurchases(redemptionEntries(coupon.code, payer)) >= coupon.maxRedemptionsPerPayer
+  ) {
+    return { code: coupon.code, status: 'exhausted' };
+  }
+
+  const discounted = coupon.discount.type === 'percent'
+    ? price * (1 - coupon.discount.percent / 100)
+    : price - coupon.discount.amount;
+  // x402 needs a non-zero amount; round like pricing so challenge and retry agree
+  const finalPrice = Math.max(MIN_PRICE, Math.round(discounted * 1_000_000) / 1_000_000);
+
+  return {
+    code: coupon.code,
+    status: 'applied',
+    discount: Math.round((price - finalPrice) * 1_000_000) / 1_000_000,
+    price: finalPrice,
+  };
+}
@@ -0,0 +1,131 @@
+/**
+ * Stablecoins and FX for multi-currency paywalls
+ *
+ * Resources are priced in USD or EUR and can be paid in USDC or EURC on Arc.
+ * When the payment asset differs from the price currency the amount is
+ * converted through the active FX provider. The default provider uses static
+ * rates so the paywall works offline; plug in a live source with
+ * setFxProvider().
+ */
+
+import { ARC_CONTRACTS } from './arc';
+
+export type Currency = 'USD' | 'EUR';
+
+export const CURRENCIES: readonly Currency[] = ['USD', 'EUR'];
+
+export interface Stablecoin {
+  symbol: 'USDC' | 'EURC';
+  currency: Currency;
+  address: `0x${string}`;
+  decimals: number;
+  // EIP-712 domain used for EIP-3009 transferWithAuthorization
+  eip712: { name: string; version: string };
+}
+
+export const STABLECOINS: Record<Currency, Stablecoin> = {
+  USD: {
+    symbol: 'USDC',
+    currency: 'USD',
+    address: ARC_CONTRACTS.USDC,
+    decimals: ARC_CONTRACTS.USDC_DECIMALS,
+    eip712: { name: 'USDC', version: '2' },
+  },
+  EUR: {
+    symbol: 'EURC',
+    currency: 'EUR',
+    address: ARC_CONTRACTS.EURC,
+    decimals: ARC_CONTRACTS.EURC_DECIMALS,
+    eip712: { name: 'EURC', version: '2' },
+  },
+};
+
+/**
+ * Look up a stablecoin by contract address
+ */
+export function getStablecoinByAddress(address: string): Stablecoin | undefined {
+  return Object.values(STABLECOINS).find(
+    coin => coin.address.toLowerCase() === address.toLowerCase()
+  );
+}
+
+/**
+ * Display symbol for an asset address (falls back to the address)
+ */
+export function assetSymbol(address: string): string {
+  return getStablecoinByAddress(address)?.symbol || address;
+}
+
+/**
+ * Convert a decimal amount to the token's smallest unit
+ */
+export function toTokenUnits(amount: number, coin: Stablecoin): string {
+  return Math.round(amount * 10 ** coin.decimals).toString();
+}
+
+/**
+ * Convert a token amount in smallest units back to a decimal amount
+ */
+export function fromTokenUnits(amount: string | bigint, coin: Stablecoin): number {
+  return Number(amount) / 10 ** coin.decimals;
+}
+
+export interface FxProvider {
+  /** Units of `to` per one unit of `from` */
+  getRate(from: Currency, to: Currency): Promise<number>;
+}
+
+/**
+ * FX provider with fixed rates
+ *
+ * Configure with FX_EUR_USD (USD per EUR, default 1.08).
+ */
+export class StaticFxProvider implements FxProvider {
+  constructor(private readonly eurUsd = parseFloat(process.env.FX_EUR_USD || '1.08')) {}
+
+  async getRate(from: Currency, to: Currency): Promise<number> {
+    if (from === to) return 1;
+    return from === 'EUR' ? this.eurUsd : 1 / this.eurUsd;
+  }
+}
+
+// Extend globalThis to keep the configured provider across Next.js hot reloads
+declare global {
+  var fxProvider: FxProvider | undefined;
+}
+
+/**
+ * Get the active FX provider
+ */
+export function getFxProvider(): FxProvider {
+  if (!globalThis.fxProvider) {
+    globalThis.fxProvider = new StaticFxProvider();
+  }
+  return globalThis.fxProvider;
+}
+
+/**
+ * Replace the FX provider (e.g. with a live rate feed)
+ */
+export function setFxProvider(provider: FxProvider) {
+  globalThis.fxProvider = provider;
+}
+
+/**
+ * Convert an amount between currencies with the active FX provider
+ */
+export async function convertAmount(amount: number, from: Currency, to: Currency): Promise<number> {
+  if (from === to) return amount;
+  const rate = await getFxProvider().getRate(from, to);
+  return amount * rate;
+}
+
+/**
+ * Stablecoins accepted as payment, from ACCEPTED_STABLECOINS (default: USDC,EURC)
+ */
+export function getAcceptedStablecoins(): Stablecoin[] {
+  const symbols = (process.env.ACCEPTED_STABLECOINS || 'USDC,EURC')
+    .split(',')
+    .map(s => s.trim().toUpperCase());
+  return Object.values(STABLECOINS).filter(coin => symbols.includes(coin.symbol));
+}
@@ -0,0 +1,69 @@
+/**
+ * Live dashboard events
+ *
+ * Process-local pub/sub for things the dashboard shows: payments being
+ * recorded, settled or failing, refunds changing state, the merchant balance moving
+ * and stats being reset. /api/stats/stream forwards these to browsers as
+ * server-sent events.
+ *
+ * Events are not persisted; a client that reconnects starts from a fresh
+ * stats snapshot instead of replaying what it missed.
+ */
+
+import { EventEmitter } from 'events';
+
+export type DashboardEventType =
+  | 'payment.recorded'
+  | 'payment.settled'
+  | 'payment.failed'
+  | 'refund.updated'
+  | 'balance.updated'
+  | 'stats.reset';
+
+export interface DashboardEvent {
+  type: DashboardEventType;
+  data: Record<string, unknown>;
+  at: number;
+}
+
+export type DashboardListener = (event: DashboardEvent) => void;
+
+// Extend globalThis to share one bus across Next.js hot reloads
+declare global {
+  var dashboardEvents: EventEmitter | undefined;
+}
+
+function getBus(): EventEmitter {
+  if (!globalThis.dashboardEvents) {
+    globalThis.dashboardEvents = new EventEmitter();
+    // One listener per open dashboard tab
+    globalThis.dashboardEvents.setMaxListeners(0);
+  }
+  return globalThis.dashboardEvents;
+}
+
+/**
+ * Publish a dashboard event to every subscriber
+ *
+ * Listener errors are logged and never reach the publisher.
+ */
+export function publishDashboardEvent(type: DashboardEventType, data: Record<string, unknown> = {}) {
+  const event: DashboardEvent = { type, data, at: Date.now() };
+  for (const listener of getBus().listeners('event') as DashboardListener[]) {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error(`Dashboard listener failed on ${type}:`, error);
+    }
+  }
+}
+
+/**
+ * Subscribe to dashboard events; returns the unsubscribe function
+ */
+export function subscribeDashboardEvents(listener: DashboardListener): () => void {
+  getBus().on('event', listener);
+  return () => {
+    getBus().off('event', listener);
+  };
+}
@@ -0,0 +1,230 @@
+/**
+ * Payment ledger
+ *
+ * Durable record of every payment taken by the paywall. Storage sits behind
+ * the LedgerStore interface so other backends (SQLite, Postgres, ...) can be
+ * added later without touching the stats or route code.
+ *
+ * Backends:
+ * - file (default): append-only JSONL log under the data directory
+ * - memory: process-local, lost on restart (useful for local experiments)
+ *
+ * Select with LEDGER_BACKEND=file|memory. The file name can be overridden
+ * with LEDGER_FILE (relative to ARC_MERCHANT_DATA_DIR).
+ */
+
+import { appendFileSync, existsSync, readFileSync } from 'fs';
+import { randomUUID } from 'crypto';
+import { dataFilePath } from './storage';
+
+export type SettlementState = 'pending' | 'settled' | 'failed';
+
+export type ReconciliationStatus = 'matched' | 'mismatch' | 'orphaned' | 'review';
+
+// Outcome of checking an entry against on-chain transfers (see ./reconcile)
+export interface Reconciliation {
+  status: ReconciliationStatus;
+  checkedAt: number;
+  blockNumber?: number;
+  detail?: string;
+}
+
+export type RefundState = 'pending' | 'completed' | 'failed';
+
+export interface Refund {
+  id: string;
+  amount: number; // in units of the payment's asset
+  reason?: string;
+  txHash: string | null;
+  circleTransactionId?: string;
+  state: RefundState;
+  error?: string;
+  createdAt: number;
+  completedAt?: number;
+}
+
+// Coupon redeemed on a purchase (see ./coupons)
+export interface AppliedCoupon {
+  code: string;
+  discount: number; // off the price, in the item's currency, for the whole purchase
+}
+
+export interface LedgerEntry {
+  id: string;
+  slug: string;
+  title: string;
+  amount: number; // in token units (e.g. 0.01 USDC)
+  payer: string;
+  txHash: string | null;
+  network: string;
+  asset: string;
+  state: SettlementState;
+  timestamp: number;
+  // EIP-3009 authorization nonce of the x402 payment
+  nonce?: string;
+  // Facilitator settlement ticket while settlement is queued (SETTLEMENT_MODE=async)
+  settlementTicket?: string;
+  settlementError?: string; // why a queued settlement failed
+  settlementTicketLost?: number; // when the facilitator no longer knew the ticket; left to reconciliation
+  // Set when one payment is split across several entries (e.g. a bundle)
+  purchaseId?: string;
+  bundleSlug?: string;
+  merchantId?: string;
+  // Merchant-initiated refunds against this payment
+  refunds?: Refund[];
+  reconciliation?: Reconciliation;
+  coupon?: AppliedCoupon;
+}
+
+export type LedgerEntryPatch = Partial<Omit<LedgerEntry, 'id'>>;
+
+export interface LedgerStore {
+  /** Add a new entry */
+  insert(entry: LedgerEntry): void;
+  /** Patch an existing entry, returns the updated entry or null if missing */
+  update(id: string, patch: LedgerEntryPatch): LedgerEntry | null;
+  /** All entries, newest first */
+  list(): LedgerEntry[];
+  /** Remove every entry */
+  clear(): void;
+}
+
+/**
+ * Amount refunded or being refunded for an entry (failed refunds excluded)
+ */
+export function getRefundedAmount(entry: LedgerEntry): number {
+  return (entry.refunds || [])
+    .filter(r => r.state !== 'failed')
+    .reduce((sum, r) => sum + r.amount, 0);
+}
+
+/**
+ * Create a ledger entry ID
+ */
+export function createLedgerId(): string {
+  return randomUUID();
+}
+
+/**
+ * Process-local ledger store
+ */
+export class MemoryLedgerStore implements LedgerStore {
+  protected entries: LedgerEntry[] = [];
+
+  insert(entry: LedgerEntry): void {
+    this.entries.unshift({ ...entry });
+  }
+
+  update(id: string, patch: LedgerEntryPatch): LedgerEntry | null {
+    const entry = this.entries.find(e => e.id === id);
+    if (!entry) return null;
+    Object.assign(entry, patch);
+    return { ...entry };
+  }
+
+  list(): LedgerEntry[] {
+    return this.entries.map(e => ({ ...e }));
+  }
+
+  clear(): void {
+    this.entries = [];
+  }
+}
+
+type LedgerOperation =
+  | { op: 'insert'; entry: LedgerEntry }
+  | { op: 'update'; id: string; patch: LedgerEntryPatch }
+  | { op: 'clear' };
+
+/**
+ * Append-only JSONL ledger store
+ *
+ * Every mutation is appended as one line; the file is replayed on startup.
+ * Nothing is ever rewritten in place, so a crash mid-write can at most
+ * lose the last (partial) line.
+ */
+export class FileLedgerStore extends MemoryLedgerStore {
+  constructor(private readonly path: string) {
+    super();
+    this.replay();
+  }
+
+  private replay() {
+    if (!existsSync(this.path)) return;
+
+    const lines = readFileSync(this.path, 'utf8').split('\n');
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        this.apply(JSON.parse(line) as LedgerOperation);
+      } catch {
+        console.warn(`Skipping corrupt ledger line in ${this.path}`);
+      }
+    }
+  }
+
+  private apply(operation: LedgerOperation) {
+    switch (operation.op) {
+      case 'insert':
+        super.insert(operation.entry);
+        break;
+      case 'update':
+        super.update(operation.id, operation.patch);
+        break;
+      case 'clear':
+        super.clear();
+        break;
+    }
+  }
+
+  private append(operation: LedgerOperation) {
+    appendFileSync(this.path, JSON.stringify(operation) + '\n');
+  }
+
+  insert(entry: LedgerEntry): void {
+    this.append({ op: 'insert', entry });
+    super.insert(entry);
+  }
+
+  update(id: string, patch: LedgerEntryPatch): LedgerEntry | null {
+    if (!this.entries.some(e => e.id === id)) return null;
+    this.append({ op: 'update', id, patch });
+    return super.update(id, patch);
+  }
+
+  clear(): void {
+    this.append({ op: 'clear' });
+    super.clear();
+  }
+}
+
+/**
+ * Create the ledger store selected by environment
+ */
+export function createLedgerStore(): LedgerStore {
+  const backend = process.env.LEDGER_BACKEND || 'file';
+
+  switch (backend) {
+    case 'memory':
+      return new MemoryLedgerStore();
+    case 'file':
+      return new FileLedgerStore(dataFilePath(process.env.LEDGER_FILE || 'ledger.jsonl'));
+    default:
+      throw new Error(`Unknown LEDGER_BACKEND: ${backend} (expected "file" or "memory")`);
+  }
+}
+
+// Extend globalThis to keep a single store across Next.js hot reloads
+declare global {
+  var ledgerStore: LedgerStore | undefined;
+}
+
+/**
+ * Get the shared ledger store
+ */
+export function getLedger(): LedgerStore {
+  if (!globalThis.ledgerStore) {
+    globalThis.ledgerStore = createLedgerStore();
+  }
+  return globalThis.ledgerStore;
+}
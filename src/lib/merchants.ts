@@ -0,0 +1,151 @@
+/**
+ * Merchant registry
+ *
+ * Explicit mapping from merchant ID to the Circle wallet that holds its
+ * funds and the address x402 payments are paid to. Paywalled resources
+ * reference a merchant by ID (`merchantId`); resources without one belong to
+ * the default merchant.
+ *
+ * On first use the registry is seeded from MERCHANT_WALLET_ID and
+ * MERCHANT_PAYOUT_ADDRESS (plus optional MERCHANT_NAME) when set. There is
+ * deliberately no fallback to "some wallet in the Circle account": an
+ * unconfigured registry fails loudly instead of misrouting revenue.
+ */
+
+import { z } from 'zod';
+import { readJsonFile, writeJsonFile } from './storage';
+
+const MERCHANTS_FILE = 'merchants.json';
+
+const merchantFields = z.object({
+  id: z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'ID must be lowercase kebab-case'),
+  name: z.string().min(1),
+  walletId: z.string().min(1), // Circle wallet holding the merchant's funds (balance, refunds)
+  payoutAddress: z.string().regex(/^0x[0-9a-fA-F]{40}$/, 'Payout address must be a 0x address'),
+  default: z.boolean(),
+});
+
+export const merchantInputSchema = merchantFields.extend({
+  // Defaults to the Circle wallet's own address
+  payoutAddress: merchantFields.shape.payoutAddress.optional(),
+  default: merchantFields.shape.default.default(false),
+});
+
+// No defaults here: omitted fields must stay untouched on update
+export const merchantUpdateSchema = merchantFields.omit({ id: true }).partial();
+
+// Reference from a resource to a registered merchant
+export const merchantIdSchema = z.string().refine(id => !!getMerchant(id), 'Unknown merchant');
+
+export type Merchant = z.infer<typeof merchantFields> & { payoutAddress: `0x${string}` };
+export type MerchantInput = z.infer<typeof merchantInputSchema>;
+export type MerchantUpdate = z.infer<typeof merchantUpdateSchema>;
+
+function seedMerchants(): Merchant[] {
+  const walletId = process.env.MERCHANT_WALLET_ID;
+  const payoutAddress = process.env.MERCHANT_PAYOUT_ADDRESS;
+  if (!walletId || !payoutAddress) return [];
+
+  return [{
+    id: 'default',
+    name: process.env.MERCHANT_NAME || 'Arc Merchant',
+    walletId,
+    payoutAddress: payoutAddress as `0x${string}`,
+    default: true,
+  }];
+}
+
+function loadMerchants(): Merchant[] {
+  return readJsonFile<Merchant[]>(MERCHANTS_FILE, seedMerchants());
+}
+
+// Exactly one merchant is the default; `preferred` wins when given
+function saveMerchants(list: Merchant[], preferred?: string) {
+  const defaultId = preferred || list.find(m => m.default)?.id || list[0]?.id;
+  writeJsonFile(MERCHANTS_FILE, list.map(m => ({ ...m, default: m.id === defaultId })));
+}
+
+/**
+ * Get all registered merchants
+ */
+export function getMerchants(): Merchant[] {
+  return loadMerchants();
+}
+
+/**
+ * Get a merchant by ID
+ */
+export function getMerchant(id: string): Merchant | undefined {
+  return loadMerchants().find(m => m.id === id);
+}
+
+/**
+ * Resolve the merchant for a resource
+ *
+ * Uses the default merchant when no ID is given. Throws if the merchant
+ * is unknown or no merchant is configured at all.
+ */
+export function resolveMerchant(merchantId?: string): Merchant {
+  const list = loadMerchants();
+  const merchant = merchantId
+    ? list.find(m => m.id === merchantId)
+    : list.find(m => m.default) || list[0];
+
+  if (!merchant) {
+    throw new Error(
+      merchantId
+        ? `Unknown merchant: ${merchantId}`
+        : 'No merchant configured. Set MERCHANT_WALLET_ID and MERCHANT_PAYOUT_ADDRESS, or register one via /api/admin/merchants.'
+    );
+  }
+  return merchant;
+}
+
+/**
+ * Register a merchant
+ *
+ * The payout address must be resolved by the caller (see merchantInputSchema).
+ */
+export function createMerchant(input: MerchantInput & { payoutAddress: `0x${string}` }): Merchant {
+  const list = loadMerchants();
+  if (list.some(m => m.id === input.id)) {
+    throw new Error(`Merchant already exists: ${input.id}`);
+  }
+
+  const merchant: Merchant = { ...input };
+  saveMerchants([...list, merchant], input.default ? input.id : undefined);
+  return getMerchant(input.id)!;
+}
+
+/**
+ * Update a merchant
+ *
+ * Returns null if no merchant has the given ID.
+ */
+export function updateMerchant(id: string, update: MerchantUpdate): Merchant | null {
+  const list = loadMerchants();
+  const index = list.findIndex(m => m.id === id);
+  if (index === -1) return null;
+
+  list[index] = { ...list[index], ...update, id } as Merchant;
+  saveMerchants(list, update.default ? id : undefined);
+  return getMerchant(id)!;
+}
+
+/**
+ * Remove a merchant
+ *
+ * The default merchant can only be removed when it is the last one;
+ * make another merchant the default first.
+ */
+export function removeMerchant(id: string): boolean {
+  const list = loadMerchants();
+  const merchant = list.find(m => m.id === id);
+  if (!merchant) return false;
+  if (merchant.default && list.length > 1) {
+    throw new Error('Cannot remove the default merchant; set another default first');
+  }
+
+  saveMerchants(list.filter(m => m.id !== id));
+  return true;
+}
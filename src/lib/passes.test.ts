@@ -0,0 +1,139 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { NextRequest } from 'next/server';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  confirmPasses,
+  DEFAULT_PASS_PRODUCTS,
+  findCoveringPass,
+  grantPass,
+  issuePassToken,
+  listPasses,
+  PASS_HEADER,
+  revokePasses,
+} from './passes';
+import { issueAccessReceipt, signToken, verifyAccessReceipt } from './receipts';
+
+const PAYER = '0x2222222222222222222222222222222222222222';
+const [DAY_PASS] = DEFAULT_PASS_PRODUCTS;
+
+function requestWith(token: string): NextRequest {
+  return new NextRequest('http://localhost/api/article/arc-blockchain-guide', {
+    headers: { [PASS_HEADER]: token },
+  });
+}
+
+function inOneHour(): number {
+  return Math.floor(Date.now() / 1000) + 60 * 60;
+}
+
+let dataDir: string;
+
+beforeEach(() => {
+  dataDir = mkdtempSync(join(tmpdir(), 'arc-passes-'));
+  process.env.ARC_MERCHANT_DATA_DIR = dataDir;
+  process.env.RECEIPT_SECRET = 'test-secret';
+});
+
+afterEach(() => {
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe('findCoveringPass', () => {
+  it('accepts a pass token for a payer holding a pass', () => {
+    const pass = grantPass(DAY_PASS, PAYER, '0xabc');
+
+    expect(findCoveringPass(requestWith(issuePassToken(PAYER)), { tags: ['arc'] })).toEqual(pass);
+  });
+
+  it('rejects a pass token once the payer has no current pass', () => {
+    expect(findCoveringPass(requestWith(issuePassToken(PAYER)), { tags: ['arc'] })).toBeNull();
+  });
+
+  it('rejects an access receipt presented as a pass token', () => {
+    grantPass(DAY_PASS, PAYER, '0xabc');
+    const receipt = issueAccessReceipt({ payer: PAYER, slug: 'arc-blockchain-guide', txHash: '0xabc' });
+
+    expect(findCoveringPass(requestWith(receipt), { tags: ['arc'] })).toBeNull();
+  });
+
+  it('rejects a session token presented as a pass token', () => {
+    grantPass(DAY_PASS, PAYER, '0xabc');
+    const session = signToken({ typ: 'session', sub: PAYER, payer: PAYER, exp: inOneHour() });
+
+    expect(findCoveringPass(requestWith(session), { tags: ['arc'] })).toBeNull();
+  });
+
+  it('rejects a pass token without a string payer', () => {
+    grantPass(DAY_PASS, PAYER, '0xabc');
+    const empty = signToken({ typ: 'pass', payer: '', exp: inOneHour() });
+    const notAString = signToken({ typ: 'pass', payer: { toLowerCase: PAYER }, exp: inOneHour() });
+
+    expect(findCoveringPass(requestWith(empty), { tags: ['arc'] })).toBeNull();
+    expect(findCoveringPass(requestWith(notAString), { tags: ['arc'] })).toBeNull();
+  });
+
+  it('rejects a tampered pass token', () => {
+    grantPass(DAY_PASS, PAYER, '0xabc');
+    const [, signature] = issuePassToken(PAYER).split('.');
+    const payload = Buffer.from(JSON.stringify({ typ: 'pass', payer: PAYER, exp: inOneHour() + 1 })).toString('base64url');
+
+    expect(findCoveringPass(requestWith(`${payload}.${signature}`), { tags: ['arc'] })).toBeNull();
+  });
+
+  it('only covers resources carrying the pass tag', () => {
+    grantPass({ ...DAY_PASS, id: 'arc-pass', tag: 'arc' }, PAYER, '0xabc');
+    const token = issuePassToken(PAYER);
+
+    expect(findCoveringPass(requestWith(token), { tags: ['arc'] })).not.toBeNull();
+    expect(findCoveringPass(requestWith(token), { tags: ['x402'] })).toBeNull();
+    expect(findCoveringPass(requestWith(token), {})).toBeNull();
+  });
+});
+
+describe('revokePasses', () => {
+  it('stops a pass covering once its queued settlement fails', () => {
+    grantPass(DAY_PASS, PAYER, null, 'ticket-1');
+    const other = grantPass({ ...DAY_PASS, id: 'arc-pass', tag: 'arc' }, PAYER, null, 'ticket-2');
+
+    expect(revokePasses('ticket-1', 'insufficient_funds')).toMatchObject([{ revokedReason: 'insufficient_funds' }]);
+    expect(findCoveringPass(requestWith(issuePassToken(PAYER)), { tags: ['arc'] })).toEqual(other);
+    expect(listPasses(PAYER)).toHaveLength(2);
+  });
+
+  it('does not extend a new pass from a revoked one', () => {
+    const revoked = grantPass(DAY_PASS, PAYER, null, 'ticket-1');
+    revokePasses('ticket-1', 'settlement_ticket_lost');
+
+    const pass = grantPass(DAY_PASS, PAYER, '0xabc');
+    expect(pass.startsAt).toBeLessThan(revoked.expiresAt);
+  });
+
+  it('reinstates a revoked pass whose payment is confirmed later', () => {
+    grantPass(DAY_PASS, PAYER, null, 'ticket-1');
+    revokePasses('ticket-1', 'settlement_ticket_lost');
+
+    confirmPasses('ticket-1', '0xabc');
+
+    expect(findCoveringPass(requestWith(issuePassToken(PAYER)), { tags: ['arc'] })).toMatchObject({
+      txHash: '0xabc',
+      settlementTicket: 'ticket-1',
+    });
+    expect(listPasses(PAYER)[0].revokedAt).toBeUndefined();
+  });
+});
+
+describe('verifyAccessReceipt', () => {
+  it('rejects a pass token presented as a receipt', () => {
+    grantPass(DAY_PASS, PAYER, '0xabc');
+
+    expect(verifyAccessReceipt(issuePassToken(PAYER), 'arc-blockchain-guide')).toBeNull();
+  });
+
+  it('accepts receipts issued before tokens had a kind', () => {
+    const legacy = signToken({ payer: PAYER, slug: 'arc-blockchain-guide', txHash: null, exp: inOneHour() } as never);
+
+    expect(verifyAccessReceipt(legacy, 'arc-blockchain-guide')).toMatchObject({ typ: 'receipt', payer: PAYER });
+  });
+});
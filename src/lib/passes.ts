@@ -0,0 +1,218 @@
+/**
+ * Time-based access passes
+ *
+ * A pass is bought once through /api/pass/:productId and grants access for
+ * a fixed period to every article (and /api/premium), or only to articles
+ * with a given tag. Passes are recorded against the payer address; the buyer
+ * gets a signed pass token (header or cookie) that proves they are that payer
+ * on later requests. Buying the same product again extends the current pass.
+ *
+ * A pass paid with a queued settlement (async mode, see ./settlement-tickets)
+ * is granted right away but carries its settlement ticket: it is revoked if
+ * the settlement fails or the facilitator loses the ticket, and reinstated if
+ * the payment is later confirmed (e.g. by reconciliation).
+ */
+
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import type { NextRequest, NextResponse } from 'next/server';
+import { signToken, verifyToken } from './receipts';
+import { readJsonFile, writeJsonFile } from './storage';
+
+export const PASS_HEADER = 'x-access-pass';
+export const PASS_COOKIE = 'arc_pass';
+
+const PASS_PRODUCTS_FILE = 'pass-products.json';
+const PASSES_FILE = 'passes.json';
+
+export const passProductSchema = z.object({
+  id: z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'ID must be lowercase kebab-case'),
+  title: z.string().min(1),
+  durationHours: z.number().positive(),
+  priceUsd: z.number().positive(),
+  tag: z.string().optional(), // restrict to articles with this tag
+  active: z.boolean().default(true),
+  merchantId: z.string().optional(), // defaults to the default merchant
+});
+
+export const passProductsSchema = z.array(passProductSchema);
+
+export type PassProduct = z.infer<typeof passProductSchema>;
+
+export const DEFAULT_PASS_PRODUCTS: PassProduct[] = [
+  { id: 'day-pass', title: '24-hour all-access pass', durationHours: 24, priceUsd: 0.1, active: true },
+  { id: 'week-pass', title: '7-day all-access pass', durationHours: 7 * 24, priceUsd: 0.5, active: true },
+  { id: 'month-pass', title: '30-day all-access pass', durationHours: 30 * 24, priceUsd: 1.5, active: true },
+];
+
+export interface Pass {
+  id: string;
+  productId: string;
+  payer: string;
+  tag: string | null;
+  txHash: string | null;
+  settlementTicket?: string; // facilitator ticket while the payment is queued
+  startsAt: number;
+  expiresAt: number;
+  revokedAt?: number; // the payment did not (or may not have) settled
+  revokedReason?: string;
+}
+
+// Identifies the payer; the passes themselves are looked up in the store
+interface PassToken {
+  typ: 'pass';
+  payer: string;
+  exp: number; // unix seconds
+}
+
+function loadPasses(): Pass[] {
+  return readJsonFile<Pass[]>(PASSES_FILE, []);
+}
+
+// Passes that still grant access (revoked ones are kept on record)
+function activePasses(payer: string): Pass[] {
+  return listPasses(payer).filter(p => !p.revokedAt);
+}
+
+/**
+ * Get the pass products on sale
+ */
+export function getPassProducts(options: { includeInactive?: boolean } = {}): PassProduct[] {
+  const products = passProductsSchema.parse(readJsonFile<unknown>(PASS_PRODUCTS_FILE, DEFAULT_PASS_PRODUCTS));
+  return options.includeInactive ? products : products.filter(p => p.active);
+}
+
+/**
+ * Get an active pass product by ID
+ */
+export function getPassProduct(id: string): PassProduct | undefined {
+  return getPassProducts().find(p => p.id === id);
+}
+
+/**
+ * Replace all pass products
+ */
+export function setPassProducts(products: PassProduct[]) {
+  writeJsonFile(PASS_PRODUCTS_FILE, products);
+}
+
+/**
+ * List passes held by a payer (all passes when no payer is given)
+ */
+export function listPasses(payer?: string): Pass[] {
+  const passes = loadPasses();
+  return payer ? passes.filter(p => p.payer.toLowerCase() === payer.toLowerCase()) : passes;
+}
+
+/**
+ * Record a purchased pass
+ *
+ * If the payer already holds an unexpired pass for the same product the new
+ * period starts when that one ends. Pass the settlement ticket when the
+ * payment is still queued.
+ */
+export function grantPass(product: PassProduct, payer: string, txHash: string | null, settlementTicket?: string | null): Pass {
+  const passes = loadPasses();
+  const now = Date.now();
+  const latestExpiry = activePasses(payer)
+    .filter(p => p.productId === product.id)
+    .reduce((latest, p) => Math.max(latest, p.expiresAt), now);
+
+  const pass: Pass = {
+    id: randomUUID(),
+    productId: product.id,
+    payer,
+    tag: product.tag || null,
+    txHash,
+    ...(settlementTicket && { settlementTicket }),
+    startsAt: latestExpiry,
+    expiresAt: latestExpiry + product.durationHours * 60 * 60 * 1000,
+  };
+
+  writeJsonFile(PASSES_FILE, [...passes, pass]);
+  return pass;
+}
+
+/**
+ * Revoke the passes paid with a queued settlement that failed or was lost
+ *
+ * Returns the passes revoked.
+ */
+export function revokePasses(settlementTicket: string, reason: string): Pass[] {
+  const now = Date.now();
+  const revoked: Pass[] = [];
+  const passes = loadPasses().map(pass => {
+    if (pass.settlementTicket !== settlementTicket || pass.revokedAt) return pass;
+    const updated = { ...pass, revokedAt: now, revokedReason: reason };
+    revoked.push(updated);
+    return updated;
+  });
+
+  if (revoked.length) writeJsonFile(PASSES_FILE, passes);
+  return revoked;
+}
+
+/**
+ * Confirm the passes paid with a queued settlement once it is known to have
+ * landed, reinstating them if they were revoked
+ */
+export function confirmPasses(settlementTicket: string, txHash: string | null) {
+  let changed = false;
+  const passes = loadPasses().map(pass => {
+    if (pass.settlementTicket !== settlementTicket) return pass;
+    changed = true;
+    const confirmed: Pass = { ...pass, txHash: txHash || pass.txHash };
+    delete confirmed.revokedAt;
+    delete confirmed.revokedReason;
+    return confirmed;
+  });
+
+  if (changed) writeJsonFile(PASSES_FILE, passes);
+}
+
+/**
+ * Issue the token that proves ownership of a payer's passes
+ *
+ * Valid until the payer's last pass expires.
+ */
+export function issuePassToken(payer: string): string {
+  const expiresAt = activePasses(payer).reduce((latest, p) => Math.max(latest, p.expiresAt), Date.now());
+  return signToken<PassToken>({ typ: 'pass', payer, exp: Math.floor(expiresAt / 1000) });
+}
+
+/**
+ * Attach a pass token to a response as header and site-wide cookie
+ */
+export function attachPassToken(response: NextResponse, token: string) {
+  const claims = verifyToken<PassToken>(token, 'pass');
+
+  response.headers.set(PASS_HEADER, token);
+  response.cookies.set(PASS_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    ...(claims && { expires: new Date(claims.exp * 1000) }),
+  });
+}
+
+/**
+ * Find a pass on the request that covers a resource right now
+ *
+ * Resources without tags (e.g. /api/premium) are only covered by
+ * all-access passes. Only pass tokens count: receipts and sessions are
+ * signed with the same key but are not proof of holding a pass.
+ */
+export function findCoveringPass(req: NextRequest, resource: { tags?: string[] }): Pass | null {
+  const token = req.headers.get(PASS_HEADER) || req.cookies.get(PASS_COOKIE)?.value;
+  const claims = token ? verifyToken<PassToken>(token, 'pass') : null;
+  // An empty payer would match every pass (see listPasses)
+  if (!claims || typeof claims.payer !== 'string' || !claims.payer) return null;
+
+  const now = Date.now();
+  return activePasses(claims.payer).find(pass =>
+    now >= pass.startsAt &&
+    now < pass.expiresAt &&
+    (!pass.tag || !!resource.tags?.includes(pass.tag))
+  ) || null;
+}
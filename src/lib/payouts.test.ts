@@ -0,0 +1,170 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CircleTransactionFailedError, transferToken, watchCircleTransaction } from './circle-wallet';
+import type { LedgerEntry } from './ledger';
+import { accruePayoutShares, listPayouts, listPayoutShares, resumeSendingPayouts, runPayouts } from './payouts';
+
+// The real module needs Circle credentials at import time
+vi.mock('./circle-wallet', () => ({
+  CircleTransactionFailedError: class extends Error {},
+  getMerchantWallet: vi.fn(async () => ({ id: 'merchant-wallet', address: '0x1111111111111111111111111111111111111111' })),
+  transferToken: vi.fn(async () => ({ id: 'circle-tx' })),
+  watchCircleTransaction: vi.fn(),
+}));
+
+vi.mock('./articles', () => ({
+  getArticleBySlug: () => ({
+    slug: 'arc-blockchain-guide',
+    splits: [{ recipient: 'Author', address: '0x4444444444444444444444444444444444444444', percent: 70 }],
+  }),
+}));
+
+function entry(overrides: Partial<LedgerEntry> = {}): LedgerEntry {
+  return {
+    id: 'payment-1',
+    slug: 'arc-blockchain-guide',
+    title: 'Arc guide',
+    amount: 1,
+    payer: '0x2222222222222222222222222222222222222222',
+    txHash: '0xabc',
+    network: 'eip155:5042002',
+    asset: '0x3600000000000000000000000000000000000000',
+    state: 'settled',
+    timestamp: Date.now(),
+    ...overrides,
+  };
+}
+
+// Handlers passed to the latest watchCircleTransaction call
+function watchHandlers() {
+  const calls = vi.mocked(watchCircleTransaction).mock.calls;
+  return calls[calls.length - 1][1];
+}
+
+let dataDir: string;
+
+beforeEach(() => {
+  dataDir = mkdtempSync(join(tmpdir(), 'arc-payouts-'));
+  process.env.ARC_MERCHANT_DATA_DIR = dataDir;
+  delete process.env.PAYOUT_MODE;
+  delete process.env.PAYOUT_MIN_AMOUNT;
+  globalThis.submittingPayouts = undefined;
+  vi.clearAllMocks();
+});
+
+afterEach(() => {
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe('accruePayoutShares', () => {
+  it('accrues each split of a settled payment once', () => {
+    expect(accruePayoutShares(entry())).toMatchObject([{ amount: 0.7, state: 'accrued' }]);
+    expect(accruePayoutShares(entry())).toEqual([]);
+  });
+
+  it('accrues nothing for a pending payment', () => {
+    expect(accruePayoutShares(entry({ state: 'pending', txHash: null }))).toEqual([]);
+  });
+});
+
+describe('runPayouts', () => {
+  it('keeps the payout sending and its shares claimed until Circle reports it final', async () => {
+    accruePayoutShares(entry());
+
+    const [payout] = await runPayouts();
+    expect(listPayouts()).toMatchObject([{ id: payout.id, state: 'sending', circleTransactionId: 'circle-tx' }]);
+    expect(listPayoutShares()).toMatchObject([{ state: 'processing', payoutId: payout.id }]);
+
+    // Nothing new to pay while the transfer is in flight
+    expect(await runPayouts()).toEqual([]);
+    expect(transferToken).toHaveBeenCalledTimes(1);
+  });
+
+  it('marks the payout and its shares paid once Circle confirms the transfer', async () => {
+    accruePayoutShares(entry());
+    await runPayouts();
+
+    watchHandlers().onComplete('0xpayout');
+
+    expect(listPayouts()).toMatchObject([{ state: 'paid', txHash: '0xpayout' }]);
+    expect(listPayoutShares()).toMatchObject([{ state: 'paid' }]);
+  });
+
+  it('returns the shares to the pool when Circle reports the transfer failed', async () => {
+    accruePayoutShares(entry());
+    await runPayouts();
+
+    watchHandlers().onFailed(new CircleTransactionFailedError('Transaction failed: out of gas', 'FAILED'));
+
+    expect(listPayouts()).toMatchObject([{ state: 'failed', error: 'Transaction failed: out of gas' }]);
+    const [share] = listPayoutShares();
+    expect(share.state).toBe('accrued');
+    expect(share.payoutId).toBeUndefined();
+
+    // The next batch pays them again
+    expect(await runPayouts()).toMatchObject([{ amount: 0.7, state: 'sending' }]);
+  });
+
+  it('returns the shares to the pool when the transfer cannot be submitted', async () => {
+    vi.mocked(transferToken).mockRejectedValueOnce(new Error('Circle unavailable'));
+    accruePayoutShares(entry());
+
+    await runPayouts();
+
+    expect(listPayouts()).toMatchObject([{ state: 'failed', error: 'Circle unavailable' }]);
+    expect(listPayoutShares()).toMatchObject([{ state: 'accrued' }]);
+    expect(watchCircleTransaction).not.toHaveBeenCalled();
+  });
+
+  it('skips recipients below the minimum payout', async () => {
+    process.env.PAYOUT_MIN_AMOUNT = '1';
+    accruePayoutShares(entry());
+
+    expect(await runPayouts()).toEqual([]);
+    expect(listPayoutShares()).toMatchObject([{ state: 'accrued' }]);
+  });
+});
+
+describe('resumeSendingPayouts', () => {
+  it('watches payouts still sending again', async () => {
+    accruePayoutShares(entry());
+    await runPayouts();
+    vi.mocked(watchCircleTransaction).mockClear();
+
+    resumeSendingPayouts();
+
+    expect(watchCircleTransaction).toHaveBeenCalledWith('circle-tx', expect.anything());
+  });
+
+  it('submits a payout saved before its transfer reached Circle', async () => {
+    accruePayoutShares(entry());
+    // The process stops while the transfer is being submitted
+    vi.mocked(transferToken).mockReturnValueOnce(new Promise(() => {}));
+    runPayouts();
+    await vi.waitFor(() => expect(transferToken).toHaveBeenCalledTimes(1));
+    const [claimed] = listPayouts();
+    expect(claimed).toMatchObject({ state: 'sending' });
+    expect(claimed.circleTransactionId).toBeUndefined();
+    globalThis.submittingPayouts = undefined;
+
+    resumeSendingPayouts();
+    await vi.waitFor(() => expect(watchCircleTransaction).toHaveBeenCalledWith('circle-tx', expect.anything()));
+
+    // Same idempotency key, so Circle cannot create a second transfer
+    expect(vi.mocked(transferToken).mock.calls.map(call => call[4])).toEqual([claimed.id, claimed.id]);
+    expect(listPayouts()).toMatchObject([{ id: claimed.id, state: 'sending', circleTransactionId: 'circle-tx' }]);
+  });
+
+  it('leaves a payout alone while this process is submitting it', async () => {
+    accruePayoutShares(entry());
+    vi.mocked(transferToken).mockReturnValueOnce(new Promise(() => {}));
+    runPayouts();
+    await vi.waitFor(() => expect(transferToken).toHaveBeenCalledTimes(1));
+
+    resumeSendingPayouts();
+
+    expect(transferToken).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,363 @@
+/**
+ * Revenue split payouts
+ *
+ * Articles can carry split rules (e.g. 70% author, 20% editor, 10% platform),
+ * each pointing to an address. When a payment for such an article settles,
+ * every recipient accrues a share in the payout ledger; payouts then move
+ * the shares from the merchant's Circle wallet to the recipients, in the
+ * stablecoin the buyer paid with. Whatever is not split stays with the
+ * merchant.
+ *
+ * Modes (PAYOUT_MODE):
+ * - batch (default): accrued shares are paid out per recipient when a batch
+ *   runs, every PAYOUT_INTERVAL_MINUTES (when set) or via POST /api/admin/payouts
+ * - immediate: shares are sent as soon as the payment settles
+ *
+ * Recipients whose accrued balance is below PAYOUT_MIN_AMOUNT are skipped
+ * until it grows. A payout stays `sending` until Circle reports its transfer
+ * final: timeouts and API errors only mean the outcome is unknown, so its
+ * Circle transaction keeps being polled (after a restart, from the next batch
+ * or admin listing). A payout saved before its transfer was submitted is
+ * submitted again from there, under its own ID as the Circle idempotency key. Only a transfer Circle reports FAILED, CANCELLED or
+ * DENIED (or one that could not be submitted) returns its shares to the
+ * accrued pool for the next batch. Refunds do not claw back shares already
+ * accrued.
+ */
+
+import { randomUUID } from 'crypto';
+import { getArticleBySlug } from './articles';
+import { getMerchantWallet, transferToken, watchCircleTransaction } from './circle-wallet';
+import { assetSymbol, getStablecoinByAddress, STABLECOINS } from './currency';
+import { LedgerEntry } from './ledger';
+import { readJsonFile, writeJsonFile } from './storage';
+
+const SHARES_FILE = 'payout-shares.json';
+const PAYOUTS_FILE = 'payouts.json';
+
+export type PayoutMode = 'batch' | 'immediate';
+
+export type PayoutShareState = 'accrued' | 'processing' | 'paid';
+
+export interface PayoutShare {
+  id: string;
+  entryId: string; // ledger entry the share was earned on
+  slug: string;
+  merchantId?: string;
+  recipient: string;
+  address: string;
+  percent: number;
+  amount: number; // in units of `asset`
+  asset: string;
+  state: PayoutShareState;
+  payoutId?: string;
+  createdAt: number;
+}
+
+export type PayoutState = 'sending' | 'paid' | 'failed';
+
+export interface Payout {
+  id: string;
+  merchantId?: string;
+  recipient: string;
+  address: string;
+  asset: string;
+  amount: number;
+  shareIds: string[];
+  state: PayoutState;
+  txHash: string | null;
+  circleTransactionId?: string;
+  error?: string;
+  createdAt: number;
+  completedAt?: number;
+}
+
+export interface RecipientBalance {
+  address: string;
+  recipient: string;
+  assetSymbol: string;
+  accrued: number; // earned, not yet paid (includes payouts in flight)
+  paid: number;
+}
+
+function loadShares(): PayoutShare[] {
+  return readJsonFile<PayoutShare[]>(SHARES_FILE, []);
+}
+
+function saveShares(shares: PayoutShare[]) {
+  writeJsonFile(SHARES_FILE, shares);
+}
+
+function loadPayouts(): Payout[] {
+  return readJsonFile<Payout[]>(PAYOUTS_FILE, []);
+}
+
+function savePayouts(payouts: Payout[]) {
+  writeJsonFile(PAYOUTS_FILE, payouts);
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 1_000_000) / 1_000_000;
+}
+
+/**
+ * Payout mode from PAYOUT_MODE (default: batch)
+ */
+export function getPayoutMode(): PayoutMode {
+  return process.env.PAYOUT_MODE === 'immediate' ? 'immediate' : 'batch';
+}
+
+function getMinPayoutAmount(): number {
+  return parseFloat(process.env.PAYOUT_MIN_AMOUNT || '0');
+}
+
+// Scheduled batches start once per process
+declare global {
+  var payoutScheduler: ReturnType<typeof setInterval> | undefined;
+}
+
+/**
+ * Start scheduled payout batches if PAYOUT_INTERVAL_MINUTES is set
+ */
+export function ensurePayoutScheduler() {
+  const minutes = parseFloat(process.env.PAYOUT_INTERVAL_MINUTES || '0');
+  if (globalThis.payoutScheduler || getPayoutMode() !== 'batch' || !(minutes > 0)) return;
+
+  globalThis.payoutScheduler = setInterval(() => {
+    runPayouts().catch(error => console.error('Scheduled payout batch failed:', error));
+  }, minutes * 60 * 1000);
+}
+
+/**
+ * Accrue split shares for a settled payment
+ *
+ * No-op for payments that are not settled, have no split rules or were
+ * already accrued. In immediate mode the shares are sent right away.
+ */
+export function accruePayoutShares(entry: LedgerEntry): PayoutShare[] {
+  if (entry.state !== 'settled') return [];
+
+  const shares = loadShares();
+  if (shares.some(s => s.entryId === entry.id)) return [];
+
+  const article = getArticleBySlug(entry.slug, { includeUnpublished: true });
+  if (!article?.splits?.length) return [];
+
+  const now = Date.now();
+  const accrued: PayoutShare[] = article.splits
+    .map(split => ({
+      id: randomUUID(),
+      entryId: entry.id,
+      slug: entry.slug,
+      ...(entry.merchantId && { merchantId: entry.merchantId }),
+      recipient: split.recipient,
+      address: split.address,
+      percent: split.percent,
+      amount: roundAmount(entry.amount * split.percent / 100),
+      asset: entry.asset,
+      state: 'accrued' as const,
+      createdAt: now,
+    }))
+    .filter(share => share.amount > 0);
+
+  saveShares([...shares, ...accrued]);
+  ensurePayoutScheduler();
+
+  if (getPayoutMode() === 'immediate') {
+    runPayouts({ entryId: entry.id }).catch(error =>
+      console.error(`Immediate payout for ${entry.id} failed:`, error)
+    );
+  }
+
+  return accrued;
+}
+
+function patchPayout(id: string, patch: Partial<Payout>) {
+  savePayouts(loadPayouts().map(p => p.id === id ? { ...p, ...patch } : p));
+}
+
+function settleShares(payoutId: string, state: 'paid' | 'accrued') {
+  saveShares(loadShares().map(s => {
+    if (s.payoutId !== payoutId) return s;
+    // Failed shares go back to the pool for the next batch
+    return state === 'paid' ? { ...s, state } : { ...s, state, payoutId: undefined };
+  }));
+}
+
+function failPayout(payout: Payout, message: string) {
+  patchPayout(payout.id, { state: 'failed', error: message, completedAt: Date.now() });
+  settleShares(payout.id, 'accrued');
+  console.error(`💸 Payout ${payout.id} to ${payout.address} failed: ${message}`);
+}
+
+// Settle a submitted payout once Circle reports its transfer final
+function confirmPayout(payout: Payout, transactionId: string) {
+  watchCircleTransaction(transactionId, {
+    onComplete: txHash => {
+      patchPayout(payout.id, { state: 'paid', txHash, completedAt: Date.now() });
+      settleShares(payout.id, 'paid');
+      console.log(`💸 Payout ${payout.id} paid: ${txHash}`);
+    },
+    onFailed: error => failPayout(payout, error.message),
+  });
+}
+
+// Payouts with a transfer being submitted in this process
+declare global {
+  var submittingPayouts: Set<string> | undefined;
+}
+
+function getSubmittingPayouts(): Set<string> {
+  if (!globalThis.submittingPayouts) globalThis.submittingPayouts = new Set();
+  return globalThis.submittingPayouts;
+}
+
+/**
+ * Resume payouts still `sending` (e.g. after a restart)
+ *
+ * Submitted ones are polled again. One claimed but never submitted (the
+ * process stopped in between) is submitted now: the payout ID is its Circle
+ * idempotency key, so a transfer that did reach Circle is not sent twice.
+ */
+export function resumeSendingPayouts() {
+  const submitting = getSubmittingPayouts();
+  for (const payout of loadPayouts()) {
+    if (payout.state !== 'sending') continue;
+    if (payout.circleTransactionId) {
+      confirmPayout(payout, payout.circleTransactionId);
+    } else if (!submitting.has(payout.id)) {
+      submitting.add(payout.id);
+      sendPayout(payout).catch(error => console.error(`Resumed payout ${payout.id} failed:`, error));
+    }
+  }
+}
+
+// Submit a claimed payout; callers mark it as submitting first
+async function sendPayout(payout: Payout) {
+  const coin = getStablecoinByAddress(payout.asset) || STABLECOINS.USD;
+
+  try {
+    const wallet = await getMerchantWallet(payout.merchantId);
+    const transaction = await transferToken(
+      wallet.address,
+      payout.address,
+      payout.amount.toFixed(coin.decimals),
+      coin.address,
+      payout.id
+    );
+    if (!transaction?.id) {
+      throw new Error('Circle did not return a transaction ID');
+    }
+
+    const transactionId = transaction.id;
+    patchPayout(payout.id, { circleTransactionId: transactionId });
+    console.log(`💸 Payout ${payout.id}: ${payout.amount} ${coin.symbol} to ${payout.recipient} (${payout.address})`);
+
+    confirmPayout(payout, transactionId);
+  } catch (error) {
+    // Not submitted: nothing can land, so the shares go back to the pool
+    failPayout(payout, error instanceof Error ? error.message : String(error));
+  } finally {
+    getSubmittingPayouts().delete(payout.id);
+  }
+}
+
+/**
+ * Pay out accrued shares, one transfer per recipient, merchant and asset
+ *
+ * Returns the payouts that were started; they move to `paid` or `failed`
+ * once Circle reports the transfer final.
+ */
+export async function runPayouts(filter: { entryId?: string } = {}): Promise<Payout[]> {
+  resumeSendingPayouts();
+
+  const shares = loadShares();
+  const due = shares.filter(s => s.state === 'accrued' && (!filter.entryId || s.entryId === filter.entryId));
+
+  const groups = new Map<string, PayoutShare[]>();
+  for (const share of due) {
+    const key = [share.merchantId || '', share.address.toLowerCase(), share.asset.toLowerCase()].join('|');
+    groups.set(key, [...(groups.get(key) || []), share]);
+  }
+
+  // Claim the shares before any await so overlapping runs cannot pay them twice
+  const now = Date.now();
+  const minAmount = getMinPayoutAmount();
+  const payouts: Payout[] = [];
+  for (const group of groups.values()) {
+    const amount = roundAmount(group.reduce((sum, s) => sum + s.amount, 0));
+    if (amount < minAmount) continue;
+
+    const payout: Payout = {
+      id: randomUUID(),
+      ...(group[0].merchantId && { merchantId: group[0].merchantId }),
+      recipient: group[0].recipient,
+      address: group[0].address,
+      asset: group[0].asset,
+      amount,
+      shareIds: group.map(s => s.id),
+      state: 'sending',
+      txHash: null,
+      createdAt: now,
+    };
+    payouts.push(payout);
+    for (const share of group) {
+      share.state = 'processing';
+      share.payoutId = payout.id;
+    }
+  }
+
+  if (payouts.length === 0) return [];
+  const submitting = getSubmittingPayouts();
+  for (const payout of payouts) submitting.add(payout.id);
+  saveShares(shares);
+  savePayouts([...loadPayouts(), ...payouts]);
+
+  for (const payout of payouts) {
+    await sendPayout(payout);
+  }
+  return payouts;
+}
+
+/**
+ * List payout shares, optionally for one recipient address
+ */
+export function listPayoutShares(address?: string): PayoutShare[] {
+  const shares = loadShares();
+  return address ? shares.filter(s => s.address.toLowerCase() === address.toLowerCase()) : shares;
+}
+
+/**
+ * List payouts (newest first), optionally for one recipient address
+ */
+export function listPayouts(address?: string): Payout[] {
+  const payouts = loadPayouts().reverse();
+  return address ? payouts.filter(p => p.address.toLowerCase() === address.toLowerCase()) : payouts;
+}
+
+/**
+ * Accrued and paid totals per recipient address and stablecoin
+ */
+export function getRecipientBalances(): RecipientBalance[] {
+  const balances = new Map<string, RecipientBalance>();
+
+  for (const share of loadShares()) {
+    const symbol = assetSymbol(share.asset);
+    const key = `${share.address.toLowerCase()}|${symbol}`;
+    const balance = balances.get(key) || {
+      address: share.address,
+      recipient: share.recipient,
+      assetSymbol: symbol,
+      accrued: 0,
+      paid: 0,
+    };
+
+    if (share.state === 'paid') {
+      balance.paid = roundAmount(balance.paid + share.amount);
+    } else {
+      balance.accrued = roundAmount(balance.accrued + share.amount);
+    }
+    balances.set(key, balance);
+  }
+
+  return Array.from(balances.values());
+}
@@ -0,0 +1,208 @@
+/**
+ * Declarative x402 paywall for route handlers
+ *
+ * Wraps a handler with everything a paid endpoint needs, so a new endpoint
+ * cannot silently skip accounting:
+ * - access receipts and passes are honored before asking for payment
+ * - x402 requirements come from PaywallOptions (pricing rules, coupons, FX, merchant payTo)
+ * - every 402 challenge is recorded as an impression for conversion analytics
+ * - payer, amount, nonce and network come from the facilitator's verify and
+ *   settle results, never from the unverified `payment-signature` header
+ * - settled payments are recorded in the ledger and accrue revenue splits;
+ *   queued ones (SETTLEMENT_MODE=async) are recorded as pending and resolved
+ *   by ./settlement-tickets
+ * - a receipt is issued so the buyer can come back without paying again
+ *
+ * Webhooks are emitted by the shared resource server's hooks (see ./x402),
+ * which every paywall goes through.
+ *
+ * Usage:
+ *   export const GET = paywall(handler, {
+ *     slug: 'daily-report',
+ *     path: '/api/daily-report',
+ *     description: 'Daily market report',
+ *     price: 0.05,
+ *   });
+ */
+
+import { withX402 } from '@x402/next';
+import { NextRequest, NextResponse } from 'next/server';
+import { recordImpression } from './analytics';
+import { COUPON_STATUS_HEADER, getCouponCode } from './coupons';
+import { fromTokenUnits, getStablecoinByAddress, Stablecoin, STABLECOINS } from './currency';
+import type { AppliedCoupon, LedgerEntry } from './ledger';
+import { findCoveringPass, Pass } from './passes';
+import { accruePayoutShares } from './payouts';
+import { getPricingPayer } from './pricing';
+import { ensureReconciliationScheduler } from './reconcile';
+import { AccessReceipt, attachReceipt, getReceiptToken, issueAccessReceipt, verifyAccessReceipt } from './receipts';
+import { buildResource, PaywalledResource, PaywallOptions } from './resources';
+import { ensureSettlementTicketPoller } from './settlement-tickets';
+import { recordPayment } from './stats';
+import { getVerifiedPayment, server, VerifiedPayment, withPaymentContext } from './x402';
+
+// How the caller got access; the payer is always a verified address
+export type PaywallAccess =
+  | { via: 'payment'; payer: string; payment: VerifiedPayment }
+  | { via: 'receipt'; payer: string; receipt: AccessReceipt }
+  | { via: 'pass'; payer: string; pass: Pass };
+
+export type PaywallHandler = (req: NextRequest, access: PaywallAccess) => Promise<NextResponse>;
+
+// A payment that went through verification and settlement
+export interface PaidRequest {
+  payer: string;
+  nonce: string | null; // EIP-3009 authorization nonce
+  txHash: string | null; // null while settlement is queued
+  settlementTicket: string | null; // facilitator ticket of a queued settlement
+  amount: number; // in units of `coin`
+  coin: Stablecoin;
+  network: string;
+}
+
+export interface PaywallHooks {
+  /** Issue and honor access receipts (default: true) */
+  receipts?: boolean;
+  /** Serve holders of a covering pass without payment (default: true) */
+  passes?: boolean;
+  /** Record the payment; defaults to one ledger entry for the resource */
+  record?: (payment: PaidRequest, resource: PaywalledResource) => LedgerEntry[];
+  /** Replace the paid response, e.g. with data that depends on the settlement */
+  onPaid?: (
+    payment: PaidRequest,
+    response: NextResponse,
+    entries: LedgerEntry[]
+  ) => NextResponse | Promise<NextResponse>;
+}
+
+/**
+ * The coupon to record for a paid resource, if one was applied to its price
+ */
+export function appliedCoupon(resource: PaywalledResource): AppliedCoupon | undefined {
+  return resource.coupon?.status === 'applied'
+    ? { code: resource.coupon.code, discount: resource.coupon.discount }
+    : undefined;
+}
+
+/**
+ * Default accounting: one ledger entry for the resource, plus split accrual
+ */
+export function recordPaidRequest(payment: PaidRequest, resource: PaywalledResource): LedgerEntry[] {
+  const coupon = appliedCoupon(resource);
+  const entry = recordPayment({
+    slug: resource.slug,
+    amount: payment.amount,
+    txHash: payment.txHash,
+    payer: payment.payer,
+    timestamp: Date.now(),
+    ...(payment.nonce && { nonce: payment.nonce }),
+    ...(payment.settlementTicket && { settlementTicket: payment.settlementTicket }),
+    network: payment.network,
+    asset: payment.coin.address,
+    merchantId: resource.merchantId,
+    ...(coupon && { coupon }),
+  }, resource.title);
+
+  // Credit collaborators on the resource's revenue splits
+  accruePayoutShares(entry);
+  return [entry];
+}
+
+/**
+ * Serve a request for a resolved resource through the paywall
+ *
+ * Use this directly when the resource depends on route params; otherwise
+ * prefer paywall().
+ */
+export async function servePaywalled(
+  req: NextRequest,
+  resource: PaywalledResource,
+  handler: PaywallHandler,
+  hooks: PaywallHooks = {}
+): Promise<NextResponse> {
+  const receipts = hooks.receipts !== false;
+
+  // Already paid: a valid receipt skips payment and the facilitator entirely
+  if (receipts) {
+    const token = getReceiptToken(req, resource.slug);
+    const receipt = token ? verifyAccessReceipt(token, resource.slug) : null;
+    if (receipt) {
+      const response = await handler(req, { via: 'receipt', payer: receipt.payer, receipt });
+      response.headers.set('x-access-receipt-payer', receipt.payer);
+      return response;
+    }
+  }
+
+  // Pass holders are served before falling back to per-request payment
+  if (hooks.passes !== false) {
+    const pass = findCoveringPass(req, { tags: resource.tags });
+    if (pass) {
+      const response = await handler(req, { via: 'pass', payer: pass.payer, pass });
+      response.headers.set('x-access-pass-id', pass.id);
+      return response;
+    }
+  }
+
+  // The handler only runs once the facilitator verified the payment
+  const paidHandler = async (request: NextRequest) => {
+    const verified = getVerifiedPayment();
+    if (!verified) {
+      return NextResponse.json({ error: 'Payment verification result unavailable' }, { status: 500 });
+    }
+    return handler(request, { via: 'payment', payer: verified.payer, payment: verified });
+  };
+
+  const { result: response, payment: context } = await withPaymentContext(
+    () => withX402(paidHandler, resource.routeConfig, server)(req),
+    resource.slug,
+    resource.merchantId
+  );
+  if (resource.coupon) {
+    response.headers.set(COUPON_STATUS_HEADER, resource.coupon.status);
+  }
+  if (response.status === 402) {
+    recordImpression(resource, req.headers);
+  }
+  const settled = context.settled;
+  if (response.status !== 200 || !settled) {
+    return response;
+  }
+
+  // Record what the facilitator verified and settled, in the stablecoin actually used
+  const coin = getStablecoinByAddress(settled.asset) || STABLECOINS.USD;
+  const payment: PaidRequest = {
+    payer: settled.payer,
+    nonce: settled.nonce,
+    txHash: settled.txHash,
+    settlementTicket: settled.ticketId,
+    amount: fromTokenUnits(settled.amount, coin),
+    coin,
+    network: settled.network,
+  };
+  const entries = (hooks.record || recordPaidRequest)(payment, resource);
+  ensureReconciliationScheduler();
+  if (payment.settlementTicket) ensureSettlementTicketPoller();
+
+  // Let the buyer come back without paying again until the receipt expires
+  if (receipts) {
+    const token = issueAccessReceipt({ payer: payment.payer, slug: resource.slug, txHash: payment.txHash });
+    attachReceipt(response, token, resource.slug, resource.path);
+  }
+
+  return hooks.onPaid ? hooks.onPaid(payment, response, entries) : response;
+}
+
+/**
+ * Protect a route handler with an x402 paywall
+ *
+ * The price is re-quoted on every request so pricing rules apply.
+ */
+export function paywall(
+  handler: PaywallHandler,
+  options: PaywallOptions & PaywallHooks
+): (req: NextRequest) => Promise<NextResponse> {
+  return async (req: NextRequest) => {
+    const resource = await buildResource(options, getPricingPayer(req.headers), getCouponCode(req));
+    return servePaywalled(req, resource, handler, options);
+  };
+}
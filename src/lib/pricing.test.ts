@@ -0,0 +1,141 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { getLedger, LedgerEntry } from './ledger';
+import { getPricingRules, MIN_PRICE, pricingRulesSchema, quotePrice, setPricingRules } from './pricing';
+import { writeJsonFile } from './storage';
+
+const PAYER = '0x2222222222222222222222222222222222222222';
+const NOW = new Date('2026-03-15T12:00:00Z');
+
+const article = { slug: 'arc-blockchain-guide', basePrice: 0.1, tags: ['arc'], publishedAt: '2026-03-01T00:00:00Z' };
+
+function rules(input: unknown[]) {
+  setPricingRules(pricingRulesSchema.parse(input));
+}
+
+function purchase(id: string, overrides: Partial<LedgerEntry> = {}): LedgerEntry {
+  return {
+    id,
+    slug: 'x402-guide',
+    title: 'x402 guide',
+    amount: 0.01,
+    payer: PAYER,
+    txHash: '0xabc',
+    network: 'eip155:5042002',
+    asset: '0x3600000000000000000000000000000000000000',
+    state: 'settled',
+    timestamp: NOW.getTime() - 60 * 60 * 1000,
+    ...overrides,
+  };
+}
+
+let dataDir: string;
+
+beforeEach(() => {
+  dataDir = mkdtempSync(join(tmpdir(), 'arc-pricing-'));
+  process.env.ARC_MERCHANT_DATA_DIR = dataDir;
+  process.env.LEDGER_BACKEND = 'memory';
+  globalThis.ledgerStore = undefined;
+});
+
+afterEach(() => {
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe('quotePrice', () => {
+  it('quotes the catalog price without rules', () => {
+    expect(quotePrice(article, null, NOW)).toEqual({ slug: article.slug, price: 0.1, basePrice: 0.1, applied: [] });
+  });
+
+  it('applies rule types in their fixed order whatever order they are stored in', () => {
+    rules([
+      { id: 'loyal', type: 'volume-tier', tiers: [{ minPurchases: 1, discountPct: 50 }] },
+      { id: 'launch', type: 'launch-window', start: '2026-03-01T00:00:00Z', end: '2026-04-01T00:00:00Z', multiplier: 2 },
+      { id: 'arc-default', type: 'tag-default', tag: 'arc', price: 0.2 },
+    ]);
+    getLedger().insert(purchase('payment-1'));
+
+    const quote = quotePrice(article, PAYER, NOW);
+
+    expect(quote.price).toBe(0.2);
+    expect(quote.applied.map(a => a.ruleId)).toEqual(['arc-default', 'launch', 'loyal']);
+  });
+
+  it('applies rules of one type in the order they are stored', () => {
+    rules([
+      { id: 'fixed', type: 'launch-window', start: '2026-03-01T00:00:00Z', end: '2026-04-01T00:00:00Z', price: 0.05 },
+      { id: 'double', type: 'launch-window', start: '2026-03-01T00:00:00Z', end: '2026-04-01T00:00:00Z', multiplier: 2 },
+    ]);
+
+    expect(quotePrice(article, null, NOW).price).toBe(0.1);
+
+    rules([
+      { id: 'double', type: 'launch-window', start: '2026-03-01T00:00:00Z', end: '2026-04-01T00:00:00Z', multiplier: 2 },
+      { id: 'fixed', type: 'launch-window', start: '2026-03-01T00:00:00Z', end: '2026-04-01T00:00:00Z', price: 0.05 },
+    ]);
+
+    expect(quotePrice(article, null, NOW).price).toBe(0.05);
+  });
+
+  it('skips disabled rules and rules scoped to other items', () => {
+    rules([
+      { id: 'off', type: 'tag-default', tag: 'arc', price: 0.2, enabled: false },
+      { id: 'other-slug', type: 'time-of-day', startHour: 0, endHour: 24, multiplier: 3, slugs: ['x402-guide'] },
+      { id: 'other-tag', type: 'time-of-day', startHour: 0, endHour: 24, multiplier: 3, tags: ['defi'] },
+    ]);
+
+    expect(quotePrice(article, null, NOW).applied).toEqual([]);
+  });
+
+  it('applies a time-of-day rule over a range that wraps past midnight', () => {
+    rules([{ id: 'night', type: 'time-of-day', startHour: 22, endHour: 6, multiplier: 0.5 }]);
+
+    expect(quotePrice(article, null, new Date('2026-03-15T23:00:00Z')).price).toBe(0.05);
+    expect(quotePrice(article, null, new Date('2026-03-15T03:00:00Z')).price).toBe(0.05);
+    expect(quotePrice(article, null, NOW).price).toBe(0.1);
+  });
+
+  it('decays the price per day after the grace period, down to the floor', () => {
+    rules([{ id: 'decay', type: 'decay', ratePerDay: 0.1, afterDays: 12, floor: 0.075 }]);
+
+    // 14 days old: two days of decay
+    expect(quotePrice(article, null, NOW).price).toBe(0.081);
+    expect(quotePrice(article, null, new Date('2026-04-15T00:00:00Z')).price).toBe(0.075);
+  });
+
+  it('picks the highest volume tier the payer reached, counting a bundle once', () => {
+    rules([{
+      id: 'loyal',
+      type: 'volume-tier',
+      periodDays: 30,
+      tiers: [{ minPurchases: 2, discountPct: 10 }, { minPurchases: 3, discountPct: 20 }],
+    }]);
+    getLedger().insert(purchase('payment-1'));
+    getLedger().insert(purchase('bundle-1', { purchaseId: 'purchase-1' }));
+    getLedger().insert(purchase('bundle-2', { purchaseId: 'purchase-1' }));
+    getLedger().insert(purchase('payment-2', { state: 'failed' }));
+    getLedger().insert(purchase('payment-3', { timestamp: NOW.getTime() - 31 * 24 * 60 * 60 * 1000 }));
+
+    expect(quotePrice(article, PAYER, NOW).price).toBe(0.09);
+    expect(quotePrice(article, null, NOW).price).toBe(0.1);
+  });
+
+  it('never quotes below the smallest stablecoin unit', () => {
+    rules([{ id: 'free', type: 'time-of-day', startHour: 0, endHour: 24, multiplier: 0.000001 }]);
+
+    expect(quotePrice(article, null, NOW).price).toBe(MIN_PRICE);
+  });
+});
+
+describe('getPricingRules', () => {
+  it('reads rules saved with the legacy USD field names', () => {
+    writeJsonFile('pricing-rules.json', [
+      { id: 'arc-default', type: 'tag-default', tag: 'arc', priceUsd: 0.2 },
+      { id: 'decay', type: 'decay', ratePerDay: 0.1, floorUsd: 0.05 },
+    ]);
+
+    expect(getPricingRules()).toMatchObject([{ price: 0.2 }, { floor: 0.05, afterDays: 0, enabled: true }]);
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Rule-based dynamic pricing
+ *
+ * Resolves the price quoted in a resource's x402 `accepts` block. Rules are
+ * stored under the data directory and edited through /api/admin/pricing, so
+ * promotions and embargoed releases need no redeploy.
+ *
+ * Evaluation order:
+ * 1. tag-default   - replaces the catalog price for items with a matching tag
+ * 2. launch-window - fixed price or multiplier between two dates
+ * 3. time-of-day   - multiplier during a UTC hour range
+ * 4. decay         - price drops per day since publication, down to a floor
+ * 5. volume-tier   - discount based on the payer's purchase count in the ledger
+ *
+ * Within a type, rules apply in the order they are stored. Fixed prices and
+ * floors are in the item's own currency, like its catalog price.
+ *
+ * The price must be identical on the 402 challenge and the paid retry, so
+ * payer-dependent rules key off the signed payment's `from` address, or the
+ * `x-payer-address` hint header when asking for a quote before paying.
+ */
+
+import { z } from 'zod';
+import { getLedger } from './ledger';
+import { readJsonFile, writeJsonFile } from './storage';
+
+const PRICING_RULES_FILE = 'pricing-rules.json';
+
+// Smallest USDC/EURC unit (6 decimals)
+export const MIN_PRICE = 0.000001;
+
+const ruleScope = {
+  id: z.string().min(1),
+  name: z.string().optional(),
+  enabled: z.boolean().default(true),
+  // Restrict to these slugs / tags (all items when both are omitted)
+  slugs: z.array(z.string()).optional(),
+  tags: z.array(z.string()).optional(),
+};
+
+const priceEffect = {
+  price: z.number().positive().optional(),
+  multiplier: z.number().positive().optional(),
+};
+
+const hasPriceEffect = (rule: { price?: number; multiplier?: number }) =>
+  rule.price !== undefined || rule.multiplier !== undefined;
+const priceEffectMessage = 'Set either price or multiplier';
+
+// Rules saved before prices followed the item's currency named them priceUsd / floorUsd
+function renameLegacyFields(rule: unknown): unknown {
+  if (!rule || typeof rule !== 'object') return rule;
+  const { priceUsd, floorUsd, ...rest } = rule as Record<string, unknown>;
+  return {
+    ...rest,
+    ...(priceUsd !== undefined && rest.price === undefined && { price: priceUsd }),
+    ...(floorUsd !== undefined && rest.floor === undefined && { floor: floorUsd }),
+  };
+}
+
+export const pricingRuleSchema = z.discriminatedUnion('type', [
+  z.object({
+    ...ruleScope,
+    type: z.literal('tag-default'),
+    tag: z.string().min(1),
+    price: z.number().positive(),
+  }),
+  z.object({
+    ...ruleScope,
+    ...priceEffect,
+    type: z.literal('launch-window'),
+    start: z.iso.datetime({ offset: true }),
+    end: z.iso.datetime({ offset: true }),
+  }).refine(hasPriceEffect, priceEffectMessage),
+  z.object({
+    ...ruleScope,
+    ...priceEffect,
+    type: z.literal('time-of-day'),
+    startHour: z.number().int().min(0).max(23),
+    endHour: z.number().int().min(0).max(24), // exclusive; may wrap past midnight
+    daysOfWeek: z.array(z.number().int().min(0).max(6)).optional(), // 0 = Sunday
+  }).refine(hasPriceEffect, priceEffectMessage),
+  z.object({
+    ...ruleScope,
+    type: z.literal('decay'),
+    ratePerDay: z.number().gt(0).lt(1), // fraction of the price lost per day
+    afterDays: z.number().min(0).default(0), // grace period before decay starts
+    floor: z.number().positive(),
+  }),
+  z.object({
+    ...ruleScope,
+    type: z.literal('volume-tier'),
+    periodDays: z.number().positive().optional(), // count all history when omitted
+    tiers: z.array(z.object({
+      minPurchases: z.number().int().min(1),
+      discountPct: z.number().gt(0).max(100),
+    })).min(1),
+  }),
+]);
+
+export const pricingRulesSchema = z.array(z.preprocess(renameLegacyFields, pricingRuleSchema));
+
+export type PricingRule = z.infer<typeof pricingRuleSchema>;
+
+const RULE_ORDER: PricingRule['type'][] = ['tag-default', 'launch-window', 'time-of-day', 'decay', 'volume-tier'];
+
+// Prices are in the item's own currency (see ./currency)
+export interface PricedItem {
+  slug: string;
+  basePrice: number;
+  tags?: string[];
+  publishedAt?: string;
+}
+
+export interface PriceQuote {
+  slug: string;
+  price: number;
+  basePrice: number;
+  applied: { ruleId: string; type: PricingRule['type']; price: number }[];
+}
+
+/**
+ * Get the stored pricing rules
+ */
+export function getPricingRules(): PricingRule[] {
+  return pricingRulesSchema.parse(readJsonFile<unknown>(PRICING_RULES_FILE, []));
+}
+
+/**
+ * Replace all pricing rules
+ */
+export function setPricingRules(rules: PricingRule[]) {
+  writeJsonFile(PRICING_RULES_FILE, rules);
+}
+
+function ruleMatches(rule: PricingRule, item: PricedItem): boolean {
+  if (!rule.enabled) return false;
+  if (rule.slugs && !rule.slugs.includes(item.slug)) return false;
+  if (rule.tags && !rule.tags.some(tag => item.tags?.includes(tag))) return false;
+  return true;
+}
+
+function applyEffect(price: number, effect: { price?: number; multiplier?: number }): number {
+  if (effect.price !== undefined) return effect.price;
+  if (effect.multiplier !== undefined) return price * effect.multiplier;
+  return price;
+}
+
+function inHourRange(hour: number, startHour: number, endHour: number): boolean {
+  return startHour < endHour
+    ? hour >= startHour && hour < endHour
+    : hour >= startHour || hour < endHour; // wraps past midnight
+}
+
+function countPurchases(payer: string, periodDays: number | undefined, now: Date): number {
+  const since = periodDays ? now.getTime() - periodDays * 24 * 60 * 60 * 1000 : 0;
+  const purchases = getLedger().list().filter(entry =>
+    entry.payer.toLowerCase() === payer.toLowerCase() &&
+    entry.state !== 'failed' &&
+    entry.timestamp >= since
+  );
+  // A bundle is one purchase even though it has an entry per article
+  return new Set(purchases.map(entry => entry.purchaseId || entry.id)).size;
+}
+
+function applyRule(rule: PricingRule, price: number, item: PricedItem, payer: string | null, now: Date): number {
+  switch (rule.type) {
+    case 'tag-default':
+      return item.tags?.includes(rule.tag) ? rule.price : price;
+
+    case 'launch-window': {
+      const inWindow = now >= new Date(rule.start) && now < new Date(rule.end);
+      return inWindow ? applyEffect(price, rule) : price;
+    }
+
+    case 'time-of-day': {
+      if (rule.daysOfWeek && !rule.daysOfWeek.includes(now.getUTCDay())) return price;
+      return inHourRange(now.getUTCHours(), rule.startHour, rule.endHour) ? applyEffect(price, rule) : price;
+    }
+
+    case 'decay': {
+      if (!item.publishedAt) return price;
+      const ageDays = (now.getTime() - new Date(item.publishedAt).getTime()) / (24 * 60 * 60 * 1000);
+      const decayDays = Math.floor(ageDays - rule.afterDays);
+      if (decayDays <= 0) return price;
+      return Math.max(rule.floor, price * (1 - rule.ratePerDay) ** decayDays);
+    }
+
+    case 'volume-tier': {
+      if (!payer) return price;
+      const purchases = countPurchases(payer, rule.periodDays, now);
+      const tier = rule.tiers
+        .filter(t => purchases >= t.minPurchases)
+        .sort((a, b) => b.minPurchases - a.minPurchases)[0];
+      return tier ? price * (1 - tier.discountPct / 100) : price;
+    }
+  }
+}
+
+/**
+ * Resolve the price for an item
+ */
+export function quotePrice(item: PricedItem, payer: string | null = null, now = new Date()): PriceQuote {
+  const rules = getPricingRules().filter(rule => ruleMatches(rule, item));
+  const applied: PriceQuote['applied'] = [];
+  let price = item.basePrice;
+
+  for (const type of RULE_ORDER) {
+    for (const rule of rules.filter(r => r.type === type)) {
+      const next = applyRule(rule, price, item, payer, now);
+      if (next !== price) {
+        price = next;
+        applied.push({ ruleId: rule.id, type: rule.type, price });
+      }
+    }
+  }
+
+  // Round to stablecoin precision so the quote is stable between challenge and retry
+  const finalPrice = Math.max(MIN_PRICE, Math.round(price * 1_000_000) / 1_000_000);
+
+  return { slug: item.slug, price: finalPrice, basePrice: item.basePrice, applied };
+}
+
+/**
+ * Payer address used for payer-dependent pricing
+ *
+ * Prefers the `from` of a signed payment (which verification then proves),
+ * falling back to the `x-payer-address` hint header for pre-payment quotes.
+ */
+export function getPricingPayer(headers: Headers): string | null {
+  const paymentHeader = headers.get('payment-signature');
+  if (paymentHeader) {
+    try {
+      const decoded = JSON.parse(Buffer.from(paymentHeader, 'base64').toString());
+      const from = decoded?.payload?.authorization?.from;
+      if (typeof from === 'string') return from;
+    } catch { /* ignore */ }
+  }
+  return headers.get('x-payer-address');
+}
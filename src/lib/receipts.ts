@@ -0,0 +1,155 @@
+/**
+ * Signed access receipts
+ *
+ * After a settled x402 payment the paywall issues an expiring, HMAC-signed
+ * receipt bound to the payer address and resource slug. Presenting it later
+ * (header or cookie) serves the resource again with no payment and no
+ * facilitator call, so reloads and agent retries are not charged twice.
+ *
+ * Token format: <base64url JSON payload>.<base64url HMAC-SHA256 signature>
+ *
+ * Receipts, pass tokens (./passes) and sessions (./auth) share the signing
+ * key; every token carries a `typ` claim and is only accepted as its own kind.
+ *
+ * The signing key comes from RECEIPT_SECRET, or is generated once and kept
+ * in the data directory. Lifetime is RECEIPT_TTL_SECONDS (default 24h).
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import type { NextRequest, NextResponse } from 'next/server';
+import { dataFilePath } from './storage';
+
+export const RECEIPT_HEADER = 'x-access-receipt';
+export const RECEIPT_COOKIE = 'arc_receipt';
+
+const RECEIPT_SECRET_FILE = 'receipt-secret';
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+
+export type TokenType = 'receipt' | 'pass' | 'session';
+
+// Claims every signed token carries
+export interface TokenClaims {
+  typ: TokenType;
+  exp: number; // expires at (unix seconds)
+}
+
+export interface AccessReceipt {
+  typ: 'receipt';
+  payer: string;
+  slug: string;
+  txHash: string | null;
+  iat: number; // issued at (unix seconds)
+  exp: number; // expires at (unix seconds)
+}
+
+function getReceiptSecret(): string {
+  if (process.env.RECEIPT_SECRET) return process.env.RECEIPT_SECRET;
+
+  const path = dataFilePath(RECEIPT_SECRET_FILE);
+  if (!existsSync(path)) {
+    writeFileSync(path, randomBytes(32).toString('hex'), { mode: 0o600 });
+  }
+  return readFileSync(path, 'utf8').trim();
+}
+
+function sign(data: string): string {
+  return createHmac('sha256', getReceiptSecret()).update(data).digest('base64url');
+}
+
+/**
+ * Receipt lifetime in seconds
+ */
+export function getReceiptTtl(): number {
+  return parseInt(process.env.RECEIPT_TTL_SECONDS || String(DEFAULT_TTL_SECONDS));
+}
+
+/**
+ * Sign an expiring payload as a token
+ *
+ * Shared by access receipts, passes and sessions; `exp` is unix seconds.
+ */
+export function signToken<T extends TokenClaims>(data: T): string {
+  const payload = Buffer.from(JSON.stringify(data)).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+// Signature and expiry only; callers must check the token kind
+function readToken(token: string): Partial<TokenClaims> | null {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const data = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    if (!data || typeof data !== 'object' || !(data.exp >= Math.floor(Date.now() / 1000))) return null;
+    return data;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Verify a token's signature, expiry and kind, returning its payload or null
+ */
+export function verifyToken<T extends TokenClaims>(token: string, typ: T['typ']): T | null {
+  const data = readToken(token);
+  return data?.typ === typ ? data as T : null;
+}
+
+/**
+ * Issue a signed receipt for a paid resource
+ */
+export function issueAccessReceipt(details: { payer: string; slug: string; txHash: string | null }): string {
+  const now = Math.floor(Date.now() / 1000);
+  return signToken<AccessReceipt>({ typ: 'receipt', ...details, iat: now, exp: now + getReceiptTtl() });
+}
+
+/**
+ * Verify a receipt for a slug
+ *
+ * Returns the receipt if the signature is valid, it has not expired and
+ * it was issued for this slug; null otherwise. Receipts issued before tokens
+ * had a kind carry no `typ`; the slug check keeps other kinds out of them.
+ */
+export function verifyAccessReceipt(token: string, slug: string): AccessReceipt | null {
+  const receipt = readToken(token) as Partial<AccessReceipt> | null;
+  if (!receipt || (receipt.typ ?? 'receipt') !== 'receipt') return null;
+  if (receipt.slug !== slug || typeof receipt.payer !== 'string') return null;
+  return { ...receipt, typ: 'receipt' } as AccessReceipt;
+}
+
+function receiptCookieName(slug: string): string {
+  return `${RECEIPT_COOKIE}_${slug}`;
+}
+
+/**
+ * Read a receipt token for a slug from the request header or cookie
+ */
+export function getReceiptToken(req: NextRequest, slug: string): string | null {
+  return req.headers.get(RECEIPT_HEADER) || req.cookies.get(receiptCookieName(slug))?.value || null;
+}
+
+/**
+ * Store a receipt in a cookie scoped to the path of the resource it unlocks
+ */
+export function setReceiptCookie(response: NextResponse, token: string, slug: string, path: string) {
+  response.cookies.set(receiptCookieName(slug), token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path,
+    maxAge: getReceiptTtl(),
+  });
+}
+
+/**
+ * Attach a receipt to a response as header and cookie
+ */
+export function attachReceipt(response: NextResponse, token: string, slug: string, path: string) {
+  response.headers.set(RECEIPT_HEADER, token);
+  setReceiptCookie(response, token, slug, path);
+}
@@ -0,0 +1,178 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TRANSFER_EVENT } from './arc';
+import { getLedger, LedgerEntry } from './ledger';
+import { ChainTransfer, getReconciliationReport, runReconciliation } from './reconcile';
+import { writeJsonFile } from './storage';
+
+const chain = vi.hoisted(() => ({
+  getBlockNumber: vi.fn(),
+  getLogs: vi.fn(),
+  getBlock: vi.fn(),
+  getTransactionReceipt: vi.fn(),
+}));
+
+vi.mock('./arc', async importOriginal => ({
+  ...await importOriginal<typeof import('./arc')>(),
+  arcPublicClient: chain,
+}));
+
+// The real module needs Circle credentials at import time
+vi.mock('./circle-wallet', () => ({
+  CircleTransactionFailedError: class extends Error {},
+  getMerchantWallet: vi.fn(),
+  transferToken: vi.fn(),
+  watchCircleTransaction: vi.fn(),
+}));
+
+const USDC = '0x3600000000000000000000000000000000000000';
+const MERCHANT = '0x1111111111111111111111111111111111111111';
+const PAYER = '0x2222222222222222222222222222222222222222';
+const BLOCK_TIME = Date.UTC(2026, 2, 15, 12);
+
+function entry(overrides: Partial<LedgerEntry> = {}): LedgerEntry {
+  return {
+    id: 'payment-1',
+    slug: 'arc-blockchain-guide',
+    title: 'Arc guide',
+    amount: 0.01,
+    payer: PAYER,
+    txHash: null,
+    network: 'eip155:5042002',
+    asset: USDC,
+    state: 'pending',
+    timestamp: BLOCK_TIME,
+    ...overrides,
+  };
+}
+
+// A USDC transfer log to the merchant in block 900
+function transferLog(txHash: string, logIndex = 0, value = BigInt(10000)) {
+  return {
+    address: USDC,
+    transactionHash: txHash,
+    logIndex,
+    blockNumber: BigInt(900),
+    args: { from: PAYER, to: MERCHANT, value },
+  };
+}
+
+function onChain(logs: ReturnType<typeof transferLog>[]) {
+  chain.getLogs.mockImplementation(async ({ address, event }: { address: string; event: unknown }) =>
+    event === TRANSFER_EVENT ? logs.filter(log => log.address.toLowerCase() === address.toLowerCase()) : []
+  );
+}
+
+let dataDir: string;
+
+beforeEach(() => {
+  dataDir = mkdtempSync(join(tmpdir(), 'arc-reconcile-'));
+  process.env.ARC_MERCHANT_DATA_DIR = dataDir;
+  process.env.LEDGER_BACKEND = 'memory';
+  process.env.MERCHANT_WALLET_ID = 'merchant-wallet';
+  process.env.MERCHANT_PAYOUT_ADDRESS = MERCHANT;
+  process.env.RECONCILE_FROM_BLOCK = '0';
+  globalThis.ledgerStore = undefined;
+  vi.clearAllMocks();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  chain.getBlockNumber.mockResolvedValue(BigInt(1000));
+  chain.getBlock.mockResolvedValue({ timestamp: BigInt(BLOCK_TIME / 1000) });
+  chain.getTransactionReceipt.mockResolvedValue(null);
+  onChain([]);
+});
+
+afterEach(() => {
+  rmSync(dataDir, { recursive: true, force: true });
+  vi.restoreAllMocks();
+});
+
+describe('runReconciliation', () => {
+  it('settles the one purchase a transfer fits by amount', async () => {
+    getLedger().insert(entry());
+    onChain([transferLog('0xaaa')]);
+
+    const run = await runReconciliation();
+
+    expect(run).toMatchObject({ matched: 1, filled: 1, unmatched: 0, ambiguous: 0 });
+    expect(getLedger().list()).toMatchObject([{ state: 'settled', txHash: '0xaaa', reconciliation: { status: 'matched' } }]);
+  });
+
+  it('flags purchases for review when a transfer fits several', async () => {
+    getLedger().insert(entry({ id: 'payment-1' }));
+    getLedger().insert(entry({ id: 'payment-2', slug: 'x402-guide', timestamp: BLOCK_TIME + 1000 }));
+    onChain([transferLog('0xaaa')]);
+
+    const run = await runReconciliation();
+
+    expect(run).toMatchObject({ matched: 0, filled: 0, unmatched: 1, ambiguous: 1 });
+    for (const stored of getLedger().list()) {
+      expect(stored).toMatchObject({ state: 'pending', txHash: null, reconciliation: { status: 'review' } });
+    }
+    expect(getReconciliationReport().reviewTransfers).toMatchObject([
+      { txHash: '0xaaa', candidates: expect.arrayContaining(['payment-1', 'payment-2']) },
+    ]);
+  });
+
+  it('still matches by nonce when the amount is ambiguous', async () => {
+    getLedger().insert(entry({ id: 'payment-1', nonce: '0x01' }));
+    getLedger().insert(entry({ id: 'payment-2', nonce: '0x02' }));
+    onChain([transferLog('0xaaa')]);
+    chain.getLogs.mockImplementation(async ({ address, event }: { address: string; event: unknown }) => {
+      if (address.toLowerCase() !== USDC) return [];
+      return event === TRANSFER_EVENT
+        ? [transferLog('0xaaa')]
+        : [{ transactionHash: '0xaaa', args: { authorizer: PAYER, nonce: '0x02' } }];
+    });
+
+    const run = await runReconciliation();
+
+    expect(run).toMatchObject({ filled: 1, ambiguous: 0 });
+    expect(getLedger().list().find(e => e.id === 'payment-2')).toMatchObject({ txHash: '0xaaa', state: 'settled' });
+    expect(getLedger().list().find(e => e.id === 'payment-1')).toMatchObject({ txHash: null, state: 'pending' });
+  });
+
+  it('does not match a purchase made outside the window by amount', async () => {
+    getLedger().insert(entry({ timestamp: BLOCK_TIME - 2 * 60 * 60 * 1000 }));
+    onChain([transferLog('0xaaa')]);
+
+    const run = await runReconciliation();
+
+    expect(run).toMatchObject({ filled: 0, unmatched: 1, ambiguous: 0 });
+    expect(getLedger().list()[0].txHash).toBeNull();
+    expect(getReconciliationReport().reviewTransfers).toEqual([]);
+  });
+
+  it('retries unmatched transfers until the TTL passes', async () => {
+    const seen = Date.now();
+    const transfer: ChainTransfer = {
+      txHash: '0xaaa', logIndex: 0, blockNumber: 900, from: PAYER, to: MERCHANT, asset: USDC, amount: '10000',
+    };
+    const expired = 31 * 24 * 60 * 60 * 1000;
+    writeJsonFile('reconciliation.json', {
+      lastBlock: 1000,
+      lastRun: null,
+      unmatchedTransfers: [
+        { ...transfer, firstSeenAt: seen },
+        { ...transfer, txHash: '0xbbb', firstSeenAt: seen - expired },
+      ],
+    });
+
+    const run = await runReconciliation();
+
+    expect(run).toMatchObject({ transfers: 2, unmatched: 1, expired: 1 });
+    expect(getReconciliationReport().unmatchedTransfers).toMatchObject([{ txHash: '0xaaa', firstSeenAt: seen }]);
+  });
+
+  it('keeps only the newest unmatched transfers', async () => {
+    onChain(Array.from({ length: 1001 }, (_, i) => transferLog(`0x${i.toString(16)}`, i, BigInt(1))));
+
+    const run = await runReconciliation();
+
+    expect(run).toMatchObject({ transfers: 1001, unmatched: 1000, expired: 1 });
+    const kept = getReconciliationReport().unmatchedTransfers;
+    expect(kept.some(t => t.logIndex === 0)).toBe(false);
+    expect(chain.getBlock).toHaveBeenCalledTimes(1);
+  });
+});
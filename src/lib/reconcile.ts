@@ -0,0 +1,495 @@
+/**
+ * On-chain reconciliation
+ *
+ * Checks the ledger against what actually arrived on Arc. Each run scans
+ * stablecoin `Transfer` events to the merchants' payout addresses (and the
+ * EIP-3009 `AuthorizationUsed` events in the same transactions, which carry
+ * the payment nonce) since the last scanned block, then matches every
+ * transfer to a purchase:
+ *
+ * 1. by txHash, checking payer and amount agree (`mismatch` otherwise)
+ * 2. by authorization nonce, filling in the missing txHash
+ * 3. by payer, asset, amount and payTo for purchases still missing a txHash,
+ *    made within RECONCILE_MATCH_WINDOW_MINUTES of the transfer's block. Only
+ *    a single fitting purchase is matched; when several fit, they are all
+ *    flagged `review` and the transfer is kept for manual review.
+ *
+ * Transfers that match nothing are kept as unmatched and retried on later
+ * runs, for up to RECONCILE_UNMATCHED_TTL_DAYS and at most
+ * MAX_UNMATCHED_TRANSFERS of them (the newest). Purchases older than
+ * RECONCILE_GRACE_MINUTES that no transfer accounts for are checked against
+ * their transaction receipt, or flagged `orphaned` when they have no txHash
+ * at all.
+ *
+ * A bundle purchase is split across ledger entries; it is matched as one
+ * purchase (summed amount) and every entry gets the same result.
+ *
+ * Runs on demand (POST /api/admin/reconciliation) and, when
+ * RECONCILE_INTERVAL_MINUTES is set, on a schedule.
+ */
+
+import { decodeEventLog } from 'viem';
+import { arcPublicClient, AUTHORIZATION_USED_EVENT, TRANSFER_EVENT } from './arc';
+import { CURRENCIES, getStablecoinByAddress, Stablecoin, STABLECOINS, toTokenUnits } from './currency';
+import { getLedger, LedgerEntry, Reconciliation, ReconciliationStatus } from './ledger';
+import { getMerchants, resolveMerchant } from './merchants';
+import { confirmPasses } from './passes';
+import { accruePayoutShares } from './payouts';
+import { settlePayment } from './stats';
+import { readJsonFile, writeJsonFile } from './storage';
+
+const STATE_FILE = 'reconciliation.json';
+
+const DEFAULT_LOOKBACK_BLOCKS = 100_000;
+const DEFAULT_BLOCK_CHUNK = 10_000;
+const DEFAULT_GRACE_MINUTES = 30;
+const DEFAULT_MATCH_WINDOW_MINUTES = 60;
+const DEFAULT_UNMATCHED_TTL_DAYS = 30;
+const MAX_UNMATCHED_TRANSFERS = 1000;
+
+export interface ChainTransfer {
+  txHash: string;
+  logIndex: number;
+  blockNumber: number;
+  from: string;
+  to: string;
+  asset: string;
+  amount: string; // smallest token units
+  nonce?: string;
+  timestamp?: number; // block time (ms), fetched when matching by amount
+  firstSeenAt?: number; // when a run first kept it as unmatched
+  candidates?: string[]; // ledger entries it may pay for, awaiting manual review
+}
+
+export interface ReconciliationRun {
+  startedAt: number;
+  completedAt: number;
+  fromBlock: number;
+  toBlock: number;
+  transfers: number; // transfers seen in this run (new + retried)
+  matched: number;
+  filled: number; // txHashes written to the ledger
+  mismatched: number;
+  orphaned: number;
+  unmatched: number;
+  ambiguous: number; // unmatched transfers that fit several purchases
+  expired: number; // unmatched transfers dropped after the TTL or over the cap
+}
+
+export interface ReconciliationState {
+  lastBlock: number | null;
+  lastRun: ReconciliationRun | null;
+  unmatchedTransfers: ChainTransfer[];
+}
+
+// One purchase as paid on-chain (a bundle spans several entries)
+interface Purchase {
+  entries: LedgerEntry[];
+  payer: string;
+  asset: string;
+  amount: string; // smallest token units
+  txHash: string | null;
+  nonce?: string;
+  payTo?: string;
+  timestamp: number;
+}
+
+// Only one run at a time per process
+declare global {
+  var reconciliationRun: Promise<ReconciliationRun> | undefined;
+}
+
+function loadState(): ReconciliationState {
+  return readJsonFile<ReconciliationState>(STATE_FILE, { lastBlock: null, lastRun: null, unmatchedTransfers: [] });
+}
+
+function saveState(state: ReconciliationState) {
+  writeJsonFile(STATE_FILE, state);
+}
+
+function sameAddress(a: string | null | undefined, b: string | null | undefined): boolean {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
+
+function transferKey(transfer: ChainTransfer): string {
+  return `${transfer.txHash.toLowerCase()}:${transfer.logIndex}`;
+}
+
+function getGraceMs(): number {
+  return parseFloat(process.env.RECONCILE_GRACE_MINUTES || String(DEFAULT_GRACE_MINUTES)) * 60 * 1000;
+}
+
+function getMatchWindowMs(): number {
+  return parseFloat(process.env.RECONCILE_MATCH_WINDOW_MINUTES || String(DEFAULT_MATCH_WINDOW_MINUTES)) * 60 * 1000;
+}
+
+function getUnmatchedTtlMs(): number {
+  return parseFloat(process.env.RECONCILE_UNMATCHED_TTL_DAYS || String(DEFAULT_UNMATCHED_TTL_DAYS)) * 24 * 60 * 60 * 1000;
+}
+
+function payToFor(entry: LedgerEntry): string | undefined {
+  try {
+    return resolveMerchant(entry.merchantId).payoutAddress;
+  } catch {
+    return undefined; // merchant was removed
+  }
+}
+
+/**
+ * Group ledger entries into on-chain purchases
+ */
+function loadPurchases(): Purchase[] {
+  const groups = new Map<string, LedgerEntry[]>();
+  for (const entry of getLedger().list()) {
+    if (entry.state === 'failed') continue;
+    const key = entry.purchaseId || entry.id;
+    groups.set(key, [...(groups.get(key) || []), entry]);
+  }
+
+  return Array.from(groups.values()).map(entries => {
+    const first = entries[0];
+    const coin = getStablecoinByAddress(first.asset) || STABLECOINS.USD;
+    return {
+      entries,
+      payer: first.payer,
+      asset: first.asset,
+      amount: toTokenUnits(entries.reduce((sum, e) => sum + e.amount, 0), coin),
+      txHash: first.txHash,
+      nonce: first.nonce,
+      payTo: payToFor(first),
+      timestamp: first.timestamp,
+    };
+  });
+}
+
+/**
+ * Scan transfers to the given addresses in a block range, with their nonces
+ */
+async function scanTransfers(coin: Stablecoin, to: `0x${string}`[], fromBlock: bigint, toBlock: bigint): Promise<ChainTransfer[]> {
+  const transferLogs = await arcPublicClient.getLogs({
+    address: coin.address,
+    event: TRANSFER_EVENT,
+    args: { to },
+    fromBlock,
+    toBlock,
+  });
+  if (transferLogs.length === 0) return [];
+
+  // Nonces come from AuthorizationUsed events by the same payers in the same transactions
+  const payers = Array.from(new Set(transferLogs.map(log => log.args.from!)));
+  const authorizationLogs = await arcPublicClient.getLogs({
+    address: coin.address,
+    event: AUTHORIZATION_USED_EVENT,
+    args: { authorizer: payers },
+    fromBlock,
+    toBlock,
+  });
+  const nonces = new Map(authorizationLogs.map(log => [
+    `${log.transactionHash.toLowerCase()}:${log.args.authorizer!.toLowerCase()}`,
+    log.args.nonce!,
+  ]));
+
+  return transferLogs.map(log => {
+    const nonce = nonces.get(`${log.transactionHash.toLowerCase()}:${log.args.from!.toLowerCase()}`);
+    return {
+      txHash: log.transactionHash,
+      logIndex: log.logIndex,
+      blockNumber: Number(log.blockNumber),
+      from: log.args.from!,
+      to: log.args.to!,
+      asset: coin.address,
+      amount: log.args.value!.toString(),
+      ...(nonce && { nonce }),
+    };
+  });
+}
+
+/**
+ * Find the purchase a transfer references by txHash or nonce
+ */
+function matchByReference(transfer: ChainTransfer, open: Purchase[]): { purchase: Purchase; by: 'txHash' | 'nonce' } | null {
+  const byTxHash = open.find(p => sameAddress(p.txHash, transfer.txHash));
+  if (byTxHash) return { purchase: byTxHash, by: 'txHash' };
+
+  if (transfer.nonce) {
+    const byNonce = open.find(p => !p.txHash && sameAddress(p.nonce, transfer.nonce) && sameAddress(p.payer, transfer.from));
+    if (byNonce) return { purchase: byNonce, by: 'nonce' };
+  }
+  return null;
+}
+
+/**
+ * Purchases a transfer could pay for going by payer, asset, amount and payTo
+ *
+ * Only purchases still missing a txHash and made within the match window of
+ * the transfer's block qualify.
+ */
+function amountCandidates(transfer: ChainTransfer, open: Purchase[], windowMs: number): Purchase[] {
+  if (transfer.timestamp === undefined) return [];
+  const timestamp = transfer.timestamp;
+
+  return open.filter(p =>
+    !p.txHash &&
+    sameAddress(p.payer, transfer.from) &&
+    sameAddress(p.asset, transfer.asset) &&
+    p.amount === transfer.amount &&
+    (!p.payTo || sameAddress(p.payTo, transfer.to)) &&
+    Math.abs(p.timestamp - timestamp) <= windowMs
+  );
+}
+
+// Block time of a transfer, fetched once per block and run
+async function blockTimestamp(transfer: ChainTransfer, blocks: Map<number, Promise<number>>): Promise<number> {
+  let timestamp = blocks.get(transfer.blockNumber);
+  if (!timestamp) {
+    timestamp = arcPublicClient
+      .getBlock({ blockNumber: BigInt(transfer.blockNumber) })
+      .then(block => Number(block.timestamp) * 1000);
+    blocks.set(transfer.blockNumber, timestamp);
+  }
+  return timestamp;
+}
+
+/**
+ * Drop unmatched transfers past the TTL, then keep the newest up to the cap
+ */
+function pruneUnmatched(transfers: ChainTransfer[], now: number): ChainTransfer[] {
+  const cutoff = now - getUnmatchedTtlMs();
+  return transfers
+    .filter(t => (t.firstSeenAt ?? now) > cutoff)
+    .sort((a, b) => b.blockNumber - a.blockNumber || b.logIndex - a.logIndex)
+    .slice(0, MAX_UNMATCHED_TRANSFERS);
+}
+
+function markPurchase(purchase: Purchase, status: ReconciliationStatus, details: Omit<Reconciliation, 'status' | 'checkedAt'> = {}) {
+  const reconciliation: Reconciliation = { status, checkedAt: Date.now(), ...details };
+  for (const entry of purchase.entries) {
+    getLedger().update(entry.id, { reconciliation });
+  }
+}
+
+function describeMismatch(purchase: Purchase, transfer: { from: string; amount: string; asset: string }): string | null {
+  const problems: string[] = [];
+  if (!sameAddress(purchase.payer, transfer.from)) problems.push(`payer ${transfer.from} (ledger ${purchase.payer})`);
+  if (!sameAddress(purchase.asset, transfer.asset)) problems.push(`asset ${transfer.asset} (ledger ${purchase.asset})`);
+  if (purchase.amount !== transfer.amount) problems.push(`amount ${transfer.amount} (ledger ${purchase.amount})`);
+  return problems.length ? `On-chain ${problems.join(', ')}` : null;
+}
+
+/**
+ * Check a purchase with a txHash that no scanned transfer accounted for
+ */
+async function verifyReceipt(purchase: Purchase): Promise<ReconciliationStatus> {
+  const receipt = await arcPublicClient
+    .getTransactionReceipt({ hash: purchase.txHash as `0x${string}` })
+    .catch(() => null);
+  if (!receipt || receipt.status !== 'success') {
+    markPurchase(purchase, 'orphaned', { detail: receipt ? 'Transaction reverted' : 'Transaction not found on-chain' });
+    return 'orphaned';
+  }
+
+  const transfers = receipt.logs
+    .filter(log => sameAddress(log.address, purchase.asset))
+    .map(log => {
+      try {
+        const { args } = decodeEventLog({ abi: [TRANSFER_EVENT], data: log.data, topics: log.topics });
+        return { from: args.from, to: args.to, amount: args.value.toString(), asset: log.address };
+      } catch {
+        return null;
+      }
+    })
+    .filter((t): t is NonNullable<typeof t> => !!t && (!purchase.payTo || sameAddress(t.to, purchase.payTo)));
+
+  const blockNumber = Number(receipt.blockNumber);
+  if (transfers.length === 0) {
+    markPurchase(purchase, 'orphaned', { blockNumber, detail: 'Transaction has no transfer to the merchant' });
+    return 'orphaned';
+  }
+
+  const mismatch = transfers.map(t => describeMismatch(purchase, t));
+  if (mismatch.some(m => m === null)) {
+    markPurchase(purchase, 'matched', { blockNumber });
+    return 'matched';
+  }
+  markPurchase(purchase, 'mismatch', { blockNumber, detail: mismatch[0]! });
+  return 'mismatch';
+}
+
+async function reconcile(): Promise<ReconciliationRun> {
+  const startedAt = Date.now();
+  const state = loadState();
+  const merchants = getMerchants().map(m => m.payoutAddress);
+
+  const latest = await arcPublicClient.getBlockNumber();
+  const chunk = BigInt(process.env.RECONCILE_BLOCK_CHUNK || DEFAULT_BLOCK_CHUNK);
+  let fromBlock = state.lastBlock !== null
+    ? BigInt(state.lastBlock + 1)
+    : process.env.RECONCILE_FROM_BLOCK
+      ? BigInt(process.env.RECONCILE_FROM_BLOCK)
+      : latest - BigInt(DEFAULT_LOOKBACK_BLOCKS);
+  if (fromBlock < BigInt(0)) fromBlock = BigInt(0);
+  const scanFrom = fromBlock;
+
+  // New transfers first, then the ones earlier runs could not match
+  const transfers: ChainTransfer[] = [];
+  if (merchants.length > 0) {
+    for (let start = fromBlock; start <= latest; start += chunk) {
+      const end = start + chunk - BigInt(1) < latest ? start + chunk - BigInt(1) : latest;
+      for (const currency of CURRENCIES) {
+        transfers.push(...await scanTransfers(STABLECOINS[currency], merchants, start, end));
+      }
+    }
+  }
+  const seen = new Set(transfers.map(transferKey));
+  transfers.push(...state.unmatchedTransfers.filter(t => !seen.has(transferKey(t))));
+
+  const purchases = loadPurchases();
+  const claimed = new Set<Purchase>();
+  const inReview = new Set<Purchase>();
+  const unmatched: ChainTransfer[] = [];
+  const run: ReconciliationRun = {
+    startedAt,
+    completedAt: 0,
+    fromBlock: Number(scanFrom),
+    toBlock: Number(latest),
+    transfers: transfers.length,
+    matched: 0,
+    filled: 0,
+    mismatched: 0,
+    orphaned: 0,
+    unmatched: 0,
+    ambiguous: 0,
+    expired: 0,
+  };
+
+  const windowMs = getMatchWindowMs();
+  const blocks = new Map<number, Promise<number>>();
+  for (const transfer of transfers) {
+    const open = purchases.filter(p => !claimed.has(p));
+    let match: { purchase: Purchase; by: 'txHash' | 'nonce' | 'amount' } | null = matchByReference(transfer, open);
+
+    if (!match) {
+      if (transfer.timestamp === undefined) transfer.timestamp = await blockTimestamp(transfer, blocks);
+      const candidates = amountCandidates(transfer, open, windowMs);
+      if (candidates.length === 1) {
+        match = { purchase: candidates[0], by: 'amount' };
+      } else {
+        // Several purchases fit: guessing could settle the wrong one
+        if (candidates.length > 1) {
+          for (const candidate of candidates) {
+            inReview.add(candidate);
+            markPurchase(candidate, 'review', { detail: `One of ${candidates.length} payments transfer ${transfer.txHash} may pay for` });
+          }
+          run.ambiguous++;
+        }
+        const kept: ChainTransfer = { ...transfer, firstSeenAt: transfer.firstSeenAt ?? startedAt };
+        if (candidates.length > 1) kept.candidates = candidates.map(c => c.entries[0].id);
+        else delete kept.candidates;
+        unmatched.push(kept);
+        continue;
+      }
+    }
+
+    const { purchase, by } = match;
+    claimed.add(purchase);
+
+    if (by !== 'txHash') {
+      for (const entry of purchase.entries) {
+        const settled = settlePayment(entry.id, transfer.txHash);
+        if (settled) accruePayoutShares(settled);
+      }
+      // A pass revoked with a lost ticket was paid after all
+      const ticket = purchase.entries[0].settlementTicket;
+      if (ticket) confirmPasses(ticket, transfer.txHash);
+      run.filled++;
+      console.log(`🔎 Filled txHash ${transfer.txHash} for ${purchase.entries[0].slug} (matched by ${by})`);
+    }
+
+    const mismatch = describeMismatch(purchase, transfer);
+    markPurchase(purchase, mismatch ? 'mismatch' : 'matched', {
+      blockNumber: transfer.blockNumber,
+      ...(mismatch && { detail: mismatch }),
+    });
+    if (mismatch) run.mismatched++;
+    else run.matched++;
+  }
+
+  // Purchases no transfer accounted for, once they had time to settle
+  const cutoff = Date.now() - getGraceMs();
+  for (const purchase of purchases) {
+    if (claimed.has(purchase) || inReview.has(purchase) || purchase.timestamp > cutoff) continue;
+    if (purchase.entries[0].reconciliation) continue; // checked by an earlier run
+
+    let status: ReconciliationStatus = 'orphaned';
+    if (purchase.txHash) {
+      status = await verifyReceipt(purchase);
+    } else {
+      markPurchase(purchase, 'orphaned', { detail: 'No on-chain transfer found' });
+    }
+    if (status === 'matched') run.matched++;
+    else if (status === 'mismatch') run.mismatched++;
+    else run.orphaned++;
+  }
+
+  const kept = pruneUnmatched(unmatched, startedAt);
+  run.expired = unmatched.length - kept.length;
+  run.unmatched = kept.length;
+  run.completedAt = Date.now();
+  saveState({ lastBlock: Number(latest), lastRun: run, unmatchedTransfers: kept });
+
+  console.log(
+    `🔎 Reconciled blocks ${run.fromBlock}-${run.toBlock}: ${run.matched} matched, ${run.filled} filled, ` +
+    `${run.mismatched} mismatched, ${run.orphaned} orphaned, ${run.unmatched} unmatched transfers ` +
+    `(${run.ambiguous} for review, ${run.expired} expired)`
+  );
+  return run;
+}
+
+// Scheduled runs start once per process
+declare global {
+  var reconciliationScheduler: ReturnType<typeof setInterval> | undefined;
+}
+
+/**
+ * Start scheduled reconciliation if RECONCILE_INTERVAL_MINUTES is set
+ */
+export function ensureReconciliationScheduler() {
+  const minutes = parseFloat(process.env.RECONCILE_INTERVAL_MINUTES || '0');
+  if (globalThis.reconciliationScheduler || !(minutes > 0)) return;
+
+  globalThis.reconciliationScheduler = setInterval(() => {
+    runReconciliation().catch(error => console.error('Scheduled reconciliation failed:', error));
+  }, minutes * 60 * 1000);
+}
+
+/**
+ * Reconcile the ledger with on-chain transfers since the last run
+ *
+ * Concurrent calls share the run in progress.
+ */
+export function runReconciliation(): Promise<ReconciliationRun> {
+  if (!globalThis.reconciliationRun) {
+    globalThis.reconciliationRun = reconcile().finally(() => {
+      globalThis.reconciliationRun = undefined;
+    });
+  }
+  return globalThis.reconciliationRun;
+}
+
+/**
+ * Last run, unmatched transfers (and those awaiting manual review) and
+ * flagged ledger entries
+ */
+export function getReconciliationReport() {
+  const { lastBlock, lastRun, unmatchedTransfers } = loadState();
+  const entries = getLedger().list();
+
+  return {
+    lastBlock,
+    lastRun,
+    unmatchedTransfers,
+    reviewTransfers: unmatchedTransfers.filter(t => t.candidates?.length),
+    flaggedPayments: entries.filter(e => e.reconciliation && e.reconciliation.status !== 'matched'),
+    unreconciled: entries.filter(e => !e.reconciliation && e.state !== 'failed').length,
+  };
+}
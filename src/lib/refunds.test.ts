@@ -0,0 +1,177 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CircleTransactionFailedError, transferToken, watchCircleTransaction } from './circle-wallet';
+import { getLedger, LedgerEntry } from './ledger';
+import { getRefundableAmount, refundPayment, resumePendingRefunds } from './refunds';
+
+// The real module needs Circle credentials at import time
+vi.mock('./circle-wallet', () => ({
+  CircleTransactionFailedError: class extends Error {},
+  getMerchantWallet: vi.fn(async () => ({ id: 'merchant-wallet', address: '0x1111111111111111111111111111111111111111' })),
+  transferToken: vi.fn(async () => ({ id: 'circle-tx' })),
+  watchCircleTransaction: vi.fn(),
+}));
+
+function entry(overrides: Partial<LedgerEntry> = {}): LedgerEntry {
+  return {
+    id: 'payment-1',
+    slug: 'arc-blockchain-guide',
+    title: 'Arc guide',
+    amount: 0.5,
+    payer: '0x2222222222222222222222222222222222222222',
+    txHash: '0xabc',
+    network: 'eip155:5042002',
+    asset: '0x3600000000000000000000000000000000000000',
+    state: 'settled',
+    timestamp: Date.now(),
+    ...overrides,
+  };
+}
+
+// Handlers passed to the latest watchCircleTransaction call
+function watchHandlers() {
+  const calls = vi.mocked(watchCircleTransaction).mock.calls;
+  return calls[calls.length - 1][1];
+}
+
+let dataDir: string;
+
+beforeEach(() => {
+  dataDir = mkdtempSync(join(tmpdir(), 'arc-refunds-'));
+  process.env.ARC_MERCHANT_DATA_DIR = dataDir;
+  process.env.LEDGER_BACKEND = 'memory';
+  globalThis.ledgerStore = undefined;
+  vi.clearAllMocks();
+});
+
+afterEach(() => {
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe('getRefundableAmount', () => {
+  it('is the amount paid for a settled payment', () => {
+    expect(getRefundableAmount(entry())).toBe(0.5);
+  });
+
+  it('is zero until the payment settles', () => {
+    expect(getRefundableAmount(entry({ state: 'pending', txHash: null }))).toBe(0);
+    expect(getRefundableAmount(entry({ state: 'failed' }))).toBe(0);
+  });
+
+  it('subtracts completed and pending refunds but not failed ones', () => {
+    const refund = { txHash: null, createdAt: Date.now() };
+    expect(getRefundableAmount(entry({
+      refunds: [
+        { ...refund, id: 'r1', amount: 0.1, state: 'completed' },
+        { ...refund, id: 'r2', amount: 0.2, state: 'pending' },
+        { ...refund, id: 'r3', amount: 0.15, state: 'failed' },
+      ],
+    }))).toBe(0.2);
+  });
+});
+
+describe('refundPayment', () => {
+  it('refuses a second refund while the first is unconfirmed', async () => {
+    getLedger().insert(entry());
+
+    const refund = await refundPayment('payment-1');
+    expect(refund).toMatchObject({ amount: 0.5, state: 'pending', circleTransactionId: 'circle-tx' });
+
+    await expect(refundPayment('payment-1')).rejects.toThrow('Refund amount must be between 0 and 0');
+    expect(transferToken).toHaveBeenCalledTimes(1);
+  });
+
+  it('reserves the amount before concurrent refunds reach Circle', async () => {
+    getLedger().insert(entry());
+
+    const results = await Promise.allSettled([refundPayment('payment-1'), refundPayment('payment-1')]);
+    expect(results.map(r => r.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(transferToken).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses to refund a pending payment', async () => {
+    getLedger().insert(entry({ state: 'pending', txHash: null }));
+
+    await expect(refundPayment('payment-1')).rejects.toThrow('Refund amount must be between 0 and 0');
+    expect(transferToken).not.toHaveBeenCalled();
+  });
+
+  it('completes the refund once Circle confirms it', async () => {
+    getLedger().insert(entry());
+    await refundPayment('payment-1', { amount: 0.2 });
+
+    watchHandlers().onComplete('0xrefund');
+
+    const [stored] = getLedger().list();
+    expect(stored.refunds).toMatchObject([{ amount: 0.2, state: 'completed', txHash: '0xrefund' }]);
+    expect(getRefundableAmount(stored)).toBe(0.3);
+  });
+
+  it('releases the amount when Circle reports the transfer failed', async () => {
+    getLedger().insert(entry());
+    await refundPayment('payment-1');
+
+    watchHandlers().onFailed(new CircleTransactionFailedError('Transaction was denied', 'DENIED'));
+
+    const [stored] = getLedger().list();
+    expect(stored.refunds).toMatchObject([{ state: 'failed', error: 'Transaction was denied' }]);
+    expect(getRefundableAmount(stored)).toBe(0.5);
+  });
+
+  it('releases the amount when Circle rejects the transfer', async () => {
+    const rejected = Object.assign(new Error('Request failed with status code 400'), { response: { status: 400 } });
+    vi.mocked(transferToken).mockRejectedValueOnce(rejected);
+    getLedger().insert(entry());
+
+    await expect(refundPayment('payment-1')).rejects.toThrow('Request failed with status code 400');
+
+    const [stored] = getLedger().list();
+    expect(stored.refunds).toMatchObject([{ state: 'failed', error: 'Request failed with status code 400' }]);
+    expect(getRefundableAmount(stored)).toBe(0.5);
+  });
+
+  it('keeps the amount reserved when the submission outcome is unknown', async () => {
+    vi.mocked(transferToken).mockRejectedValueOnce(new Error('socket hang up'));
+    getLedger().insert(entry());
+
+    const refund = await refundPayment('payment-1');
+    expect(refund).toMatchObject({ state: 'pending', error: 'socket hang up' });
+    expect(refund.circleTransactionId).toBeUndefined();
+
+    const [stored] = getLedger().list();
+    expect(stored.refunds).toMatchObject([{ state: 'pending', error: 'socket hang up' }]);
+    expect(getRefundableAmount(stored)).toBe(0);
+    expect(watchCircleTransaction).not.toHaveBeenCalled();
+  });
+});
+
+describe('resumePendingRefunds', () => {
+  it('submits a refund with an unknown outcome again under the same idempotency key', async () => {
+    vi.mocked(transferToken).mockRejectedValueOnce(new Error('socket hang up'));
+    getLedger().insert(entry());
+    const refund = await refundPayment('payment-1');
+
+    resumePendingRefunds();
+    await vi.waitFor(() => expect(watchCircleTransaction).toHaveBeenCalledWith('circle-tx', expect.anything()));
+
+    expect(transferToken).toHaveBeenCalledTimes(2);
+    const idempotencyKeys = vi.mocked(transferToken).mock.calls.map(call => call[4]);
+    expect(idempotencyKeys).toEqual([refund.id, refund.id]);
+    const [stored] = getLedger().list();
+    expect(stored.refunds?.[0]).toMatchObject({ state: 'pending', circleTransactionId: 'circle-tx' });
+    expect(stored.refunds?.[0].error).toBeUndefined();
+  });
+
+  it('watches submitted refunds again', async () => {
+    getLedger().insert(entry());
+    await refundPayment('payment-1');
+    vi.mocked(watchCircleTransaction).mockClear();
+
+    resumePendingRefunds();
+
+    expect(watchCircleTransaction).toHaveBeenCalledWith('circle-tx', expect.anything());
+    expect(transferToken).toHaveBeenCalledTimes(1);
+  });
+});
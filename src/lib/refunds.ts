@@ -0,0 +1,188 @@
+/**
+ * Merchant-initiated refunds
+ *
+ * Sends a full or partial refund of a recorded payment from the merchant
+ * wallet back to the payer, in the stablecoin the payment was made in.
+ * Refunds are stored on the payment's ledger entry with their own state and
+ * txHash; stats subtract completed and in-flight refunds from revenue.
+ *
+ * Only settled payments can be refunded: a pending one (e.g. an async
+ * settlement that has not landed) may never reach the merchant wallet.
+ *
+ * The Circle transfer is submitted synchronously; confirmation is polled in
+ * the background and moves the refund to `completed`, or to `failed` only
+ * when Circle rejects or reports the transfer FAILED, CANCELLED or DENIED.
+ * Until then the refund stays `pending` and keeps counting against the
+ * refundable amount, so a slow transfer cannot be refunded a second time. A
+ * submission whose outcome is unknown (timeout, 5xx) is retried with the
+ * same Circle idempotency key.
+ */
+
+import { randomUUID } from 'crypto';
+import { CircleTransactionFailedError, getMerchantWallet, transferToken, watchCircleTransaction } from './circle-wallet';
+import { getStablecoinByAddress, STABLECOINS } from './currency';
+import { publishDashboardEvent } from './events';
+import { getLedger, getRefundedAmount, LedgerEntry, Refund } from './ledger';
+
+/**
+ * Amount that can still be refunded for a payment
+ */
+export function getRefundableAmount(entry: LedgerEntry): number {
+  if (entry.state !== 'settled') return 0;
+  return Math.max(0, Math.round((entry.amount - getRefundedAmount(entry)) * 1_000_000) / 1_000_000);
+}
+
+/**
+ * Find a recorded payment by ledger ID
+ */
+export function getPayment(paymentId: string): LedgerEntry | undefined {
+  return getLedger().list().find(entry => entry.id === paymentId);
+}
+
+function updateRefund(paymentId: string, refundId: string, patch: Partial<Refund>) {
+  const entry = getPayment(paymentId);
+  if (!entry) return;
+
+  const refunds = (entry.refunds || []).map(r => r.id === refundId ? { ...r, ...patch } : r);
+  getLedger().update(paymentId, { refunds });
+  publishDashboardEvent('refund.updated', { paymentId, refund: refunds.find(r => r.id === refundId) });
+}
+
+// Complete or fail a submitted refund once Circle reports its transfer final
+function confirmRefund(paymentId: string, refundId: string, transactionId: string) {
+  watchCircleTransaction(transactionId, {
+    onComplete: txHash => {
+      updateRefund(paymentId, refundId, { state: 'completed', txHash, completedAt: Date.now() });
+      console.log(`↩️ Refund ${refundId} completed: ${txHash}`);
+    },
+    onFailed: error => {
+      updateRefund(paymentId, refundId, { state: 'failed', error: error.message });
+      console.error(`Refund ${refundId} failed:`, error.message);
+    },
+  });
+}
+
+// Whether Circle clearly refused a transfer: a transaction it reported
+// FAILED, CANCELLED or DENIED, or a 4xx answer other than a conflict, timeout
+// or rate limit. Anything else (network errors, timeouts, 5xx) leaves the
+// outcome unknown.
+function isRejectedByCircle(error: unknown): boolean {
+  if (error instanceof CircleTransactionFailedError) return true;
+  const status = (error as { response?: { status?: unknown } } | null)?.response?.status;
+  return typeof status === 'number' && status >= 400 && status < 500 && ![408, 409, 429].includes(status);
+}
+
+// Refunds with a transfer being submitted in this process
+declare global {
+  var submittingRefunds: Set<string> | undefined;
+}
+
+// Submit a reserved refund to Circle, then confirm it in the background
+//
+// The refund ID is the Circle idempotency key, so submitting again after an
+// unknown outcome cannot send the refund twice. Only a clear rejection fails
+// the refund and releases its amount; otherwise it stays `pending` and is
+// submitted again by resumePendingRefunds().
+async function submitRefund(entry: LedgerEntry, refund: Refund): Promise<Refund> {
+  if (!globalThis.submittingRefunds) globalThis.submittingRefunds = new Set();
+  const submitting = globalThis.submittingRefunds;
+  submitting.add(refund.id);
+
+  const coin = getStablecoinByAddress(entry.asset) || STABLECOINS.USD;
+
+  try {
+    const merchant = await getMerchantWallet(entry.merchantId);
+    const transaction = await transferToken(
+      merchant.address,
+      entry.payer,
+      refund.amount.toFixed(coin.decimals),
+      coin.address,
+      refund.id
+    );
+    if (!transaction?.id) {
+      throw new Error('Circle did not return a transaction ID');
+    }
+
+    const submitted: Refund = { ...refund, circleTransactionId: transaction.id };
+    delete submitted.error;
+    updateRefund(entry.id, refund.id, { circleTransactionId: transaction.id, error: undefined });
+    console.log(`↩️ Refund ${refund.id}: ${refund.amount} ${coin.symbol} to ${entry.payer} (Circle tx ${transaction.id})`);
+
+    // Confirm in the background; the caller gets the pending refund right away
+    confirmRefund(entry.id, refund.id, transaction.id);
+    return submitted;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (isRejectedByCircle(error)) {
+      // Refused: nothing was sent, so the amount is released
+      updateRefund(entry.id, refund.id, { state: 'failed', error: message });
+      throw error;
+    }
+
+    // Circle may have created the transfer: keep the amount reserved
+    console.warn(`Refund ${refund.id} outcome unknown, will submit again:`, message);
+    updateRefund(entry.id, refund.id, { error: message });
+    return { ...refund, error: message };
+  } finally {
+    submitting.delete(refund.id);
+  }
+}
+
+/**
+ * Resume refunds still `pending` (e.g. after a restart)
+ *
+ * Submitted ones are polled again; ones whose submission had an unknown
+ * outcome are submitted again under the same idempotency key.
+ */
+export function resumePendingRefunds() {
+  for (const entry of getLedger().list()) {
+    for (const refund of entry.refunds || []) {
+      if (refund.state !== 'pending') continue;
+      if (refund.circleTransactionId) {
+        confirmRefund(entry.id, refund.id, refund.circleTransactionId);
+      } else if (!globalThis.submittingRefunds?.has(refund.id)) {
+        submitRefund(entry, refund).catch(error => {
+          console.error(`Refund ${refund.id} rejected by Circle:`, error);
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Refund a recorded payment
+ *
+ * Refunds the remaining refundable amount when no amount is given.
+ * Throws if the payment is unknown, the amount exceeds what is refundable or
+ * Circle rejects the transfer. A refund whose submission had an unknown
+ * outcome is returned `pending` with its `error`, and submitted again later.
+ */
+export async function refundPayment(
+  paymentId: string,
+  options: { amount?: number; reason?: string } = {}
+): Promise<Refund> {
+  const entry = getPayment(paymentId);
+  if (!entry) {
+    throw new Error(`Payment not found: ${paymentId}`);
+  }
+
+  const refundable = getRefundableAmount(entry);
+  const amount = options.amount ?? refundable;
+  if (amount <= 0 || amount > refundable) {
+    throw new Error(`Refund amount must be between 0 and ${refundable}`);
+  }
+
+  // Reserve the amount before any await so concurrent refunds cannot overshoot
+  const refund: Refund = {
+    id: randomUUID(),
+    amount,
+    ...(options.reason && { reason: options.reason }),
+    txHash: null,
+    state: 'pending',
+    createdAt: Date.now(),
+  };
+  getLedger().update(paymentId, { refunds: [...(entry.refunds || []), refund] });
+  publishDashboardEvent('refund.updated', { paymentId, refund });
+
+  return submitRefund(entry, refund);
+}
@@ -0,0 +1,205 @@
+/**
+ * Paywalled resource definitions
+ *
+ * Single source of the x402 route config for every paywalled resource.
+ * The paywall helper (./paywall) enforces these configs and the discovery
+ * manifest (/.well-known/x402) lists the very same configs, so what is
+ * advertised always matches what is enforced.
+ */
+
+import type { PaymentOption, RouteConfig } from '@x402/core/http';
+import type { AssetAmount } from '@x402/core/types';
+import type { Article } from '../data/articles';
+import type { Bundle } from '../data/bundles';
+import { buildArticlePreview } from './articles';
+import { CouponQuote, quoteCoupon } from './coupons';
+import { assetSymbol, Currency, Stablecoin } from './currency';
+import { resolveMerchant } from './merchants';
+import type { PassProduct } from './passes';
+import { PriceQuote, quotePrice } from './pricing';
+import { buildPaymentOptions, getPayToAddress } from './x402';
+
+export type PaywalledResourceType = 'article' | 'bundle' | 'pass' | 'api';
+
+// Declarative description of a paid endpoint (see ./paywall)
+export interface PaywallOptions {
+  slug: string; // ledger and receipt key
+  path: string; // public path, listed in the discovery manifest
+  type?: PaywalledResourceType; // default: api
+  title?: string; // ledger title, defaults to description
+  description: string;
+  price: number; // base price, in `currency`
+  currency?: Currency; // default: USD
+  assets?: Stablecoin['symbol'][]; // restrict accepted stablecoins (default: ACCEPTED_STABLECOINS)
+  merchantId?: string; // default merchant when omitted
+  mimeType?: string; // default: application/json
+  tags?: string[]; // for pricing rules and tag-scoped passes
+  publishedAt?: string;
+  dynamicPricing?: boolean; // apply pricing rules (default: true)
+  unpaidResponseBody?: RouteConfig['unpaidResponseBody'];
+}
+
+export interface PaywalledResource {
+  type: PaywalledResourceType;
+  slug: string;
+  path: string;
+  title: string;
+  tags?: string[];
+  price: number; // in `currency`, after pricing rules and coupon
+  currency: Currency;
+  merchantId: string;
+  quote?: PriceQuote;
+  coupon?: CouponQuote; // when the request presented a code
+  routeConfig: RouteConfig;
+}
+
+export const PREMIUM_PAYWALL: PaywallOptions = {
+  slug: 'premium',
+  path: '/api/premium',
+  description: 'Premium AI insight about Arc blockchain',
+  price: 0.01,
+};
+
+// Fixed-path paywalls, listed in the discovery manifest next to the catalog
+export const STATIC_PAYWALLS: PaywallOptions[] = [PREMIUM_PAYWALL];
+
+// x402 default when a payment option sets no timeout
+const DEFAULT_MAX_TIMEOUT_SECONDS = 300;
+
+export interface AdvertisedRequirement {
+  scheme: string;
+  network: string;
+  amount: string; // smallest token units
+  asset: string;
+  assetSymbol: string;
+  payTo: string;
+  maxTimeoutSeconds: number;
+  extra?: Record<string, unknown>;
+}
+
+/**
+ * The payment requirements a resource's 402 will contain
+ *
+ * Mirrors how the x402 server turns our fixed-amount payment options
+ * into requirements, without a round trip to the facilitator.
+ */
+export function advertisedRequirements(resource: PaywalledResource): AdvertisedRequirement[] {
+  const options: PaymentOption[] = ([] as PaymentOption[]).concat(resource.routeConfig.accepts);
+
+  return options.map(option => {
+    const price = option.price as AssetAmount;
+    return {
+      scheme: option.scheme,
+      network: option.network,
+      amount: price.amount,
+      asset: price.asset,
+      assetSymbol: assetSymbol(price.asset),
+      payTo: option.payTo as string,
+      maxTimeoutSeconds: option.maxTimeoutSeconds || DEFAULT_MAX_TIMEOUT_SECONDS,
+      ...(option.extra && { extra: option.extra }),
+    };
+  });
+}
+
+/**
+ * Resolve price, merchant and x402 route config for a paywall
+ *
+ * A coupon code applies on top of pricing rules, including on fixed-price
+ * resources (dynamicPricing: false).
+ */
+export async function buildResource(
+  options: PaywallOptions,
+  payer: string | null = null,
+  couponCode: string | null = null
+): Promise<PaywalledResource> {
+  const currency = options.currency || 'USD';
+  const merchant = resolveMerchant(options.merchantId);
+
+  // Resolve the current price (promotions, decay, volume tiers, ...)
+  const quote = options.dynamicPricing === false
+    ? undefined
+    : quotePrice({ slug: options.slug, basePrice: options.price, tags: options.tags, publishedAt: options.publishedAt }, payer);
+  const listPrice = quote ? quote.price : options.price;
+
+  const coupon = couponCode ? quoteCoupon(couponCode, { slug: options.slug, tags: options.tags }, listPrice, payer) : undefined;
+  const price = coupon?.status === 'applied' ? coupon.price : listPrice;
+
+  return {
+    type: options.type || 'api',
+    slug: options.slug,
+    path: options.path,
+    title: options.title || options.description,
+    ...(options.tags && { tags: options.tags }),
+    price,
+    currency,
+    merchantId: merchant.id,
+    ...(quote && { quote }),
+    ...(coupon && { coupon }),
+    routeConfig: {
+      accepts: await buildPaymentOptions(price, currency, await getPayToAddress(merchant.id), options.assets),
+      description: options.description,
+      mimeType: options.mimeType || 'application/json',
+      ...(options.unpaidResponseBody && { unpaidResponseBody: options.unpaidResponseBody }),
+    },
+  };
+}
+
+/**
+ * Paywall for a single article
+ */
+export function articlePaywall(article: Article): PaywallOptions {
+  return {
+    type: 'article',
+    slug: article.slug,
+    path: `/api/article/${article.slug}`,
+    description: article.title,
+    price: article.priceUsd,
+    currency: article.currency,
+    merchantId: article.merchantId,
+    tags: article.tags,
+    publishedAt: article.publishedAt,
+    // Teaser in the 402 body so buyers can judge the article before paying
+    unpaidResponseBody: () => ({
+      contentType: 'application/json',
+      body: { preview: buildArticlePreview(article) },
+    }),
+  };
+}
+
+/**
+ * Paywall for a bundle of articles (fixed price, no pricing rules)
+ */
+export function bundlePaywall(bundle: Bundle, articles: Article[]): PaywallOptions {
+  return {
+    type: 'bundle',
+    slug: bundle.slug,
+    path: `/api/bundle/${bundle.slug}`,
+    description: `${bundle.title} (${articles.length} articles)`,
+    price: bundle.priceUsd,
+    currency: bundle.currency,
+    merchantId: bundle.merchantId,
+    dynamicPricing: false,
+  };
+}
+
+/**
+ * Human-readable pass product description
+ */
+export function describePassProduct(product: PassProduct): string {
+  return product.tag ? `${product.title} (articles tagged "${product.tag}")` : product.title;
+}
+
+/**
+ * Paywall for a time-based pass product (fixed price, no pricing rules)
+ */
+export function passPaywall(product: PassProduct): PaywallOptions {
+  return {
+    type: 'pass',
+    slug: `pass:${product.id}`,
+    path: `/api/pass/${product.id}`,
+    description: describePassProduct(product),
+    price: product.priceUsd,
+    merchantId: product.merchantId,
+    dynamicPricing: false,
+  };
+}
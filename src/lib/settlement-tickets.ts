@@ -0,0 +1,199 @@
+/**
+ * Queued settlement tracking
+ *
+ * In async settlement mode (SETTLEMENT_MODE=async, see ./x402) paid content
+ * is served as soon as the facilitator verified the payment, and the ledger
+ * entry stays pending with the facilitator's settlement ticket. This module
+ * polls the facilitator's GET /settlements/:id for those tickets:
+ * - settled: the entries are marked settled (splits accrue, payment.settled
+ *   webhook); when the facilitator lost track of the hash, reconciliation
+ *   fills it in by nonce
+ * - failed: the entries are marked failed with the reason and a
+ *   payment.failed webhook goes out; they drop out of revenue totals
+ * - unknown to the facilitator (404, e.g. an in-memory queue after a
+ *   restart): nothing is concluded. The entries stay pending, are flagged
+ *   with `settlementTicketLost` and are no longer polled; on-chain
+ *   reconciliation (see ./reconcile) settles them by nonce if the transfer
+ *   landed, or flags them orphaned
+ *
+ * Access receipts issued for a payment whose settlement later fails stay
+ * valid until they expire. Passes bought with it are revoked when the
+ * settlement fails or its ticket is lost, and reinstated if it turns out to
+ * have landed (see ./passes).
+ *
+ * Polls every SETTLEMENT_POLL_SECONDS (default: 10) while tickets are open.
+ */
+
+import { getLedger, LedgerEntry } from './ledger';
+import { confirmPasses, revokePasses } from './passes';
+import { accruePayoutShares } from './payouts';
+import { ensureReconciliationScheduler } from './reconcile';
+import { failPayment, settlePayment } from './stats';
+import { emitWebhookEvent, PaymentEventData, WebhookEventType } from './webhooks';
+import { FACILITATOR_URL, facilitatorAuthHeaders, isAsyncSettlement } from './x402';
+
+// The part of the facilitator's settlement ticket we rely on
+export interface SettlementTicketStatus {
+  id: string;
+  state: 'queued' | 'settling' | 'settled' | 'failed';
+  transaction: string | null;
+  errorReason: string | null;
+  attempts: number;
+  lastError: string | null;
+}
+
+export interface SettlementSyncRun {
+  checkedAt: number;
+  open: number; // tickets checked
+  settled: number;
+  failed: number;
+  lost: number; // tickets the facilitator no longer knows, left to reconciliation
+  errors: number; // tickets the facilitator could not be asked about
+}
+
+declare global {
+  var settlementTicketPoller: ReturnType<typeof setInterval> | undefined;
+  var settlementTicketSync: Promise<SettlementSyncRun> | undefined;
+}
+
+const DEFAULT_POLL_SECONDS = 10;
+
+/**
+ * Pending ledger entries waiting on a settlement ticket, grouped by ticket
+ */
+export function getOpenTickets(): Map<string, LedgerEntry[]> {
+  const open = new Map<string, LedgerEntry[]>();
+  for (const entry of getLedger().list()) {
+    if (entry.state !== 'pending' || !entry.settlementTicket || entry.settlementTicketLost) continue;
+    open.set(entry.settlementTicket, [...(open.get(entry.settlementTicket) || []), entry]);
+  }
+  return open;
+}
+
+async function fetchTicket(id: string): Promise<SettlementTicketStatus | null> {
+  const response = await fetch(`${FACILITATOR_URL}/settlements/${encodeURIComponent(id)}`, {
+    headers: facilitatorAuthHeaders(),
+  });
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Facilitator responded ${response.status} for settlement ${id}`);
+  }
+  return (await response.json()) as SettlementTicketStatus;
+}
+
+// One webhook per purchase, even when a bundle spans several entries
+function notifyWebhooks(type: WebhookEventType, entries: LedgerEntry[], txHash: string | null, error?: string) {
+  const [first] = entries;
+  const data: PaymentEventData = {
+    slug: first.bundleSlug || first.slug,
+    merchantId: first.merchantId || null,
+    resource: null,
+    payer: first.payer,
+    amount: Math.round(entries.reduce((sum, e) => sum + e.amount, 0) * 1_000_000) / 1_000_000,
+    asset: first.asset,
+    network: first.network,
+    txHash,
+    ...(error && { error }),
+  };
+  try {
+    emitWebhookEvent(type, data);
+  } catch (err) {
+    console.error(`Failed to queue ${type} webhook:`, err);
+  }
+}
+
+async function syncTickets(): Promise<SettlementSyncRun> {
+  const open = getOpenTickets();
+  const run: SettlementSyncRun = { checkedAt: Date.now(), open: open.size, settled: 0, failed: 0, lost: 0, errors: 0 };
+
+  for (const [id, entries] of open) {
+    let ticket: SettlementTicketStatus | null;
+    try {
+      ticket = await fetchTicket(id);
+    } catch (error) {
+      run.errors++;
+      console.error(`Failed to check settlement ${id}:`, error);
+      continue;
+    }
+
+    if (!ticket) {
+      // Unknown is not failed: the settlement may well have landed
+      const lostAt = Date.now();
+      for (const entry of entries) {
+        getLedger().update(entry.id, { settlementTicketLost: lostAt });
+      }
+      revokePasses(id, 'settlement_ticket_lost');
+      run.lost++;
+      run.errors++;
+      console.warn(`🎫 Facilitator does not know settlement ${id}; left pending for reconciliation`);
+    } else if (ticket.state === 'settled') {
+      const txHash = ticket.transaction || null;
+      for (const entry of entries) {
+        const settled = settlePayment(entry.id, txHash);
+        if (settled) accruePayoutShares(settled);
+      }
+      confirmPasses(id, txHash);
+      notifyWebhooks('payment.settled', entries, txHash);
+      run.settled++;
+      console.log(`🎫 Settlement ${id} landed${txHash ? `: ${txHash}` : ''}`);
+    } else if (ticket.state === 'failed') {
+      const reason = ticket.errorReason || 'settlement_failed';
+      for (const entry of entries) {
+        failPayment(entry.id, reason);
+      }
+      revokePasses(id, reason);
+      notifyWebhooks('payment.failed', entries, null, reason);
+      run.failed++;
+      console.log(`🎫 Settlement ${id} failed: ${reason}`);
+    }
+  }
+
+  if (run.lost > 0) ensureReconciliationScheduler();
+  return run;
+}
+
+/**
+ * Open, lost and failed queued settlements, for the admin API
+ */
+export function getSettlementReport() {
+  const open = [...getOpenTickets()].map(([ticket, entries]) => ({ ticket, entries }));
+  const entries = getLedger().list();
+  const lost = entries.filter(e => e.state === 'pending' && e.settlementTicketLost);
+  const failed = entries.filter(e => e.state === 'failed' && e.settlementTicket);
+  return { mode: isAsyncSettlement() ? 'async' : 'sync', open, lost, failed };
+}
+
+/**
+ * Check every open settlement ticket with the facilitator
+ *
+ * Concurrent calls share the sync in progress.
+ */
+export function runSettlementSync(): Promise<SettlementSyncRun> {
+  if (!globalThis.settlementTicketSync) {
+    globalThis.settlementTicketSync = syncTickets().finally(() => {
+      globalThis.settlementTicketSync = undefined;
+    });
+  }
+  return globalThis.settlementTicketSync;
+}
+
+/**
+ * Start polling open settlement tickets
+ *
+ * Called when a queued payment is recorded (and by the admin API, to resume
+ * after a restart); the poller stops by itself once no ticket is open.
+ */
+export function ensureSettlementTicketPoller() {
+  if (globalThis.settlementTicketPoller || getOpenTickets().size === 0) return;
+  const seconds = parseFloat(process.env.SETTLEMENT_POLL_SECONDS || String(DEFAULT_POLL_SECONDS));
+
+  globalThis.settlementTicketPoller = setInterval(() => {
+    runSettlementSync()
+      .then(run => {
+        if (run.open - run.settled - run.failed - run.lost > 0 || !globalThis.settlementTicketPoller) return;
+        clearInterval(globalThis.settlementTicketPoller);
+        globalThis.settlementTicketPoller = undefined;
+      })
+      .catch(error => console.error('Settlement ticket sync failed:', error));
+  }, seconds * 1000);
+}
@@ -1,30 +1,51 @@
 /**
- * In-memory stats tracking for merchant dashboard
+ * Stats tracking for merchant dashboard
  *
- * Tracks payments processed through x402 paywalled articles.
- * Stats persist while the server is running.
+ * Payments are stored in the durable ledger (see ./ledger) so revenue
+ * survives restarts. Dashboard aggregates are computed from the ledger;
+ * only the wallet balance cache lives in memory.
  */
 
+import { clearImpressions, getConversionStats, getTimeSeries } from './analytics';
+import { ARC_CONTRACTS } from './arc';
+import { assetSymbol, CURRENCIES, Currency, getFxProvider, getStablecoinByAddress } from './currency';
+import { publishDashboardEvent } from './events';
+import { AppliedCoupon, createLedgerId, getLedger, getRefundedAmount, LedgerEntry, SettlementState } from './ledger';
+
+// Arc network identifier (mirrors ARC_NETWORK in ./x402, which needs Circle credentials to import)
+const DEFAULT_NETWORK = 'eip155:5042002';
+
+// Currency the dashboard totals are reported in
+const REPORTING_CURRENCY: Currency = 'USD';
+
 export interface Payment {
   slug: string;
-  amount: number; // in USDC
+  amount: number; // in units of `asset` (USDC unless set)
   txHash: string | null;
   payer: string;
   timestamp: number;
+  network?: string;
+  asset?: string;
+  state?: SettlementState;
+  nonce?: string;
+  settlementTicket?: string;
+  purchaseId?: string;
+  bundleSlug?: string;
+  merchantId?: string;
+  coupon?: AppliedCoupon;
 }
 
 export interface ArticleStats {
   slug: string;
   title: string;
-  views: number;
+  views: number; // paid views
   revenue: number;
+  refunded: number;
+  impressions: number; // 402 challenges served
+  conversionRate: number | null;
 }
 
 interface StatsStore {
-  payments: Payment[];
-  articleStats: Map<string, ArticleStats>;
-  totalRevenue: number;
-  totalPayments: number;
   // Balance + wallet cache (fetched together)
   cachedBalance: string | null;
   cachedWalletId: string | null;
@@ -35,16 +56,11 @@ interface StatsStore {
 
 // Extend globalThis to persist store across Next.js hot reloads
 declare global {
-  // eslint-disable-next-line no-var
   var statsStore: StatsStore | undefined;
 }
 
 // Use globalThis to persist across module reloads in development
 const store: StatsStore = globalThis.statsStore || {
-  payments: [],
-  articleStats: new Map(),
-  totalRevenue: 0,
-  totalPayments: 0,
   cachedBalance: null,
   cachedWalletId: null,
   cachedWalletAddress: null,
@@ -56,64 +72,138 @@ const store: StatsStore = globalThis.statsStore || {
 globalThis.statsStore = store;
 
 /**
- * Record a successful payment
+ * Record a successful payment in the ledger
  */
-export function recordPayment(payment: Payment, articleTitle: string) {
-  // Add to payments list (keep last 50)
-  store.payments.unshift(payment);
-  if (store.payments.length > 50) {
-    store.payments.pop();
-  }
+export function recordPayment(payment: Payment, articleTitle: string): LedgerEntry {
+  const entry: LedgerEntry = {
+    id: createLedgerId(),
+    slug: payment.slug,
+    title: articleTitle,
+    amount: payment.amount,
+    payer: payment.payer,
+    txHash: payment.txHash,
+    network: payment.network || DEFAULT_NETWORK,
+    asset: payment.asset || ARC_CONTRACTS.USDC,
+    state: payment.state || (payment.txHash ? 'settled' : 'pending'),
+    timestamp: payment.timestamp,
+    ...(payment.nonce && { nonce: payment.nonce }),
+    ...(payment.settlementTicket && { settlementTicket: payment.settlementTicket }),
+    ...(payment.purchaseId && { purchaseId: payment.purchaseId }),
+    ...(payment.bundleSlug && { bundleSlug: payment.bundleSlug }),
+    ...(payment.merchantId && { merchantId: payment.merchantId }),
+    ...(payment.coupon && { coupon: payment.coupon }),
+  };
 
-  // Update totals
-  store.totalPayments++;
-  store.totalRevenue += payment.amount;
-
-  // Update article stats
-  const existing = store.articleStats.get(payment.slug);
-  if (existing) {
-    existing.views++;
-    existing.revenue += payment.amount;
-  } else {
-    store.articleStats.set(payment.slug, {
-      slug: payment.slug,
-      title: articleTitle,
-      views: 1,
-      revenue: payment.amount,
-    });
-  }
+  getLedger().insert(entry);
 
   // Mark balance as needing refresh
   store.balanceNeedsRefresh = true;
+  publishDashboardEvent('payment.recorded', { payment: entry });
+
+  return entry;
 }
 
 /**
  * Get all stats for the dashboard
+ *
+ * Revenue totals, per-article revenue and the time series are converted to
+ * `currency` (USD) with the active FX provider, so USDC and EURC payments
+ * add up; revenueByAsset keeps each coin's face value. Revenue figures are
+ * gross; netRevenue subtracts refunds (including ones still being sent).
+ * Conversion figures compare purchases with 402 impressions (see ./analytics).
  */
-export function getStats() {
+export async function getStats() {
+  const entries = getLedger().list().filter(e => e.state !== 'failed');
+  const articleStats = new Map<string, ArticleStats>();
+  const revenueByAsset: Record<string, number> = {};
+  let totalRevenue = 0;
+  let totalRefunded = 0;
+
+  // One rate per currency for the whole snapshot
+  const rates = Object.fromEntries(await Promise.all(
+    CURRENCIES.map(async currency => [currency, await getFxProvider().getRate(currency, REPORTING_CURRENCY)] as const)
+  )) as Record<Currency, number>;
+  const converted = (entry: LedgerEntry, amount: number) =>
+    amount * rates[getStablecoinByAddress(entry.asset)?.currency || REPORTING_CURRENCY];
+
+  for (const entry of entries) {
+    const revenue = converted(entry, entry.amount);
+    const refunded = converted(entry, getRefundedAmount(entry));
+    totalRevenue += revenue;
+    totalRefunded += refunded;
+
+    const symbol = assetSymbol(entry.asset);
+    revenueByAsset[symbol] = (revenueByAsset[symbol] || 0) + entry.amount;
+
+    const existing = articleStats.get(entry.slug);
+    if (existing) {
+      existing.views++;
+      existing.revenue += revenue;
+      existing.refunded += refunded;
+    } else {
+      articleStats.set(entry.slug, {
+        slug: entry.slug,
+        title: entry.title,
+        views: 1,
+        revenue,
+        refunded,
+        impressions: 0,
+        conversionRate: null,
+      });
+    }
+  }
+
+  const conversionStats = getConversionStats(entries);
+  for (const conversion of conversionStats) {
+    const stat = articleStats.get(conversion.slug);
+    if (stat) {
+      stat.impressions = conversion.impressions;
+      stat.conversionRate = conversion.conversionRate;
+    }
+  }
+  const totalImpressions = conversionStats.reduce((sum, c) => sum + c.impressions, 0);
+  const totalPayments = new Set(entries.map(e => e.purchaseId || e.id)).size;
+
   return {
-    totalRevenue: store.totalRevenue,
-    totalPayments: store.totalPayments,
-    recentPayments: store.payments.slice(0, 10),
-    articleStats: Array.from(store.articleStats.values()).sort(
+    currency: REPORTING_CURRENCY,
+    totalRevenue,
+    totalRefunded,
+    netRevenue: totalRevenue - totalRefunded,
+    // Bundle purchases are split across entries but count as one payment
+    totalPayments,
+    totalImpressions,
+    conversionRate: totalImpressions > 0 ? totalPayments / totalImpressions : null,
+    revenueByAsset,
+    recentPayments: entries.slice(0, 10).map(entry => ({
+      ...entry,
+      assetSymbol: assetSymbol(entry.asset),
+      refundedAmount: getRefundedAmount(entry),
+    })),
+    articleStats: Array.from(articleStats.values()).sort(
       (a, b) => b.revenue - a.revenue
     ),
+    conversionStats,
+    timeSeries: {
+      hourly: getTimeSeries(entries, 'hour', 24, entry => converted(entry, entry.amount)),
+      daily: getTimeSeries(entries, 'day', 30, entry => converted(entry, entry.amount)),
+    },
   };
 }
 
 /**
  * Reset stats (for testing)
+ *
+ * Clears recorded impressions and the balance cache. The payment ledger is
+ * accounting history and is never cleared from here.
  */
 export function resetStats() {
-  store.payments = [];
-  store.articleStats.clear();
-  store.totalRevenue = 0;
-  store.totalPayments = 0;
+  clearImpressions();
   store.cachedBalance = null;
   store.cachedWalletId = null;
   store.cachedWalletAddress = null;
   store.balanceCacheTime = 0;
   store.balanceNeedsRefresh = true;
+  publishDashboardEvent('stats.reset');
 }
 
 // Balance cache TTL: 30 seconds
@@ -142,13 +232,20 @@ export function getCachedBalance(): string | null {
 
 /**
  * Update the cached balance and wallet
+ *
+ * Publishes balance.updated when the balance changed.
  */
 export function setCachedBalance(balance: string, walletId: string, walletAddress: string) {
+  const changed = store.cachedBalance !== balance;
   store.cachedBalance = balance;
   store.cachedWalletId = walletId;
   store.cachedWalletAddress = walletAddress;
   store.balanceCacheTime = Date.now();
   store.balanceNeedsRefresh = false;
+
+  if (changed) {
+    publishDashboardEvent('balance.updated', { balance, wallet: { id: walletId, address: walletAddress } });
+  }
 }
 
 /**
@@ -163,17 +260,43 @@ export function getCachedWallet(): { id: string; address: string } | null {
 
 /**
  * Update a payment's transaction hash
- * Called after settlement when the txHash becomes available
+ * Called after settlement when the txHash becomes available.
+ * Returns the settled entry, or null if no pending payment matched.
  */
-export function updatePaymentTxHash(slug: string, payer: string, txHash: string): boolean {
+export function updatePaymentTxHash(slug: string, payer: string, txHash: string): LedgerEntry | null {
   // Find the most recent payment matching slug and payer without a txHash
-  const payment = store.payments.find(
+  const payment = getLedger().list().find(
     p => p.slug === slug && p.payer.toLowerCase() === payer.toLowerCase() && !p.txHash
   );
 
-  if (payment) {
-    payment.txHash = txHash;
-    return true;
+  return payment ? settlePayment(payment.id, txHash) : null;
+}
+
+/**
+ * Mark a ledger entry settled with its transaction hash
+ *
+ * The hash is null when a queued settlement landed without one being known;
+ * reconciliation fills it in by nonce. Returns the updated entry, or null if
+ * no entry has the given ID.
+ */
+export function settlePayment(id: string, txHash: string | null): LedgerEntry | null {
+  const updated = getLedger().update(id, { txHash, state: 'settled' });
+  if (updated) {
+    store.balanceNeedsRefresh = true;
+    publishDashboardEvent('payment.settled', { payment: updated });
+  }
+  return updated;
+}
+
+/**
+ * Mark a ledger entry failed, e.g. a queued settlement that never landed
+ *
+ * Returns the updated entry, or null if no entry has the given ID.
+ */
+export function failPayment(id: string, error: string): LedgerEntry | null {
+  const updated = getLedger().update(id, { state: 'failed', settlementError: error });
+  if (updated) {
+    publishDashboardEvent('payment.failed', { payment: updated });
   }
-  return false;
+  return updated;
 }
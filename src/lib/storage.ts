@@ -0,0 +1,49 @@
+/**
+ * Local persistence helpers
+ *
+ * Durable merchant state lives in plain files under a data directory so it
+ * survives server restarts and redeploys (mount a volume there on Railway).
+ * The directory is configured with ARC_MERCHANT_DATA_DIR (default: ./.data).
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+
+/**
+ * Get the absolute path of the data directory
+ */
+export function getDataDir(): string {
+  return resolve(process.env.ARC_MERCHANT_DATA_DIR || '.data');
+}
+
+/**
+ * Resolve a file inside the data directory, creating parent folders as needed
+ */
+export function dataFilePath(name: string): string {
+  const path = resolve(getDataDir(), name);
+  mkdirSync(dirname(path), { recursive: true });
+  return path;
+}
+
+/**
+ * Read a JSON document from the data directory
+ *
+ * Returns the fallback when the file does not exist yet.
+ */
+export function readJsonFile<T>(name: string, fallback: T): T {
+  const path = dataFilePath(name);
+  if (!existsSync(path)) return fallback;
+  return JSON.parse(readFileSync(path, 'utf8')) as T;
+}
+
+/**
+ * Write a JSON document to the data directory
+ *
+ * Writes to a temp file and renames it so readers never see a partial file.
+ */
+export function writeJsonFile<T>(name: string, data: T) {
+  const path = dataFilePath(name);
+  const tmpPath = `${path}.${process.pid}.tmp`;
+  writeFileSync(tmpPath, JSON.stringify(data, null, 2));
+  renameSync(tmpPath, path);
+}
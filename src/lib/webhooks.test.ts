@@ -0,0 +1,67 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { emitWebhookEvent, listWebhookDeliveries, PaymentEventData, registerWebhookEndpoint } from './webhooks';
+
+function payment(merchantId: string | null): PaymentEventData {
+  return {
+    slug: 'arc-blockchain-guide',
+    merchantId,
+    resource: null,
+    payer: '0x2222222222222222222222222222222222222222',
+    amount: 0.01,
+    asset: '0x3600000000000000000000000000000000000000',
+    network: 'eip155:5042002',
+    txHash: '0xabc',
+  };
+}
+
+let dataDir: string;
+
+beforeEach(() => {
+  dataDir = mkdtempSync(join(tmpdir(), 'arc-webhooks-'));
+  process.env.ARC_MERCHANT_DATA_DIR = dataDir;
+  // Deliveries stay pending: their timers never fire
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.clearAllTimers();
+  vi.useRealTimers();
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe('emitWebhookEvent', () => {
+  it("delivers a merchant's events only to its endpoints and to endpoints without a merchant", () => {
+    const acme = registerWebhookEndpoint('https://acme.example/hook', undefined, 'acme');
+    const other = registerWebhookEndpoint('https://other.example/hook', undefined, 'other');
+    const everything = registerWebhookEndpoint('https://ops.example/hook');
+
+    emitWebhookEvent('payment.settled', payment('acme'));
+
+    const endpointIds = listWebhookDeliveries().map(d => d.endpointId);
+    expect(endpointIds).toEqual(expect.arrayContaining([acme.id, everything.id]));
+    expect(endpointIds).not.toContain(other.id);
+  });
+
+  it('keeps events without a known merchant from merchant endpoints', () => {
+    registerWebhookEndpoint('https://acme.example/hook', undefined, 'acme');
+    const everything = registerWebhookEndpoint('https://ops.example/hook');
+
+    emitWebhookEvent('payment.failed', payment(null));
+
+    expect(listWebhookDeliveries().map(d => d.endpointId)).toEqual([everything.id]);
+  });
+});
+
+describe('listWebhookDeliveries', () => {
+  it("filters the log by the event's merchant", () => {
+    registerWebhookEndpoint('https://ops.example/hook');
+    emitWebhookEvent('payment.settled', payment('acme'));
+    emitWebhookEvent('payment.settled', payment('other'));
+
+    expect(listWebhookDeliveries({ merchantId: 'acme' })).toMatchObject([{ event: { data: { merchantId: 'acme' } } }]);
+    expect(listWebhookDeliveries()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,299 @@
+/**
+ * Merchant webhooks
+ *
+ * Merchants register HTTPS endpoints (plain HTTP only on localhost, for
+ * development) that receive HMAC-signed JSON events
+ * when a payment is verified, settled or fails. An endpoint registered for a
+ * merchant only receives that merchant's events; one without a merchant
+ * receives every event. Every delivery is logged;
+ * failed deliveries are retried with exponential backoff and can be
+ * redelivered manually.
+ *
+ * Signature header (verify with the endpoint secret):
+ *   X-Arc-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">
+ */
+
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import { readJsonFile, writeJsonFile } from './storage';
+
+export const WEBHOOK_EVENTS = ['payment.verified', 'payment.settled', 'payment.failed'] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENTS)[number];
+
+export interface PaymentEventData {
+  slug: string;
+  merchantId: string | null; // merchant the payment went to, when known
+  resource: string | null;
+  payer: string | null;
+  amount: number;
+  asset: string;
+  network: string;
+  txHash: string | null;
+  error?: string;
+}
+
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  data: PaymentEventData;
+}
+
+export interface WebhookEndpoint {
+  id: string;
+  url: string;
+  secret: string;
+  events: WebhookEventType[];
+  merchantId?: string; // only this merchant's events; all events when omitted
+  active: boolean;
+  createdAt: string;
+}
+
+export interface DeliveryAttempt {
+  at: string;
+  status: number | null;
+  error?: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  event: WebhookEvent;
+  state: 'pending' | 'delivered' | 'failed';
+  attempts: DeliveryAttempt[]; // full history, including earlier redeliveries
+  attemptCount: number; // attempts in the current delivery cycle
+  nextAttemptAt: number | null;
+}
+
+const ENDPOINTS_FILE = 'webhook-endpoints.json';
+const DELIVERIES_FILE = 'webhook-deliveries.json';
+
+// Retry schedule: 5s, 10s, 20s, 40s, ... up to MAX_ATTEMPTS total attempts
+const MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8');
+const BASE_RETRY_DELAY_MS = parseInt(process.env.WEBHOOK_RETRY_BASE_MS || '5000');
+const DELIVERY_TIMEOUT_MS = 10_000;
+// Keep the delivery log bounded
+const MAX_LOGGED_DELIVERIES = 1000;
+
+function loadEndpoints(): WebhookEndpoint[] {
+  return readJsonFile<WebhookEndpoint[]>(ENDPOINTS_FILE, []);
+}
+
+function saveEndpoints(endpoints: WebhookEndpoint[]) {
+  writeJsonFile(ENDPOINTS_FILE, endpoints);
+}
+
+function loadDeliveries(): WebhookDelivery[] {
+  return readJsonFile<WebhookDelivery[]>(DELIVERIES_FILE, []);
+}
+
+function saveDeliveries(deliveries: WebhookDelivery[]) {
+  writeJsonFile(DELIVERIES_FILE, deliveries.slice(0, MAX_LOGGED_DELIVERIES));
+}
+
+function patchDelivery(id: string, update: (delivery: WebhookDelivery) => void): WebhookDelivery | null {
+  const deliveries = loadDeliveries();
+  const delivery = deliveries.find(d => d.id === id);
+  if (!delivery) return null;
+  update(delivery);
+  saveDeliveries(deliveries);
+  return delivery;
+}
+
+/**
+ * Compute the signature header for a webhook body
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * List registered webhook endpoints, optionally only a merchant's
+ */
+export function listWebhookEndpoints(merchantId?: string): WebhookEndpoint[] {
+  const endpoints = loadEndpoints();
+  return merchantId ? endpoints.filter(e => e.merchantId === merchantId) : endpoints;
+}
+
+/**
+ * Register a new webhook endpoint
+ *
+ * The generated secret is returned once here and stored for signing. With a
+ * merchant ID the endpoint only receives that merchant's events.
+ */
+export function registerWebhookEndpoint(
+  url: string,
+  events: WebhookEventType[] = [...WEBHOOK_EVENTS],
+  merchantId?: string
+): WebhookEndpoint {
+  const endpoint: WebhookEndpoint = {
+    id: randomUUID(),
+    url,
+    secret: `whsec_${randomBytes(24).toString('hex')}`,
+    events,
+    ...(merchantId && { merchantId }),
+    active: true,
+    createdAt: new Date().toISOString(),
+  };
+
+  saveEndpoints([...loadEndpoints(), endpoint]);
+  return endpoint;
+}
+
+/**
+ * Remove a webhook endpoint
+ */
+export function removeWebhookEndpoint(id: string): boolean {
+  const endpoints = loadEndpoints();
+  const remaining = endpoints.filter(e => e.id !== id);
+  if (remaining.length === endpoints.length) return false;
+  saveEndpoints(remaining);
+  return true;
+}
+
+/**
+ * List deliveries, newest first, optionally for one endpoint or merchant
+ */
+export function listWebhookDeliveries(filter: { endpointId?: string; merchantId?: string } = {}): WebhookDelivery[] {
+  return loadDeliveries().filter(d =>
+    (!filter.endpointId || d.endpointId === filter.endpointId) &&
+    (!filter.merchantId || d.event.data.merchantId === filter.merchantId)
+  );
+}
+
+/**
+ * Send one delivery attempt and record the outcome
+ */
+async function attemptDelivery(deliveryId: string) {
+  const delivery = loadDeliveries().find(d => d.id === deliveryId);
+  const endpoint = delivery && loadEndpoints().find(e => e.id === delivery.endpointId);
+
+  if (!delivery || delivery.state !== 'pending') return;
+  if (!endpoint) {
+    patchDelivery(deliveryId, d => {
+      d.state = 'failed';
+      d.nextAttemptAt = null;
+      d.attempts.push({ at: new Date().toISOString(), status: null, error: 'Endpoint removed' });
+    });
+    return;
+  }
+
+  const body = JSON.stringify(delivery.event);
+  const attempt: DeliveryAttempt = { at: new Date().toISOString(), status: null };
+
+  try {
+    const res = await fetch(endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Arc-Event': delivery.event.type,
+        'X-Arc-Delivery': delivery.id,
+        'X-Arc-Signature': signWebhookPayload(endpoint.secret, body),
+      },
+      body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    attempt.status = res.status;
+    if (!res.ok) attempt.error = `HTTP ${res.status}`;
+  } catch (error) {
+    attempt.error = error instanceof Error ? error.message : String(error);
+  }
+
+  const updated = patchDelivery(deliveryId, d => {
+    d.attempts.push(attempt);
+    d.attemptCount++;
+
+    if (!attempt.error) {
+      d.state = 'delivered';
+      d.nextAttemptAt = null;
+    } else if (d.attemptCount >= MAX_ATTEMPTS) {
+      d.state = 'failed';
+      d.nextAttemptAt = null;
+    } else {
+      d.nextAttemptAt = Date.now() + BASE_RETRY_DELAY_MS * 2 ** (d.attemptCount - 1);
+    }
+  });
+
+  if (updated?.state === 'delivered') {
+    console.log(`🔔 Webhook ${updated.event.type} delivered to ${endpoint.url}`);
+  } else if (updated?.state === 'failed') {
+    console.error(`🔔 Webhook ${updated.event.type} to ${endpoint.url} failed after ${updated.attemptCount} attempts`);
+  } else if (updated?.nextAttemptAt) {
+    scheduleDelivery(updated.id, updated.nextAttemptAt - Date.now());
+  }
+}
+
+function scheduleDelivery(deliveryId: string, delayMs = 0) {
+  setTimeout(() => {
+    attemptDelivery(deliveryId).catch(error =>
+      console.error(`Webhook delivery ${deliveryId} crashed:`, error)
+    );
+  }, Math.max(0, delayMs));
+}
+
+// Pending deliveries from a previous process are picked up once per process
+declare global {
+  var webhookRetriesResumed: boolean | undefined;
+}
+
+function resumePendingDeliveries() {
+  if (globalThis.webhookRetriesResumed) return;
+  globalThis.webhookRetriesResumed = true;
+
+  for (const delivery of loadDeliveries()) {
+    if (delivery.state === 'pending') {
+      scheduleDelivery(delivery.id, (delivery.nextAttemptAt ?? Date.now()) - Date.now());
+    }
+  }
+}
+
+/**
+ * Emit an event to every active endpoint subscribed to it and to its merchant
+ *
+ * Returns immediately; delivery happens in the background.
+ */
+export function emitWebhookEvent(type: WebhookEventType, data: PaymentEventData): WebhookEvent {
+  resumePendingDeliveries();
+
+  const event: WebhookEvent = {
+    id: `evt_${randomUUID()}`,
+    type,
+    createdAt: new Date().toISOString(),
+    data,
+  };
+
+  const endpoints = loadEndpoints().filter(e =>
+    e.active && e.events.includes(type) && (!e.merchantId || e.merchantId === data.merchantId)
+  );
+  if (endpoints.length === 0) return event;
+
+  const deliveries: WebhookDelivery[] = endpoints.map(endpoint => ({
+    id: randomUUID(),
+    endpointId: endpoint.id,
+    event,
+    state: 'pending',
+    attempts: [],
+    attemptCount: 0,
+    nextAttemptAt: Date.now(),
+  }));
+
+  saveDeliveries([...deliveries, ...loadDeliveries()]);
+  deliveries.forEach(d => scheduleDelivery(d.id));
+
+  return event;
+}
+
+/**
+ * Manually redeliver a logged event (e.g. after fixing the receiving endpoint)
+ */
+export function redeliverWebhook(deliveryId: string): WebhookDelivery | null {
+  const delivery = patchDelivery(deliveryId, d => {
+    d.state = 'pending';
+    d.attemptCount = 0;
+    d.nextAttemptAt = Date.now();
+  });
+
+  if (delivery) scheduleDelivery(delivery.id);
+  return delivery;
+}
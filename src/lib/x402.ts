@@ -1,20 +1,67 @@
 /**
  * x402 Configuration for Arc Network
+ *
+ * SETTLEMENT_MODE=async asks the facilitator to verify and queue settlement
+ * instead of waiting for the chain (`Prefer: respond-async`): paid content
+ * is served right after verification and the payment stays pending until
+ * its settlement ticket resolves (see ./settlement-tickets).
+ *
+ * FACILITATOR_API_KEY authenticates this server as a facilitator tenant
+ * (see src/servers/facilitator-tenants.ts).
  */
 
+import { AsyncLocalStorage } from "async_hooks";
 import { x402ResourceServer, HTTPFacilitatorClient } from "@x402/core/server";
+import type { PaymentOption } from "@x402/core/http";
+import type { PaymentPayload, PaymentRequirements, SettleResponse } from "@x402/core/types";
 import { ExactEvmScheme } from "@x402/evm/exact/server";
 import { ARC_CONTRACTS } from "./arc";
-import { getMerchantWallet } from "./circle-wallet";
+import { resolveMerchant } from "./merchants";
+import {
+  convertAmount,
+  Currency,
+  fromTokenUnits,
+  getAcceptedStablecoins,
+  getStablecoinByAddress,
+  Stablecoin,
+  STABLECOINS,
+  toTokenUnits,
+} from "./currency";
+import { emitWebhookEvent, PaymentEventData, WebhookEventType } from "./webhooks";
 
 // Arc network identifier
 export const ARC_NETWORK = "eip155:5042002";
 
 // Facilitator URL (our facilitator server)
-const facilitatorUrl = process.env.FACILITATOR_URL || "http://localhost:4022";
+export const FACILITATOR_URL = process.env.FACILITATOR_URL || "http://localhost:4022";
+
+/**
+ * Whether settlement is queued by the facilitator rather than awaited
+ */
+export function isAsyncSettlement(): boolean {
+  return process.env.SETTLEMENT_MODE === "async";
+}
+
+/**
+ * Headers authenticating this server with the facilitator
+ */
+export function facilitatorAuthHeaders(): Record<string, string> {
+  const apiKey = process.env.FACILITATOR_API_KEY;
+  return apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+}
 
 // Create facilitator client and resource server
-const facilitatorClient = new HTTPFacilitatorClient({ url: facilitatorUrl });
+const facilitatorClient = new HTTPFacilitatorClient({
+  url: FACILITATOR_URL,
+  createAuthHeaders: async () => {
+    const auth = facilitatorAuthHeaders();
+    return {
+      verify: auth,
+      settle: isAsyncSettlement() ? { ...auth, Prefer: "respond-async" } : auth,
+      supported: auth,
+    };
+  },
+});
 export const server = new x402ResourceServer(facilitatorClient);
 
 // Create EVM scheme with custom money parser for Arc
@@ -23,8 +70,8 @@ const evmScheme = new ExactEvmScheme();
 // Register Arc's USDC as the default stablecoin for Arc network
 evmScheme.registerMoneyParser(async (amount: number, network: string) => {
   if (network === ARC_NETWORK) {
-    // Convert decimal amount to 6 decimal USDC
-    const tokenAmount = Math.floor(amount * 1_000_000).toString();
+    // Convert decimal amount to 6 decimal USDC (round: 0.57 * 1e6 is 569999.99...)
+    const tokenAmount = Math.round(amount * 1_000_000).toString();
     return {
       amount: tokenAmount,
       asset: ARC_CONTRACTS.USDC,
@@ -40,36 +87,203 @@ evmScheme.registerMoneyParser(async (amount: number, network: string) => {
 // Register scheme for Arc network
 server.register(ARC_NETWORK, evmScheme);
 
+// A payment as confirmed by the facilitator's verify result
+export interface VerifiedPayment {
+  payer: string;
+  amount: string; // smallest token units of `asset`
+  asset: string;
+  network: string;
+  nonce: string | null; // EIP-3009 authorization nonce
+}
+
+// A verified payment the facilitator settled on-chain, or queued for settlement
+export interface SettledPayment extends VerifiedPayment {
+  txHash: string | null; // null while queued
+  ticketId: string | null; // facilitator settlement ticket (async mode)
+}
+
+// SettleResponse of a queued settlement (202 from the facilitator)
+type QueuedSettleResponse = SettleResponse & { ticket?: { id: string } };
+
+interface PaymentContext {
+  slug?: string; // ledger slug of the paywalled resource, e.g. pass:day-pass
+  merchantId?: string; // merchant the resource is paid to
+  verified?: VerifiedPayment;
+  settled?: SettledPayment;
+}
+
+// Per-request verify/settle results, filled in by the server hooks below
+const paymentContext = new AsyncLocalStorage<PaymentContext>();
+
 /**
- * Get merchant wallet address from Circle SDK
+ * Run an x402-wrapped handler, collecting its verify and settle results
+ *
+ * Inside `fn`, getVerifiedPayment() returns the verified payment once the
+ * facilitator accepted it; afterwards the returned context also holds the
+ * settlement. `slug` is the resource's ledger slug and `merchantId` its
+ * merchant, both reported in webhook events.
  */
-export async function getPayToAddress(): Promise<`0x${string}`> {
-  const merchant = await getMerchantWallet();
-  return merchant.address;
+export async function withPaymentContext<T>(
+  fn: () => Promise<T>,
+  slug?: string,
+  merchantId?: string
+): Promise<{ result: T; payment: PaymentContext }> {
+  const payment: PaymentContext = { slug, merchantId };
+  const result = await paymentContext.run(payment, fn);
+  return { result, payment };
 }
 
 /**
- * Create payment config for an endpoint
+ * The current request's verified payment, or null before verification
+ */
+export function getVerifiedPayment(): VerifiedPayment | null {
+  return paymentContext.getStore()?.verified || null;
+}
+
+/**
+ * Derive a resource slug from its URL (last path segment), for payments
+ * made outside a paywall that names its ledger slug
+ */
+function resourceSlug(resourceUrl: string): string {
+  const segments = new URL(resourceUrl, "http://localhost").pathname.split("/").filter(Boolean);
+  return segments[segments.length - 1] || resourceUrl;
+}
+
+/**
+ * Build webhook event data from an x402 payment
  */
-export async function createPaymentConfig(priceUsd: string, description: string) {
-  const payToAddress = await getPayToAddress();
+function paymentEventData(
+  paymentPayload: PaymentPayload,
+  requirements: PaymentRequirements,
+  details: { payer?: string; txHash?: string; error?: string } = {},
+): PaymentEventData {
+  const resource = paymentPayload.resource?.url || null;
+  const authorization = paymentPayload.payload?.authorization as { from?: string } | undefined;
+  const context = paymentContext.getStore();
 
   return {
-    accepts: [
-      {
-        scheme: "exact" as const,
-        price: priceUsd,
-        network: ARC_NETWORK,
-        payTo: payToAddress,
-        extra: {
-          name: "USDC",
-          version: "2",
-          asset: ARC_CONTRACTS.USDC,
-        },
+    slug: context?.slug || (resource ? resourceSlug(resource) : "unknown"),
+    merchantId: context?.merchantId || null,
+    resource,
+    payer: details.payer || authorization?.from || null,
+    amount: fromTokenUnits(requirements.amount, getStablecoinByAddress(requirements.asset) || STABLECOINS.USD),
+    asset: requirements.asset,
+    network: requirements.network,
+    txHash: details.txHash || null,
+    ...(details.error && { error: details.error }),
+  };
+}
+
+// Webhook failures must never break the payment flow
+function notifyWebhooks(type: WebhookEventType, data: PaymentEventData) {
+  try {
+    emitWebhookEvent(type, data);
+  } catch (error) {
+    console.error(`Failed to queue ${type} webhook:`, error);
+  }
+}
+
+// Notify merchant webhooks as payments move through verification and settlement
+server
+  .onAfterVerify(async ({ paymentPayload, requirements, result }) => {
+    if (result.isValid) {
+      // The facilitator checked the signature, so the signed authorization is now trustworthy
+      const authorization = paymentPayload.payload?.authorization as { from?: string; nonce?: string } | undefined;
+      const context = paymentContext.getStore();
+      if (context) {
+        context.verified = {
+          payer: result.payer || authorization?.from || "unknown",
+          amount: requirements.amount,
+          asset: requirements.asset,
+          network: requirements.network,
+          nonce: authorization?.nonce || null,
+        };
+      }
+      notifyWebhooks("payment.verified", paymentEventData(paymentPayload, requirements, { payer: result.payer }));
+    }
+  })
+  .onAfterSettle(async ({ paymentPayload, requirements, result }) => {
+    const context = paymentContext.getStore();
+    const ticket = (result as QueuedSettleResponse).ticket;
+    if (context?.verified && result.success) {
+      context.settled = {
+        ...context.verified,
+        payer: result.payer || context.verified.payer,
+        network: result.network || context.verified.network,
+        txHash: ticket ? null : result.transaction,
+        ticketId: ticket?.id || null,
+      };
+    }
+    // Queued: payment.settled / payment.failed follow once the ticket resolves
+    if (ticket) return;
+    notifyWebhooks(
+      result.success ? "payment.settled" : "payment.failed",
+      paymentEventData(paymentPayload, requirements, {
+        payer: result.payer,
+        txHash: result.transaction,
+        error: result.errorReason,
+      }),
+    );
+  })
+  .onSettleFailure(async ({ paymentPayload, requirements, error }) => {
+    notifyWebhooks("payment.failed", paymentEventData(paymentPayload, requirements, { error: error.message }));
+  });
+
+/**
+ * Get the address a merchant is paid at (default merchant when no ID is given)
+ */
+export async function getPayToAddress(merchantId?: string): Promise<`0x${string}`> {
+  return resolveMerchant(merchantId).payoutAddress;
+}
+
+/**
+ * Build x402 payment options for a price, one per accepted stablecoin
+ *
+ * The stablecoin matching the price currency is listed first; others are
+ * converted with the active FX provider. `assets` narrows the accepted coins.
+ */
+export async function buildPaymentOptions(
+  price: number,
+  currency: Currency,
+  payTo: string,
+  assets?: Stablecoin["symbol"][],
+): Promise<PaymentOption[]> {
+  const coins = getAcceptedStablecoins()
+    .filter((coin) => !assets || assets.includes(coin.symbol))
+    .sort((a, b) => Number(b.currency === currency) - Number(a.currency === currency));
+
+  return Promise.all(
+    coins.map(async (coin) => ({
+      scheme: "exact",
+      network: ARC_NETWORK,
+      payTo,
+      price: {
+        amount: toTokenUnits(await convertAmount(price, currency, coin.currency), coin),
+        asset: coin.address,
+        extra: coin.eip712,
       },
-    ],
+      extra: {
+        ...coin.eip712,
+        asset: coin.address,
+      },
+    }))
+  );
+}
+
+/**
+ * Create payment config for an endpoint
+ */
+export async function createPaymentConfig(
+  price: number,
+  description: string,
+  currency: Currency = "USD",
+  merchantId?: string,
+) {
+  const payToAddress = await getPayToAddress(merchantId);
+
+  return {
+    accepts: await buildPaymentOptions(price, currency, payToAddress),
     description,
     mimeType: "application/json",
   };
 }
-
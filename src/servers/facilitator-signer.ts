@@ -0,0 +1,277 @@
+/**
+ * Facilitator settlement signer
+ *
+ * The facilitator reads chain state through a viem public client and submits
+ * settlement transactions through one of interchangeable backends, selected
+ * with FACILITATOR_SIGNER:
+ * - circle (default): Circle developer-controlled wallet
+ *   (CIRCLE_FACILITATOR_WALLET_ID, plus CIRCLE_API_KEY / CIRCLE_ENTITY_SECRET)
+ * - private-key: raw key held by the process (FACILITATOR_PRIVATE_KEY),
+ *   for local chains and development
+ * - remote: KMS-style signer service that signs 32-byte digests
+ *   (FACILITATOR_REMOTE_SIGNER_URL, FACILITATOR_REMOTE_SIGNER_ADDRESS,
+ *   optional FACILITATOR_REMOTE_SIGNER_TOKEN and
+ *   FACILITATOR_REMOTE_SIGNER_TIMEOUT_SECONDS, default: 10)
+ *
+ * FACILITATOR_RPC_URL and FACILITATOR_CHAIN_ID point the facilitator at
+ * another chain, e.g. a local Anvil fork of Arc Testnet. The Circle backend
+ * can only settle on Arc Testnet.
+ *
+ * Remote signer protocol: POST <url> with `{ "address", "digest" }` (and
+ * `Authorization: Bearer <token>` when set), answered with
+ * `{ "signature": "0x..." }`, a 65-byte r || s || v signature of the digest.
+ * Transactions are built and broadcast here; the key never leaves the signer.
+ */
+
+import type { Network } from "@x402/core/types";
+import { FacilitatorEvmSigner, toFacilitatorEvmSigner } from "@x402/evm";
+import {
+  Abi,
+  Chain,
+  createPublicClient,
+  createWalletClient,
+  defineChain,
+  encodeFunctionData,
+  hashMessage,
+  hashTypedData,
+  Hex,
+  http,
+  isAddressEqual,
+  keccak256,
+  LocalAccount,
+  parseSignature,
+  recoverAddress,
+  serializeTransaction,
+} from "viem";
+import { nonceManager, privateKeyToAccount, toAccount } from "viem/accounts";
+import { arcTestnet } from "../lib/arc";
+
+export const SIGNER_BACKENDS = ["circle", "private-key", "remote"] as const;
+
+export type SignerBackend = (typeof SIGNER_BACKENDS)[number];
+
+type WriteContractArgs = Parameters<FacilitatorEvmSigner["writeContract"]>[0];
+type SendTransactionArgs = Parameters<FacilitatorEvmSigner["sendTransaction"]>[0];
+
+// What differs between backends: the facilitator address and how transactions get out
+interface TransactionSubmitter {
+  address: `0x${string}`;
+  sendTransaction(args: SendTransactionArgs): Promise<Hex>;
+  writeContract(args: WriteContractArgs): Promise<Hex>;
+}
+
+export interface FacilitatorSigner {
+  backend: SignerBackend;
+  address: `0x${string}`;
+  chain: Chain;
+  network: Network; // CAIP-2, e.g. eip155:5042002
+  evmSigner: FacilitatorEvmSigner;
+  /** What a confirmed transaction cost, in the native token's smallest unit */
+  getTransactionFee(hash: Hex): Promise<bigint>;
+}
+
+/**
+ * Chain the facilitator settles on (Arc Testnet unless overridden)
+ */
+export function resolveFacilitatorChain(): Chain {
+  const rpcUrl = process.env.FACILITATOR_RPC_URL;
+  const chainId = process.env.FACILITATOR_CHAIN_ID ? parseInt(process.env.FACILITATOR_CHAIN_ID) : arcTestnet.id;
+  if (!rpcUrl && chainId === arcTestnet.id) return arcTestnet;
+
+  return defineChain({
+    ...arcTestnet,
+    id: chainId,
+    name: chainId === arcTestnet.id ? arcTestnet.name : `Chain ${chainId}`,
+    rpcUrls: { default: { http: [rpcUrl || arcTestnet.rpcUrls.default.http[0]] } },
+  });
+}
+
+function getSignerBackend(): SignerBackend {
+  const backend = (process.env.FACILITATOR_SIGNER || "circle") as SignerBackend;
+  if (!SIGNER_BACKENDS.includes(backend)) {
+    throw new Error(`Unknown FACILITATOR_SIGNER "${backend}" (expected ${SIGNER_BACKENDS.join(", ")})`);
+  }
+  return backend;
+}
+
+// Format ABI function signature for Circle SDK
+function formatAbiFunctionSignature(
+  functionName: string,
+  abi: readonly unknown[]
+): string {
+  const abiTyped = abi as Abi;
+  const func = abiTyped.find(
+    (item): item is Extract<typeof item, { type: "function" }> =>
+      item.type === "function" && item.name === functionName
+  );
+
+  if (!func) {
+    throw new Error(`Function ${functionName} not found in ABI`);
+  }
+
+  const params = func.inputs.map((input) => input.type).join(",");
+  return `${functionName}(${params})`;
+}
+
+// Circle-managed wallet; transactions are confirmed by Circle polling before returning
+async function createCircleSubmitter(chain: Chain): Promise<TransactionSubmitter> {
+  const walletId = process.env.CIRCLE_FACILITATOR_WALLET_ID;
+  if (!walletId) {
+    throw new Error(
+      "CIRCLE_FACILITATOR_WALLET_ID is required for the circle signer " +
+      "(create a wallet using the MCP tool and set its ID here)"
+    );
+  }
+  if (chain.id !== arcTestnet.id) {
+    throw new Error(`The circle signer settles on Arc Testnet only, not chain ${chain.id}`);
+  }
+
+  // Loaded lazily: the Circle SDK requires credentials as soon as it is imported
+  const { executeContractCall, getWallet, sendRawTransaction } = await import("../lib/circle-wallet");
+  const wallet = await getWallet(walletId);
+  if (!wallet?.address) {
+    throw new Error("Failed to get facilitator wallet address");
+  }
+
+  return {
+    address: wallet.address as `0x${string}`,
+
+    writeContract: async (args) => {
+      const abiFunctionSignature = formatAbiFunctionSignature(args.functionName, args.abi);
+
+      // Convert args to Circle-compatible format (strings)
+      const abiParameters = args.args.map((arg) =>
+        typeof arg === "bigint" ? arg.toString() : arg
+      ) as (string | number | boolean)[];
+
+      const result = await executeContractCall(walletId, args.address, abiFunctionSignature, abiParameters);
+      return result.txHash as Hex;
+    },
+
+    sendTransaction: async (args) => {
+      const result = await sendRawTransaction(walletId, args.to, args.data);
+      return result.txHash as Hex;
+    },
+  };
+}
+
+// Any viem account: transactions are prepared, signed and broadcast through the RPC.
+// Accounts carry a nonce manager, so concurrent (batched) submissions get distinct nonces.
+function createAccountSubmitter(account: LocalAccount, chain: Chain): TransactionSubmitter {
+  const walletClient = createWalletClient({ account, chain, transport: http() });
+
+  const sendTransaction = (args: SendTransactionArgs) =>
+    walletClient.sendTransaction({ to: args.to, data: args.data });
+
+  return {
+    address: account.address,
+    sendTransaction,
+    writeContract: (args) =>
+      sendTransaction({
+        to: args.address,
+        data: encodeFunctionData({ abi: args.abi as Abi, functionName: args.functionName, args: args.args }),
+      }),
+  };
+}
+
+function createPrivateKeyAccount(): LocalAccount {
+  const privateKey = process.env.FACILITATOR_PRIVATE_KEY;
+  if (!privateKey || !/^0x[0-9a-fA-F]{64}$/.test(privateKey)) {
+    throw new Error("FACILITATOR_PRIVATE_KEY (0x-prefixed 32-byte hex) is required for the private-key signer");
+  }
+  return privateKeyToAccount(privateKey as Hex, { nonceManager });
+}
+
+function createRemoteAccount(): LocalAccount {
+  const url = process.env.FACILITATOR_REMOTE_SIGNER_URL;
+  const address = process.env.FACILITATOR_REMOTE_SIGNER_ADDRESS as `0x${string}` | undefined;
+  if (!url || !address) {
+    throw new Error(
+      "FACILITATOR_REMOTE_SIGNER_URL and FACILITATOR_REMOTE_SIGNER_ADDRESS are required for the remote signer"
+    );
+  }
+  const token = process.env.FACILITATOR_REMOTE_SIGNER_TOKEN;
+  // A hung signer would otherwise hold the settlement (and its queue) forever
+  const timeoutMs = parseFloat(process.env.FACILITATOR_REMOTE_SIGNER_TIMEOUT_SECONDS || "10") * 1000;
+
+  const signDigest = async (digest: Hex): Promise<Hex> => {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(token && { Authorization: `Bearer ${token}` }),
+      },
+      body: JSON.stringify({ address, digest }),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`Remote signer responded ${response.status}: ${await response.text()}`);
+    }
+
+    const { signature } = (await response.json()) as { signature?: Hex };
+    if (!signature) {
+      throw new Error("Remote signer returned no signature");
+    }
+    // Never broadcast a transaction signed by some other key
+    const signer = await recoverAddress({ hash: digest, signature });
+    if (!isAddressEqual(signer, address)) {
+      throw new Error(`Remote signer signed as ${signer}, expected ${address}`);
+    }
+    return signature;
+  };
+
+  return toAccount({
+    address,
+    nonceManager,
+    signMessage: ({ message }) => signDigest(hashMessage(message)),
+    signTypedData: (typedData) => signDigest(hashTypedData(typedData)),
+    signTransaction: async (transaction, options) => {
+      const serializer = options?.serializer || serializeTransaction;
+      const signature = await signDigest(keccak256(await serializer(transaction)));
+      return serializer(transaction, parseSignature(signature));
+    },
+  });
+}
+
+/**
+ * Create the facilitator signer for the configured backend and chain
+ *
+ * Throws with a configuration hint when the backend's settings are missing.
+ */
+export async function createFacilitatorSigner(): Promise<FacilitatorSigner> {
+  const backend = getSignerBackend();
+  const chain = resolveFacilitatorChain();
+
+  // Read-only operations use viem public client
+  const publicClient = createPublicClient({ chain, transport: http() });
+
+  const submitter = backend === "circle"
+    ? await createCircleSubmitter(chain)
+    : createAccountSubmitter(backend === "private-key" ? createPrivateKeyAccount() : createRemoteAccount(), chain);
+
+  const evmSigner = toFacilitatorEvmSigner({
+    address: submitter.address,
+
+    getCode: (args) => publicClient.getCode(args),
+    readContract: (args) =>
+      publicClient.readContract({
+        address: args.address,
+        abi: args.abi as Abi,
+        functionName: args.functionName,
+        args: args.args || [],
+      }),
+    verifyTypedData: (args) =>
+      publicClient.verifyTypedData(args as Parameters<typeof publicClient.verifyTypedData>[0]),
+
+    writeContract: (args) => submitter.writeContract(args),
+    sendTransaction: (args) => submitter.sendTransaction(args),
+    waitForTransactionReceipt: (args) => publicClient.waitForTransactionReceipt(args),
+  });
+
+  const getTransactionFee = async (hash: Hex) => {
+    const receipt = await publicClient.getTransactionReceipt({ hash });
+    return receipt.gasUsed * receipt.effectiveGasPrice;
+  };
+
+  return { backend, address: submitter.address, chain, network: `eip155:${chain.id}`, evmSigner, getTransactionFee };
+}
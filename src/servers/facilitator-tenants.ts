@@ -0,0 +1,108 @@
+/**
+ * Facilitator tenants
+ *
+ * One facilitator can serve several merchants without paying gas for anyone
+ * who points at it. Tenants are configured in `facilitator-tenants.json`
+ * under the data directory (FACILITATOR_TENANTS_FILE overrides the name),
+ * each with:
+ * - an API key, stored as its SHA-256 hash; callers send
+ *   `Authorization: Bearer <key>` (FACILITATOR_API_KEY on the Next.js side)
+ * - the payTo addresses it may verify and settle payments for
+ * - an optional rate limit on /verify and /settle
+ * - an optional monthly gas budget, in the chain's native token (USDC on
+ *   Arc); settlements are refused once the current UTC month used it up
+ *
+ * Without tenants (no file, or an empty list) the facilitator stays open to
+ * anonymous callers, as before. The file is read on every request, so edits
+ * apply without a restart.
+ */
+
+import { createHash, timingSafeEqual } from "crypto";
+import { z } from "zod";
+import { readJsonFile } from "../lib/storage";
+
+const DEFAULT_WINDOW_SECONDS = 60;
+
+const tenantSchema = z.object({
+  id: z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "ID must be lowercase kebab-case"),
+  name: z.string().min(1),
+  apiKeyHash: z.string().regex(/^[0-9a-f]{64}$/, "API key hash must be a hex SHA-256 digest"),
+  payTo: z.array(z.string().regex(/^0x[0-9a-fA-F]{40}$/, "payTo entries must be 0x addresses")).min(1),
+  rateLimit: z.object({
+    requests: z.number().int().positive(),
+    windowSeconds: z.number().positive().default(DEFAULT_WINDOW_SECONDS),
+  }).optional(),
+  monthlyGasBudget: z.string().regex(/^\d+(\.\d+)?$/, "Gas budget must be a decimal amount").optional(),
+  enabled: z.boolean().default(true),
+});
+
+export type Tenant = z.infer<typeof tenantSchema>;
+
+// Requests counted in the current rate limit window, per tenant
+const rateWindows = new Map<string, { startedAt: number; count: number }>();
+
+function getTenantsFile(): string {
+  return process.env.FACILITATOR_TENANTS_FILE || "facilitator-tenants.json";
+}
+
+/**
+ * Hash an API key the way tenant files store it
+ */
+export function hashApiKey(apiKey: string): string {
+  return createHash("sha256").update(apiKey).digest("hex");
+}
+
+/**
+ * Configured tenants (throws when the file is invalid)
+ */
+export function getTenants(): Tenant[] {
+  return z.array(tenantSchema).parse(readJsonFile<unknown[]>(getTenantsFile(), []));
+}
+
+/**
+ * Whether callers must authenticate as a tenant
+ */
+export function isMultiTenant(): boolean {
+  return getTenants().length > 0;
+}
+
+/**
+ * The enabled tenant an `Authorization` header belongs to, if any
+ */
+export function authenticateTenant(authorization: string | undefined): Tenant | null {
+  const match = authorization?.match(/^Bearer\s+(.+)$/i);
+  if (!match) return null;
+
+  const hash = Buffer.from(hashApiKey(match[1].trim()), "hex");
+  const tenant = getTenants().find(t => timingSafeEqual(Buffer.from(t.apiKeyHash, "hex"), hash));
+  return tenant?.enabled ? tenant : null;
+}
+
+/**
+ * Whether a tenant may receive payments at an address
+ */
+export function isPayToAllowed(tenant: Tenant, payTo: string): boolean {
+  return tenant.payTo.some(address => address.toLowerCase() === payTo.toLowerCase());
+}
+
+/**
+ * Count a request against the tenant's rate limit
+ *
+ * Returns the seconds to wait when the limit is reached, or null if the
+ * request may go ahead. Windows are fixed and kept in memory.
+ */
+export function consumeRateLimit(tenant: Tenant, now = Date.now()): number | null {
+  if (!tenant.rateLimit) return null;
+  const { requests, windowSeconds } = tenant.rateLimit;
+
+  const current = rateWindows.get(tenant.id);
+  const window = current && now - current.startedAt < windowSeconds * 1000
+    ? current
+    : { startedAt: now, count: 0 };
+  if (window.count >= requests) {
+    return Math.ceil((window.startedAt + windowSeconds * 1000 - now) / 1000);
+  }
+
+  rateWindows.set(tenant.id, { ...window, count: window.count + 1 });
+  return null;
+}
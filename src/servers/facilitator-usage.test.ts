@@ -0,0 +1,143 @@
+import type { PaymentRequirements, SettleResponse } from "@x402/core/types";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { monthStart, UsageLog } from "./facilitator-usage";
+
+const ASSET = "0x3600000000000000000000000000000000000000";
+
+const requirements = {
+  scheme: "exact",
+  network: "eip155:5042002",
+  asset: ASSET,
+  amount: "10000",
+  payTo: "0x1111111111111111111111111111111111111111",
+  maxTimeoutSeconds: 60,
+  extra: {},
+} as PaymentRequirements;
+
+function settled(transaction: string, success = true): SettleResponse {
+  return { success, transaction, network: requirements.network };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date("2026-03-15T12:00:00Z"));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("UsageLog", () => {
+  it("totals a tenant's verifications, settlements and volume for the month", () => {
+    const log = new UsageLog(null);
+    log.recordVerify("acme", true);
+    log.recordVerify("acme", false);
+    log.recordSettlement("acme", requirements, settled("0x01"));
+    log.recordSettlement("acme", requirements, settled("0x02"));
+    log.recordSettlement("acme", requirements, settled("", false));
+    log.recordSettlement("other", requirements, settled("0x03"));
+
+    expect(log.getUsage("acme")).toEqual({
+      tenantId: "acme",
+      since: Date.UTC(2026, 2, 1),
+      verifications: 2,
+      settlements: 2,
+      failedSettlements: 1,
+      volume: { [ASSET]: "20000" },
+      gasUsed: "0",
+    });
+  });
+
+  it("splits a batch transaction's fee between the settlements it carried", () => {
+    const log = new UsageLog(null);
+    log.recordSettlement("acme", requirements, settled("0xbatch"));
+    log.recordSettlement("acme", requirements, settled("0xbatch", false));
+    log.recordSettlement("other", requirements, settled("0xbatch"));
+    log.recordFee("0xbatch", BigInt(900));
+
+    expect(log.getUsage("acme").gasUsed).toBe("600");
+    expect(log.getUsage("other").gasUsed).toBe("300");
+  });
+
+  it("re-splits a fee when another settlement of the transaction comes in after it", () => {
+    const log = new UsageLog(null);
+    log.recordSettlement("acme", requirements, settled("0xbatch"));
+    log.recordFee("0xbatch", BigInt(900));
+    expect(log.getUsage("acme").gasUsed).toBe("900");
+
+    log.recordSettlement("other", requirements, settled("0xbatch"));
+    expect(log.getUsage("acme").gasUsed).toBe("450");
+    expect(log.getUsage("other").gasUsed).toBe("450");
+  });
+
+  it("keeps the first fee recorded for a transaction", () => {
+    const log = new UsageLog(null);
+    log.recordSettlement("acme", requirements, settled("0x01"));
+    log.recordFee("0x01", BigInt(100));
+    log.recordFee("0x01", BigInt(500));
+
+    expect(log.hasFee("0x01")).toBe(true);
+    expect(log.getUsage("acme").gasUsed).toBe("100");
+  });
+
+  it("reads its totals back from the log file", () => {
+    const dir = mkdtempSync(join(tmpdir(), "arc-facilitator-usage-"));
+    try {
+      const path = join(dir, "usage.jsonl");
+      const log = new UsageLog(path);
+      log.recordVerify("acme", true);
+      log.recordSettlement("acme", requirements, settled("0x01"));
+      log.recordFee("0x01", BigInt(700));
+
+      expect(new UsageLog(path).getUsage("acme")).toEqual(log.getUsage("acme"));
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("isOverGasBudget", () => {
+  it("holds a tenant to its budget once its gas reaches it", () => {
+    const log = new UsageLog(null);
+    log.recordSettlement("acme", requirements, settled("0x01"));
+    log.recordFee("0x01", BigInt(999));
+    expect(log.isOverGasBudget("acme", BigInt(1000))).toBe(false);
+
+    log.recordSettlement("acme", requirements, settled("0x02"));
+    log.recordFee("0x02", BigInt(1));
+    expect(log.isOverGasBudget("acme", BigInt(1000))).toBe(true);
+    expect(log.isOverGasBudget("other", BigInt(1000))).toBe(false);
+  });
+
+  it("does not count fees still unknown", () => {
+    const log = new UsageLog(null);
+    log.recordSettlement("acme", requirements, settled("0x01"));
+
+    expect(log.isOverGasBudget("acme", BigInt(1))).toBe(false);
+  });
+
+  it("starts each UTC month with a fresh budget", () => {
+    const log = new UsageLog(null);
+    log.recordSettlement("acme", requirements, settled("0x01"));
+    log.recordFee("0x01", BigInt(1000));
+    expect(log.isOverGasBudget("acme", BigInt(1000))).toBe(true);
+
+    vi.setSystemTime(new Date("2026-04-01T00:00:00Z"));
+    expect(log.isOverGasBudget("acme", BigInt(1000))).toBe(false);
+    // March stays on record
+    expect(log.getUsage("acme", monthStart(new Date("2026-03-31T23:59:59Z"))).gasUsed).toBe("1000");
+  });
+
+  it("charges a fee to the month its settlement happened in", () => {
+    const log = new UsageLog(null);
+    log.recordSettlement("acme", requirements, settled("0x01"));
+    vi.setSystemTime(new Date("2026-04-01T00:00:05Z"));
+    log.recordFee("0x01", BigInt(1000));
+
+    expect(log.isOverGasBudget("acme", BigInt(1000))).toBe(false);
+    expect(log.getUsage("acme", Date.UTC(2026, 2, 1)).gasUsed).toBe("1000");
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Facilitator usage accounting
+ *
+ * Per-tenant record of verifications, settlements and the gas they cost, in
+ * an append-only JSONL log under the data directory
+ * (`facilitator-usage.jsonl`, FACILITATOR_USAGE_FILE overrides the name;
+ * FACILITATOR_STORE=memory keeps it in process).
+ *
+ * Gas is charged per transaction: its fee (gas used x effective gas price,
+ * in the native token's smallest unit) is fetched once it is confirmed and
+ * split evenly between the settlements it carried, so a batch (see
+ * ./settlement-batch) costs each payment its share. Settlements whose fee
+ * is not known yet count as free until it is.
+ *
+ * Totals are kept per tenant and month as records are added, so budget checks
+ * on /settle never scan the log; the file is only read back on start.
+ */
+
+import type { PaymentRequirements, SettleResponse } from "@x402/core/types";
+import { appendFileSync, existsSync, readFileSync } from "fs";
+import { dataFilePath } from "../lib/storage";
+
+const ANONYMOUS = "anonymous"; // usage of an open (tenant-less) facilitator
+
+type UsageRecord =
+  | { type: "verify"; tenantId: string; valid: boolean; at: number }
+  | {
+    type: "settle";
+    tenantId: string;
+    success: boolean;
+    amount: string; // smallest token units of `asset`
+    asset: string;
+    network: string;
+    transaction: string | null;
+    at: number;
+  }
+  | { type: "fee"; transaction: string; fee: string; at: number };
+
+export interface TenantUsage {
+  tenantId: string;
+  since: number; // start of the period (ms)
+  verifications: number;
+  settlements: number;
+  failedSettlements: number;
+  volume: Record<string, string>; // settled amount per asset, in smallest token units
+  gasUsed: string; // native token's smallest unit
+}
+
+/**
+ * Start of the current UTC month (ms)
+ */
+export function monthStart(now = new Date()): number {
+  return Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1);
+}
+
+// Running totals of one tenant for one UTC month
+interface MonthUsage {
+  verifications: number;
+  settlements: number;
+  failedSettlements: number;
+  volume: Map<string, bigint>;
+  gasUsed: bigint;
+}
+
+// A settlement transaction: its fee, once known, and the share charged so far
+// to each settlement it carried
+interface TransactionFee {
+  fee?: bigint;
+  shares: { usage: MonthUsage; charged: bigint }[];
+}
+
+export class UsageLog {
+  // By tenant and month, kept up to date as records come in
+  private months = new Map<string, MonthUsage>();
+  private transactions = new Map<string, TransactionFee>();
+
+  constructor(private readonly path: string | null) {
+    this.replay();
+  }
+
+  private replay() {
+    if (!this.path || !existsSync(this.path)) return;
+
+    const lines = readFileSync(this.path, "utf8").split("\n");
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        this.add(JSON.parse(line) as UsageRecord);
+      } catch {
+        console.warn(`Skipping corrupt usage line in ${this.path}`);
+      }
+    }
+  }
+
+  private monthUsage(tenantId: string, at: number): MonthUsage {
+    const key = `${tenantId}:${monthStart(new Date(at))}`;
+    let usage = this.months.get(key);
+    if (!usage) {
+      usage = { verifications: 0, settlements: 0, failedSettlements: 0, volume: new Map(), gasUsed: BigInt(0) };
+      this.months.set(key, usage);
+    }
+    return usage;
+  }
+
+  private transaction(hash: string): TransactionFee {
+    let transaction = this.transactions.get(hash);
+    if (!transaction) {
+      transaction = { shares: [] };
+      this.transactions.set(hash, transaction);
+    }
+    return transaction;
+  }
+
+  // Split a transaction's fee evenly again, charging each settlement the difference
+  private charge(transaction: TransactionFee) {
+    if (transaction.fee === undefined) return;
+    const share = transaction.fee / BigInt(transaction.shares.length || 1);
+    for (const carried of transaction.shares) {
+      carried.usage.gasUsed += share - carried.charged;
+      carried.charged = share;
+    }
+  }
+
+  private add(record: UsageRecord) {
+    if (record.type === "fee") {
+      const transaction = this.transaction(record.transaction);
+      if (transaction.fee !== undefined) return;
+      transaction.fee = BigInt(record.fee);
+      this.charge(transaction);
+      return;
+    }
+
+    const usage = this.monthUsage(record.tenantId, record.at);
+    if (record.type === "verify") {
+      usage.verifications++;
+      return;
+    }
+
+    if (record.success) {
+      usage.settlements++;
+      usage.volume.set(record.asset, (usage.volume.get(record.asset) || BigInt(0)) + BigInt(record.amount));
+    } else {
+      usage.failedSettlements++;
+    }
+    // Reverted transfers in a batch still burned gas
+    if (record.transaction) {
+      const transaction = this.transaction(record.transaction);
+      transaction.shares.push({ usage, charged: BigInt(0) });
+      this.charge(transaction);
+    }
+  }
+
+  private append(record: UsageRecord) {
+    if (this.path) appendFileSync(this.path, JSON.stringify(record) + "\n");
+    this.add(record);
+  }
+
+  /**
+   * Count a /verify call
+   */
+  recordVerify(tenantId: string | null, valid: boolean) {
+    this.append({ type: "verify", tenantId: tenantId || ANONYMOUS, valid, at: Date.now() });
+  }
+
+  /**
+   * Count a finished settlement
+   */
+  recordSettlement(tenantId: string | null, requirements: PaymentRequirements, response: SettleResponse) {
+    this.append({
+      type: "settle",
+      tenantId: tenantId || ANONYMOUS,
+      success: response.success,
+      amount: requirements.amount,
+      asset: requirements.asset,
+      network: requirements.network,
+      transaction: response.transaction || null,
+      at: Date.now(),
+    });
+  }
+
+  /**
+   * Whether a transaction's fee is known
+   */
+  hasFee(transaction: string): boolean {
+    return this.transactions.get(transaction)?.fee !== undefined;
+  }
+
+  /**
+   * Record what a settlement transaction cost
+   */
+  recordFee(transaction: string, fee: bigint) {
+    if (this.hasFee(transaction)) return;
+    this.append({ type: "fee", transaction, fee: fee.toString(), at: Date.now() });
+  }
+
+  /**
+   * A tenant's usage for the UTC month starting at `month` (default: this month)
+   */
+  getUsage(tenantId: string | null, month = monthStart()): TenantUsage {
+    const id = tenantId || ANONYMOUS;
+    const usage = this.months.get(`${id}:${month}`);
+    const volume: Record<string, string> = {};
+    usage?.volume.forEach((amount, asset) => {
+      volume[asset] = amount.toString();
+    });
+
+    return {
+      tenantId: id,
+      since: month,
+      verifications: usage?.verifications || 0,
+      settlements: usage?.settlements || 0,
+      failedSettlements: usage?.failedSettlements || 0,
+      volume,
+      gasUsed: (usage?.gasUsed || BigInt(0)).toString(),
+    };
+  }
+
+  /**
+   * Whether a tenant's gas this month has reached `budget` (native token's smallest unit)
+   */
+  isOverGasBudget(tenantId: string, budget: bigint): boolean {
+    const usage = this.months.get(`${tenantId}:${monthStart()}`);
+    return (usage?.gasUsed || BigInt(0)) >= budget;
+  }
+}
+
+/**
+ * Create the usage log (file-backed unless FACILITATOR_STORE=memory)
+ */
+export function createUsageLog(): UsageLog {
+  return new UsageLog(process.env.FACILITATOR_STORE === "memory"
+    ? null
+    : dataFilePath(process.env.FACILITATOR_USAGE_FILE || "facilitator-usage.jsonl"));
+}
@@ -2,9 +2,26 @@
  * Arc x402 Facilitator Server
  *
  * Based on x402 example: x402/examples/typescript/facilitator
- * Verifies and settles x402 payments on Arc testnet.
+ * Verifies and settles x402 payments on Arc testnet (or the chain set by
+ * FACILITATOR_RPC_URL / FACILITATOR_CHAIN_ID). Settlement transactions go
+ * through the signer backend chosen by FACILITATOR_SIGNER.
+ *
+ * /settle blocks until the transaction is confirmed, unless the caller sends
+ * `Prefer: respond-async`: the payment is then verified, queued (see
+ * ./settlement-queue) and answered with a ticket to poll at
+ * GET /settlements/:id.
+ *
+ * With SETTLEMENT_BATCH set, settlements are collected and sent in batches
+ * (see ./settlement-batch); synchronous callers then wait for their batch, or
+ * get a ticket if it has not landed within SETTLEMENT_WAIT_SECONDS.
+ *
+ * Once tenants are configured (see ./facilitator-tenants), every endpoint but
+ * /supported and /health needs a tenant API key, and payments are held to
+ * the tenant's payTo allowlist, rate limit and monthly gas budget. Usage is
+ * accounted per tenant (see ./facilitator-usage).
  */
 
+import { randomUUID } from "crypto";
 import { x402Facilitator } from "@x402/core/facilitator";
 import {
   PaymentPayload,
@@ -12,139 +29,54 @@ import {
   SettleResponse,
   VerifyResponse,
 } from "@x402/core/types";
-import { toFacilitatorEvmSigner } from "@x402/evm";
 import { registerExactEvmScheme } from "@x402/evm/exact/facilitator";
 import dotenv from "dotenv";
 import express from "express";
-import { createPublicClient, http, Abi } from "viem";
-import { arcTestnet } from "../lib/arc";
+import { formatUnits, Hex, parseUnits } from "viem";
+import { dataFilePath } from "../lib/storage";
+import { createFacilitatorSigner, FacilitatorSigner } from "./facilitator-signer";
 import {
-  getWallet,
-  executeContractCall,
-  sendRawTransaction,
-} from "../lib/circle-wallet";
+  authenticateTenant,
+  consumeRateLimit,
+  getTenants,
+  isMultiTenant,
+  isPayToAllowed,
+  Tenant,
+} from "./facilitator-tenants";
+import { createUsageLog } from "./facilitator-usage";
+import { getBatchConfig, isAuthorizationUsed, settleBatch } from "./settlement-batch";
+import { SettlementJob, SettlementJobState, SettlementQueue, toTicket } from "./settlement-queue";
+import {
+  abortSettlement,
+  claimSettlement,
+  completeSettlement,
+  createSettlementStore,
+  findSettlement,
+  getAuthorization,
+  queueSettlement,
+  SettlementClaim,
+  settlementKey,
+  SettlementRecord,
+  verifyBlockedReason,
+} from "./settlement-store";
 
 dotenv.config({ path: ".env.local" });
 
 const PORT = process.env.PORT || "4022";
-const ARC_NETWORK = "eip155:5042002";
 
-if (!process.env.CIRCLE_FACILITATOR_WALLET_ID) {
-  console.error("❌ CIRCLE_FACILITATOR_WALLET_ID environment variable is required");
-  console.error("   Create a wallet using the MCP tool and set its ID here");
-  process.exit(1);
-}
+// Set once the signer backend is up (see ./facilitator-signer)
+let facilitatorSigner: FacilitatorSigner | null = null;
 
-const facilitatorWalletId = process.env.CIRCLE_FACILITATOR_WALLET_ID;
+// Settlements by authorization and idempotency key (see ./settlement-store)
+const settlementStore = createSettlementStore();
 
-// Get facilitator wallet address from Circle
-async function getFacilitatorAddress(): Promise<`0x${string}`> {
-  const wallet = await getWallet(facilitatorWalletId);
-  if (!wallet?.address) {
-    throw new Error("Failed to get facilitator wallet address");
-  }
-  return wallet.address as `0x${string}`;
-}
+// Verifications, settlements and gas per tenant (see ./facilitator-usage)
+const usageLog = createUsageLog();
 
-// Create viem public client (read-only, no wallet needed)
-const publicClient = createPublicClient({
-  chain: arcTestnet,
-  transport: http(),
-});
+// Null unless SETTLEMENT_BATCH is set (see ./settlement-batch)
+const batchConfig = getBatchConfig();
 
-// Format ABI function signature for Circle SDK
-function formatAbiFunctionSignature(
-  functionName: string,
-  abi: readonly unknown[]
-): string {
-  const abiTyped = abi as Abi;
-  const func = abiTyped.find(
-    (item): item is Extract<typeof item, { type: "function" }> =>
-      item.type === "function" && item.name === functionName
-  );
-
-  if (!func) {
-    throw new Error(`Function ${functionName} not found in ABI`);
-  }
-
-  const params = func.inputs.map((input) => input.type).join(",");
-  return `${functionName}(${params})`;
-}
-
-// Create Circle-based EVM signer
-async function createCircleEvmSigner() {
-  const facilitatorAddress = await getFacilitatorAddress();
-  console.log(`🔐 Facilitator wallet (Circle): ${facilitatorAddress}`);
-
-  return toFacilitatorEvmSigner({
-    address: facilitatorAddress,
-
-    // Read-only operations use viem public client
-    getCode: (args: { address: `0x${string}` }) => publicClient.getCode(args),
-
-    readContract: (args: {
-      address: `0x${string}`;
-      abi: readonly unknown[];
-      functionName: string;
-      args?: readonly unknown[];
-    }) =>
-      publicClient.readContract({
-        ...args,
-        args: args.args || [],
-      } as any),
-
-    verifyTypedData: (args: {
-      address: `0x${string}`;
-      domain: Record<string, unknown>;
-      types: Record<string, unknown>;
-      primaryType: string;
-      message: Record<string, unknown>;
-      signature: `0x${string}`;
-    }) => publicClient.verifyTypedData(args as any),
-
-    // Write operations use Circle SDK
-    writeContract: async (args: {
-      address: `0x${string}`;
-      abi: readonly unknown[];
-      functionName: string;
-      args: readonly unknown[];
-    }): Promise<`0x${string}`> => {
-      const abiFunctionSignature = formatAbiFunctionSignature(args.functionName, args.abi);
-
-      // Convert args to Circle-compatible format (strings)
-      const abiParameters = args.args.map((arg) =>
-        typeof arg === "bigint" ? arg.toString() : arg
-      ) as (string | number | boolean)[];
-
-      const result = await executeContractCall(
-        facilitatorWalletId,
-        args.address,
-        abiFunctionSignature,
-        abiParameters
-      );
-
-      return result.txHash as `0x${string}`;
-    },
-
-    sendTransaction: async (args: {
-      to: `0x${string}`;
-      data: `0x${string}`;
-    }): Promise<`0x${string}`> => {
-      const result = await sendRawTransaction(
-        facilitatorWalletId,
-        args.to,
-        args.data
-      );
-
-      return result.txHash as `0x${string}`;
-    },
-
-    waitForTransactionReceipt: async (args: { hash: `0x${string}` }) => {
-      // Transaction is already confirmed by Circle polling, just fetch receipt
-      return publicClient.waitForTransactionReceipt(args);
-    },
-  });
-}
+const SETTLEMENT_JOB_STATES: SettlementJobState[] = ["queued", "settling", "settled", "failed"];
 
 // Initialize facilitator with hooks
 const facilitator = new x402Facilitator()
@@ -167,13 +99,87 @@ const facilitator = new x402Facilitator()
     console.log("❌ Settle failed", context);
   });
 
+// Background settlement for `Prefer: respond-async` callers (and every caller
+// when batching); started with the signer
+const settlementQueue = new SettlementQueue({
+  path: process.env.FACILITATOR_STORE === "memory"
+    ? null
+    : dataFilePath(process.env.FACILITATOR_QUEUE_FILE || "facilitator-settlement-queue.jsonl"),
+  batch: batchConfig,
+  worker: {
+    settle: (payload, requirements) => facilitator.settle(payload, requirements),
+    isSettled: async (payload, requirements) =>
+      !!facilitatorSigner && isAuthorizationUsed(facilitatorSigner.evmSigner, payload, requirements),
+    settleBatch: async (items) => {
+      if (!facilitatorSigner || !batchConfig) throw new Error("Settlement batching is not configured");
+      return settleBatch(batchConfig, facilitator, facilitatorSigner.evmSigner, items);
+    },
+  },
+  onFinished: (job) => {
+    if (!job.response) return;
+    completeSettlement(settlementStore, job.record, job.response);
+    recordSettlement(job.tenantId || null, job.paymentRequirements, job.response);
+  },
+});
+
+// Account a finished settlement to its tenant; the transaction fee is fetched in the background
+function recordSettlement(tenantId: string | null, requirements: PaymentRequirements, response: SettleResponse) {
+  usageLog.recordSettlement(tenantId, requirements, response);
+
+  const hash = response.transaction;
+  if (!hash || usageLog.hasFee(hash) || !facilitatorSigner) return;
+  facilitatorSigner.getTransactionFee(hash as Hex)
+    .then(fee => usageLog.recordFee(hash, fee))
+    .catch(error => console.error(`Failed to fetch fee of ${hash}:`, error));
+}
+
+// The authenticated tenant, or null on an open facilitator
+function getTenant(res: express.Response): Tenant | null {
+  return (res.locals.tenant as Tenant | undefined) || null;
+}
+
+function isOverGasBudget(tenant: Tenant | null): boolean {
+  if (!tenant?.monthlyGasBudget || !facilitatorSigner) return false;
+  const budget = parseUnits(tenant.monthlyGasBudget, facilitatorSigner.chain.nativeCurrency.decimals);
+  return usageLog.isOverGasBudget(tenant.id, budget);
+}
+
+// Require a tenant API key once tenants are configured
+function requireTenant(req: express.Request, res: express.Response, next: express.NextFunction) {
+  if (!isMultiTenant()) return next();
+
+  const tenant = authenticateTenant(req.get("authorization"));
+  if (!tenant) {
+    return res.status(401).json({ error: "Missing or invalid facilitator API key" });
+  }
+  res.locals.tenant = tenant;
+  next();
+}
+
+// Tenant rate limit and payTo allowlist for /verify and /settle
+function enforcePaymentPolicy(req: express.Request, res: express.Response, next: express.NextFunction) {
+  const tenant = getTenant(res);
+  if (!tenant) return next();
+
+  const retryAfter = consumeRateLimit(tenant);
+  if (retryAfter !== null) {
+    res.set("Retry-After", String(retryAfter));
+    return res.status(429).json({ error: "Rate limit exceeded" });
+  }
+
+  const requirements = req.body?.paymentRequirements as PaymentRequirements | undefined;
+  if (requirements && !isPayToAllowed(tenant, String(requirements.payTo || ""))) {
+    return res.status(403).json({ error: `payTo ${requirements.payTo} is not allowed for this API key` });
+  }
+  next();
+}
 
 // Express app
 const app = express();
 app.use(express.json());
 
 // POST /verify
-app.post("/verify", async (req, res) => {
+app.post("/verify", requireTenant, enforcePaymentPolicy, async (req, res) => {
   try {
     const { paymentPayload, paymentRequirements } = req.body as {
       paymentPayload: PaymentPayload;
@@ -186,10 +192,23 @@ app.post("/verify", async (req, res) => {
       });
     }
 
+    // An authorization being settled (or already settled) cannot pay twice
+    const tenantId = getTenant(res)?.id || null;
+    const blocked = verifyBlockedReason(settlementStore, settlementKey(paymentPayload, paymentRequirements));
+    if (blocked) {
+      usageLog.recordVerify(tenantId, false);
+      return res.json({
+        isValid: false,
+        invalidReason: blocked,
+        payer: getAuthorization(paymentPayload)?.payer,
+      } as VerifyResponse);
+    }
+
     const response: VerifyResponse = await facilitator.verify(
       paymentPayload,
       paymentRequirements
     );
+    usageLog.recordVerify(tenantId, response.isValid);
     res.json(response);
   } catch (error) {
     console.error("Verify error:", error);
@@ -200,38 +219,198 @@ app.post("/verify", async (req, res) => {
 });
 
 // POST /settle
-app.post("/settle", async (req, res) => {
+//
+// Idempotent per authorization, and per `Idempotency-Key` header when sent:
+// a repeat of a settled payment gets the original SettleResponse (with
+// `Idempotent-Replayed: true`). Payments are verified before they claim
+// their authorization; a failed attempt can be retried.
+// With `Prefer: respond-async`, answers 202 with a queued settlement ticket.
+// With batching, other callers wait for their batch to land, up to
+// SETTLEMENT_WAIT_SECONDS, and then get the ticket too.
+// Idempotency keys are scoped to the tenant.
+app.post("/settle", requireTenant, enforcePaymentPolicy, async (req, res) => {
+  const { paymentPayload, paymentRequirements } = req.body as {
+    paymentPayload: PaymentPayload;
+    paymentRequirements: PaymentRequirements;
+  };
+
+  if (!paymentPayload || !paymentRequirements) {
+    return res.status(400).json({
+      error: "Missing paymentPayload or paymentRequirements",
+    });
+  }
+
+  const tenant = getTenant(res);
+  if (isOverGasBudget(tenant)) {
+    return res.status(403).json({ error: "Monthly gas budget exhausted for this API key" });
+  }
+
+  const tenantId = tenant?.id || null;
+  const idempotencyKey = req.get("idempotency-key");
+  const respondAsync = /\brespond-async\b/i.test(req.get("prefer") || "");
+  const scopedKey = idempotencyKey && tenantId ? `${tenantId}:${idempotencyKey}` : idempotencyKey || undefined;
+  const prior = findSettlement(settlementStore, paymentPayload, paymentRequirements, scopedKey);
+  if (prior) {
+    return sendPriorSettlement(res, prior, tenantId, respondAsync);
+  }
+
+  let record: SettlementRecord | null = null;
   try {
-    const { paymentPayload, paymentRequirements } = req.body;
+    // Only a verified payment may claim its authorization, and the resource
+    // server only delivers for valid payments
+    const verification = await facilitator.verify(paymentPayload, paymentRequirements);
+    if (!verification.isValid) {
+      const response: SettleResponse = {
+        success: false,
+        errorReason: verification.invalidReason || "invalid_payment",
+        payer: verification.payer,
+        transaction: "",
+        network: paymentRequirements.network,
+      };
+      recordSettlement(tenantId, paymentRequirements, response);
+      return res.json(response);
+    }
 
-    if (!paymentPayload || !paymentRequirements) {
-      return res.status(400).json({
-        error: "Missing paymentPayload or paymentRequirements",
-      });
+    const claim = claimSettlement(settlementStore, paymentPayload, paymentRequirements, verification, scopedKey);
+    if (claim.status !== "claimed") {
+      return sendPriorSettlement(res, claim, tenantId, respondAsync);
+    }
+    record = claim.record;
+
+    if (respondAsync || batchConfig) {
+      const ticketId = randomUUID();
+      const queued = queueSettlement(settlementStore, record, ticketId);
+      const job = settlementQueue.enqueue(paymentPayload, paymentRequirements, queued, ticketId, tenantId || undefined);
+      if (respondAsync) {
+        return sendTicket(res, job);
+      }
+
+      // A batch that takes too long to land is handed back as a ticket
+      let timer: NodeJS.Timeout | undefined;
+      const finished = await Promise.race([
+        settlementQueue.waitFor(job.id),
+        new Promise<null>(resolve => {
+          timer = setTimeout(() => resolve(null), getSettleWaitMs());
+        }),
+      ]);
+      clearTimeout(timer);
+      if (!finished) {
+        return sendTicket(res, settlementQueue.get(job.id) || job);
+      }
+      return res.json(finished.response);
     }
 
-    const response: SettleResponse = await facilitator.settle(
-      paymentPayload as PaymentPayload,
-      paymentRequirements as PaymentRequirements
-    );
+    const response: SettleResponse = await facilitator.settle(paymentPayload, paymentRequirements);
+    completeSettlement(settlementStore, record, response);
+    recordSettlement(tenantId, paymentRequirements, response);
     res.json(response);
   } catch (error) {
     console.error("Settle error:", error);
 
     if (error instanceof Error && error.message.includes("Settlement aborted:")) {
-      return res.json({
+      const response = {
         success: false,
         errorReason: error.message.replace("Settlement aborted: ", ""),
         network: req.body?.paymentPayload?.network || "unknown",
-      } as SettleResponse);
+      } as SettleResponse;
+      completeSettlement(settlementStore, record, response);
+      recordSettlement(tenantId, paymentRequirements, response);
+      return res.json(response);
     }
 
+    // Outcome unknown (e.g. RPC timeout): let the caller retry
+    abortSettlement(settlementStore, record, error);
     res.status(500).json({
       error: error instanceof Error ? error.message : "Unknown error",
     });
   }
 });
 
+// Answer a /settle for a payment another call already settled or is settling
+function sendPriorSettlement(
+  res: express.Response,
+  prior: Exclude<SettlementClaim, { status: "claimed" }>,
+  tenantId: string | null,
+  respondAsync: boolean
+) {
+  switch (prior.status) {
+    case "replay":
+      res.set("Idempotent-Replayed", "true");
+      return res.json(prior.response);
+    case "in-flight": {
+      const job = prior.ticketId ? settlementQueue.get(prior.ticketId) : undefined;
+      if (respondAsync && job && (job.tenantId || null) === tenantId) {
+        return sendTicket(res, job);
+      }
+      return res.status(409).json({
+        error: "Settlement already in progress for this authorization",
+        ...(prior.ticketId && { ticketId: prior.ticketId }),
+      });
+    }
+    case "conflict":
+      return res.status(422).json({ error: prior.error });
+  }
+}
+
+// How long a synchronous /settle waits for its batch before answering with a ticket
+function getSettleWaitMs(): number {
+  return parseFloat(process.env.SETTLEMENT_WAIT_SECONDS || "30") * 1000;
+}
+
+// 202 for a queued settlement; the body stays a valid SettleResponse for x402 clients
+function sendTicket(res: express.Response, job: SettlementJob) {
+  const ticket = toTicket(job);
+  res.status(202).location(`/settlements/${ticket.id}`).json({
+    success: true,
+    payer: ticket.payer || undefined,
+    transaction: "",
+    network: ticket.network,
+    ticket,
+  });
+}
+
+// GET /settlements - The caller's queued settlements, newest first (?state=queued|settling|settled|failed, ?batch=<id>)
+app.get("/settlements", requireTenant, (req, res) => {
+  const state = typeof req.query.state === "string" ? req.query.state as SettlementJobState : undefined;
+  if (state && !SETTLEMENT_JOB_STATES.includes(state)) {
+    return res.status(400).json({ error: `Unknown state: ${state}` });
+  }
+  const batchId = typeof req.query.batch === "string" ? req.query.batch : undefined;
+  const tenant = getTenant(res);
+  const jobs = settlementQueue.list(state, batchId).filter(job => !tenant || job.tenantId === tenant.id);
+  res.json({ settlements: jobs.slice(0, 100).map(toTicket) });
+});
+
+// GET /settlements/:id - Settlement ticket status
+// Tickets queued before tenants were configured carry no tenant and stay
+// readable by any tenant; another tenant's ticket is refused, not hidden
+app.get("/settlements/:id", requireTenant, (req: express.Request<{ id: string }>, res) => {
+  const job = settlementQueue.get(req.params.id);
+  if (!job) {
+    return res.status(404).json({ error: "Settlement ticket not found" });
+  }
+  const tenant = getTenant(res);
+  if (tenant && job.tenantId && job.tenantId !== tenant.id) {
+    return res.status(403).json({ error: "Settlement ticket belongs to another API key" });
+  }
+  res.json(toTicket(job));
+});
+
+// GET /usage - The caller's usage this month (UTC), with its limits
+app.get("/usage", requireTenant, (_req, res) => {
+  const tenant = getTenant(res);
+  const usage = usageLog.getUsage(tenant?.id || null);
+  const decimals = facilitatorSigner?.chain.nativeCurrency.decimals ?? 18;
+
+  res.json({
+    ...usage,
+    gasUsed: formatUnits(BigInt(usage.gasUsed), decimals),
+    gasBudget: tenant?.monthlyGasBudget || null,
+    rateLimit: tenant?.rateLimit || null,
+    payTo: tenant?.payTo || null,
+  });
+});
+
 // GET /supported
 app.get("/supported", async (req, res) => {
   try {
@@ -247,36 +426,51 @@ app.get("/supported", async (req, res) => {
 
 // Health check
 app.get("/health", async (_req, res) => {
-  try {
-    const address = await getFacilitatorAddress();
-    res.json({ status: "ok", network: ARC_NETWORK, wallet: address, type: "circle" });
-  } catch (error) {
-    res.status(500).json({ status: "error", error: String(error) });
+  if (!facilitatorSigner) {
+    return res.status(503).json({ status: "starting" });
   }
+  const { network, address, backend } = facilitatorSigner;
+  res.json({ status: "ok", network, wallet: address, type: backend, batch: batchConfig?.mode || null });
 });
 
 // Start server
 async function main() {
   try {
-    // Create Circle-based signer
-    const evmSigner = await createCircleEvmSigner();
+    // Fail fast on an invalid tenants file
+    const tenants = getTenants();
+    console.log(tenants.length > 0
+      ? `🔑 ${tenants.length} tenant(s): ${tenants.map(t => t.id).join(", ")}`
+      : "⚠️ No tenants configured: /verify and /settle are open to anyone");
+
+    const signer = await createFacilitatorSigner();
+    console.log(`🔐 Facilitator wallet (${signer.backend}): ${signer.address}`);
 
-    // Register Arc network with Circle signer
+    // Register the settlement network with the configured signer
     registerExactEvmScheme(facilitator, {
-      signer: evmSigner,
-      networks: ARC_NETWORK,
+      signer: signer.evmSigner,
+      networks: signer.network,
       deployERC4337WithEIP6492: false,
     });
+    // A missing multicall contract would make every batch "succeed" without transferring
+    if (batchConfig?.mode === "multicall") {
+      const code = await signer.evmSigner.getCode({ address: batchConfig.multicallAddress });
+      if (!code || code === "0x") {
+        throw new Error(`No multicall contract at ${batchConfig.multicallAddress} (set SETTLEMENT_MULTICALL_ADDRESS)`);
+      }
+    }
+    facilitatorSigner = signer;
+    settlementQueue.start();
 
-    console.log(`📡 Registered network: ${ARC_NETWORK}`);
-
-    const address = await getFacilitatorAddress();
+    console.log(`📡 Registered network: ${signer.network}`);
+    if (batchConfig) {
+      console.log(`📦 Batching settlements (${batchConfig.mode}): up to ${batchConfig.size} per batch, ${batchConfig.windowMs / 1000}s window`);
+    }
 
     app.listen(parseInt(PORT), () => {
-      console.log(`\n🚀 Arc x402 Facilitator (Circle SDK) running on http://localhost:${PORT}`);
-      console.log(`   Network: ${ARC_NETWORK} (Arc Testnet)`);
-      console.log(`   Wallet: ${address} (Circle-managed)`);
-      console.log(`   Endpoints: POST /verify, POST /settle, GET /supported, GET /health\n`);
+      console.log(`\n🚀 Arc x402 Facilitator (${signer.backend} signer) running on http://localhost:${PORT}`);
+      console.log(`   Network: ${signer.network} (${signer.chain.name})`);
+      console.log(`   Wallet: ${signer.address}`);
+      console.log(`   Endpoints: POST /verify, POST /settle, GET /settlements/:id, GET /usage, GET /supported, GET /health\n`);
     });
   } catch (error) {
     console.error("Failed to start facilitator:", error);
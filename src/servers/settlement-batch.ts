@@ -0,0 +1,286 @@
+/**
+ * Batched settlement
+ *
+ * At a cent per article, one transaction per payment costs more in latency
+ * (and on mainnet, in gas) than the payment is worth. With SETTLEMENT_BATCH
+ * set, the settlement queue (see ./settlement-queue) collects verified
+ * payments and settles them together:
+ * - multicall: one transaction calling Multicall3's aggregate3 with a
+ *   transferWithAuthorization per payment (SETTLEMENT_MULTICALL_ADDRESS,
+ *   default: the canonical Multicall3 deployment)
+ * - grouped: one transaction per payment, submitted concurrently so their
+ *   confirmations overlap
+ *
+ * A batch goes out once SETTLEMENT_BATCH_SIZE payments (default: 20) are
+ * waiting, or when the oldest has waited SETTLEMENT_BATCH_WINDOW_SECONDS
+ * (default: 5). Each payment keeps its own outcome: in a multicall, a
+ * transfer that reverts (e.g. the payer spent the funds meanwhile) fails
+ * alone, and which transfers landed is read back from the token's
+ * authorizationState.
+ */
+
+import type { x402Facilitator } from "@x402/core/facilitator";
+import type { PaymentPayload, PaymentRequirements, SettleResponse } from "@x402/core/types";
+import type { FacilitatorEvmSigner } from "@x402/evm";
+import { encodeFunctionData, getAddress, Hex, parseSignature } from "viem";
+import { ARC_CONTRACTS } from "../lib/arc";
+import type { SettlementItem, SettlementOutcome } from "./settlement-queue";
+import { getAuthorization } from "./settlement-store";
+
+export const BATCH_MODES = ["multicall", "grouped"] as const;
+
+export type BatchMode = (typeof BATCH_MODES)[number];
+
+export interface SettlementBatchConfig {
+  mode: BatchMode;
+  size: number; // payments per batch
+  windowMs: number; // how long the oldest payment waits for the batch to fill
+  multicallAddress: `0x${string}`;
+}
+
+interface ExactAuthorization {
+  from: `0x${string}`;
+  to: `0x${string}`;
+  value: string;
+  validAfter: string;
+  validBefore: string;
+  nonce: Hex;
+}
+
+// EIP-3009 functions of the stablecoin contracts
+const EIP3009_ABI = [
+  {
+    inputs: [
+      { name: "authorizer", type: "address" },
+      { name: "nonce", type: "bytes32" },
+    ],
+    name: "authorizationState",
+    outputs: [{ name: "", type: "bool" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { name: "from", type: "address" },
+      { name: "to", type: "address" },
+      { name: "value", type: "uint256" },
+      { name: "validAfter", type: "uint256" },
+      { name: "validBefore", type: "uint256" },
+      { name: "nonce", type: "bytes32" },
+      { name: "v", type: "uint8" },
+      { name: "r", type: "bytes32" },
+      { name: "s", type: "bytes32" },
+    ],
+    name: "transferWithAuthorization",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { name: "from", type: "address" },
+      { name: "to", type: "address" },
+      { name: "value", type: "uint256" },
+      { name: "validAfter", type: "uint256" },
+      { name: "validBefore", type: "uint256" },
+      { name: "nonce", type: "bytes32" },
+      { name: "signature", type: "bytes" },
+    ],
+    name: "transferWithAuthorization",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const MULTICALL3_ABI = [
+  {
+    inputs: [
+      {
+        components: [
+          { name: "target", type: "address" },
+          { name: "allowFailure", type: "bool" },
+          { name: "callData", type: "bytes" },
+        ],
+        name: "calls",
+        type: "tuple[]",
+      },
+    ],
+    name: "aggregate3",
+    outputs: [
+      {
+        components: [
+          { name: "success", type: "bool" },
+          { name: "returnData", type: "bytes" },
+        ],
+        name: "returnData",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "payable",
+    type: "function",
+  },
+] as const;
+
+/**
+ * Batching settings from the environment, or null when batching is off
+ */
+export function getBatchConfig(): SettlementBatchConfig | null {
+  const mode = process.env.SETTLEMENT_BATCH as BatchMode | undefined;
+  if (!mode || (mode as string) === "off") return null;
+  if (!BATCH_MODES.includes(mode)) {
+    throw new Error(`Unknown SETTLEMENT_BATCH "${mode}" (expected off, ${BATCH_MODES.join(", ")})`);
+  }
+
+  return {
+    mode,
+    size: Math.max(1, parseInt(process.env.SETTLEMENT_BATCH_SIZE || "20")),
+    windowMs: parseFloat(process.env.SETTLEMENT_BATCH_WINDOW_SECONDS || "5") * 1000,
+    multicallAddress: getAddress(process.env.SETTLEMENT_MULTICALL_ADDRESS || ARC_CONTRACTS.MULTICALL3),
+  };
+}
+
+/**
+ * Whether an EIP-3009 authorization was already used on-chain
+ */
+export async function isAuthorizationUsed(
+  signer: FacilitatorEvmSigner,
+  payload: PaymentPayload,
+  requirements: PaymentRequirements
+): Promise<boolean> {
+  const authorization = getAuthorization(payload);
+  if (!authorization) return false;
+  const used = await signer.readContract({
+    address: getAddress(requirements.asset),
+    abi: EIP3009_ABI,
+    functionName: "authorizationState",
+    args: [authorization.payer, authorization.nonce],
+  });
+  return used === true;
+}
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+function failure(item: SettlementItem, errorReason: string, transaction = ""): SettleResponse {
+  return {
+    success: false,
+    errorReason,
+    payer: getAuthorization(item.paymentPayload)?.payer,
+    transaction,
+    network: item.paymentRequirements.network,
+  };
+}
+
+// Same call the exact scheme makes: v/r/s for EOA signatures, bytes otherwise
+function encodeTransfer(payload: PaymentPayload): Hex {
+  const { authorization, signature } = payload.payload as { authorization: ExactAuthorization; signature: Hex };
+  const args = [
+    getAddress(authorization.from),
+    getAddress(authorization.to),
+    BigInt(authorization.value),
+    BigInt(authorization.validAfter),
+    BigInt(authorization.validBefore),
+    authorization.nonce,
+  ] as const;
+
+  if (signature.length === 132) {
+    const { v, yParity, r, s } = parseSignature(signature);
+    return encodeFunctionData({
+      abi: EIP3009_ABI,
+      functionName: "transferWithAuthorization",
+      args: [...args, Number(v ?? yParity), r, s],
+    });
+  }
+  return encodeFunctionData({
+    abi: EIP3009_ABI,
+    functionName: "transferWithAuthorization",
+    args: [...args, signature],
+  });
+}
+
+// Every payment through facilitator.settle at once
+function settleGrouped(facilitator: x402Facilitator, items: SettlementItem[]): Promise<SettlementOutcome[]> {
+  return Promise.all(items.map(item =>
+    facilitator.settle(item.paymentPayload, item.paymentRequirements).catch(toError)
+  ));
+}
+
+async function settleMulticall(
+  config: SettlementBatchConfig,
+  facilitator: x402Facilitator,
+  signer: FacilitatorEvmSigner,
+  items: SettlementItem[]
+): Promise<SettlementOutcome[]> {
+  const outcomes: SettlementOutcome[] = new Array(items.length);
+
+  // Re-verify: balances and validity windows may have changed while queued
+  const included: number[] = [];
+  for (const [index, item] of items.entries()) {
+    try {
+      const verification = await facilitator.verify(item.paymentPayload, item.paymentRequirements);
+      if (verification.isValid) {
+        included.push(index);
+      } else {
+        outcomes[index] = failure(item, verification.invalidReason || "invalid_payment");
+      }
+    } catch (error) {
+      outcomes[index] = toError(error);
+    }
+  }
+  if (included.length === 0) return outcomes;
+
+  // A single payment does not need the multicall detour
+  if (included.length === 1) {
+    const [index] = included;
+    outcomes[index] = await settleGrouped(facilitator, [items[index]]).then(([outcome]) => outcome);
+    return outcomes;
+  }
+
+  const calls = included.map(index => ({
+    target: getAddress(items[index].paymentRequirements.asset),
+    allowFailure: true,
+    callData: encodeTransfer(items[index].paymentPayload),
+  }));
+  const hash = await signer.sendTransaction({
+    to: config.multicallAddress,
+    data: encodeFunctionData({ abi: MULTICALL3_ABI, functionName: "aggregate3", args: [calls] }),
+  });
+  const receipt = await signer.waitForTransactionReceipt({ hash });
+  if (receipt.status !== "success") {
+    // Nothing in a reverted transaction landed; the queue retries each payment
+    throw new Error(`Batch transaction ${hash} reverted`);
+  }
+  console.log(`📦 Batch transaction ${hash}: ${included.length} transfers`);
+
+  // Failed calls do not revert the batch: check which authorizations were used
+  for (const index of included) {
+    const item = items[index];
+    try {
+      outcomes[index] = await isAuthorizationUsed(signer, item.paymentPayload, item.paymentRequirements)
+        ? { success: true, payer: getAuthorization(item.paymentPayload)?.payer, transaction: hash, network: item.paymentRequirements.network }
+        : failure(item, "transaction_failed", hash);
+    } catch (error) {
+      outcomes[index] = toError(error);
+    }
+  }
+  return outcomes;
+}
+
+/**
+ * Settle a batch of verified payments, with one outcome per payment (in order)
+ *
+ * An Error outcome means the payment's fate is unknown; the queue retries it.
+ * Throws when the batch as a whole failed.
+ */
+export function settleBatch(
+  config: SettlementBatchConfig,
+  facilitator: x402Facilitator,
+  signer: FacilitatorEvmSigner,
+  items: SettlementItem[]
+): Promise<SettlementOutcome[]> {
+  return config.mode === "multicall"
+    ? settleMulticall(config, facilitator, signer, items)
+    : settleGrouped(facilitator, items);
+}
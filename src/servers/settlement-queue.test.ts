@@ -0,0 +1,247 @@
+import type { PaymentPayload, PaymentRequirements, SettleResponse } from "@x402/core/types";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { SettlementItem, SettlementJob, SettlementQueue, SettlementWorker } from "./settlement-queue";
+
+const PAYER = "0x2222222222222222222222222222222222222222";
+
+const requirements = {
+  scheme: "exact",
+  network: "eip155:5042002",
+  asset: "0x3600000000000000000000000000000000000000",
+  amount: "10000",
+  payTo: "0x1111111111111111111111111111111111111111",
+  maxTimeoutSeconds: 60,
+  extra: {},
+} as PaymentRequirements;
+
+function payload(nonce: string, validBefore = Math.floor(Date.now() / 1000) + 3600): PaymentPayload {
+  return {
+    x402Version: 2,
+    resource: { url: "http://localhost:3000/api/premium", description: "Premium content", mimeType: "application/json" },
+    accepted: requirements,
+    payload: {
+      signature: "0x",
+      authorization: { from: PAYER, to: requirements.payTo, value: "10000", validAfter: "0", validBefore: String(validBefore), nonce },
+    },
+  };
+}
+
+function settled(transaction: string): SettleResponse {
+  return { success: true, payer: PAYER, transaction, network: requirements.network };
+}
+
+function createWorker(): SettlementWorker & { settle: ReturnType<typeof vi.fn>; isSettled: ReturnType<typeof vi.fn> } {
+  return {
+    settle: vi.fn(async () => settled("0xsettled")),
+    isSettled: vi.fn(async () => false),
+  };
+}
+
+// Let the queue's poll timer fire
+async function tick(ms = 1000) {
+  await vi.advanceTimersByTimeAsync(ms);
+}
+
+function createQueue(worker: SettlementWorker, path: string | null = null) {
+  const queue = new SettlementQueue({ path, worker });
+  queue.start();
+  return queue;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  process.env.SETTLEMENT_RETRY_SECONDS = "0";
+  process.env.SETTLEMENT_MAX_ATTEMPTS = "3";
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.clearAllTimers();
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("SettlementQueue", () => {
+  it("settles a queued payment in the background", async () => {
+    const worker = createWorker();
+    const queue = createQueue(worker);
+
+    const job = queue.enqueue(payload("0x01"), requirements, null);
+    expect(job.state).toBe("queued");
+    await tick();
+
+    expect(queue.get(job.id)).toMatchObject({ state: "settled", attempts: 1, response: { transaction: "0xsettled" } });
+    expect(worker.isSettled).not.toHaveBeenCalled();
+  });
+
+  it("retries a settle call that threw", async () => {
+    const worker = createWorker();
+    worker.settle.mockRejectedValueOnce(new Error("RPC timeout"));
+    const queue = createQueue(worker);
+
+    const job = queue.enqueue(payload("0x02"), requirements, null);
+    await tick();
+    expect(queue.get(job.id)).toMatchObject({ state: "queued", attempts: 1, lastError: "RPC timeout" });
+
+    await tick();
+    expect(queue.get(job.id)).toMatchObject({ state: "settled", attempts: 2 });
+    expect(worker.isSettled).toHaveBeenCalledTimes(1);
+    expect(worker.settle).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not re-submit a payment whose timed-out attempt landed", async () => {
+    const worker = createWorker();
+    worker.settle.mockRejectedValueOnce(new Error("RPC timeout"));
+    worker.isSettled.mockResolvedValueOnce(true);
+    const queue = createQueue(worker);
+
+    const job = queue.enqueue(payload("0x03"), requirements, null);
+    await tick();
+    await tick();
+
+    expect(queue.get(job.id)).toMatchObject({ state: "settled", response: { success: true, transaction: "" } });
+    expect(worker.settle).toHaveBeenCalledTimes(1);
+  });
+
+  it("fails a payment whose retries ran out and whose authorization is unused", async () => {
+    const worker = createWorker();
+    worker.settle.mockRejectedValue(new Error("RPC timeout"));
+    const queue = createQueue(worker);
+
+    const job = queue.enqueue(payload("0x04"), requirements, null);
+    const finished = queue.waitFor(job.id);
+    await tick();
+    await tick();
+    await tick();
+
+    expect(await finished).toMatchObject({
+      state: "failed",
+      attempts: 3,
+      response: { errorReason: "settlement_retries_exhausted" },
+    });
+    expect(worker.settle).toHaveBeenCalledTimes(3);
+  });
+
+  it("settles a payment whose last attempt landed after retries ran out", async () => {
+    const worker = createWorker();
+    worker.settle.mockRejectedValue(new Error("RPC timeout"));
+    // Checked before attempts 2 and 3, then once more after the last one
+    worker.isSettled.mockResolvedValueOnce(false).mockResolvedValueOnce(false).mockResolvedValueOnce(true);
+    const queue = createQueue(worker);
+
+    const job = queue.enqueue(payload("0x05"), requirements, null);
+    await tick();
+    await tick();
+    await tick();
+
+    expect(queue.get(job.id)).toMatchObject({ state: "settled", attempts: 3 });
+  });
+
+  it("keeps an exhausted payment queued until its on-chain state is known", async () => {
+    const worker = createWorker();
+    worker.settle.mockRejectedValue(new Error("RPC timeout"));
+    worker.isSettled
+      .mockResolvedValueOnce(false)
+      .mockResolvedValueOnce(false)
+      .mockRejectedValueOnce(new Error("RPC down"));
+    const queue = createQueue(worker);
+
+    const job = queue.enqueue(payload("0x06"), requirements, null);
+    await tick();
+    await tick();
+    await tick();
+    expect(queue.get(job.id)).toMatchObject({ state: "queued", exhausted: true, lastError: "RPC down" });
+
+    await tick(5 * 60 * 1000);
+    expect(queue.get(job.id)).toMatchObject({ state: "failed", response: { errorReason: "settlement_retries_exhausted" } });
+    // Only checked again, never re-submitted
+    expect(worker.settle).toHaveBeenCalledTimes(3);
+  });
+
+  it("fails right away when the facilitator aborts the settlement", async () => {
+    const worker = createWorker();
+    worker.settle.mockRejectedValueOnce(new Error("Settlement aborted: invalid_signature"));
+    const queue = createQueue(worker);
+
+    const job = queue.enqueue(payload("0x07"), requirements, null);
+    await tick();
+
+    expect(queue.get(job.id)).toMatchObject({ state: "failed", attempts: 1, response: { errorReason: "invalid_signature" } });
+  });
+
+  it("fails an authorization past its validBefore without submitting it", async () => {
+    const worker = createWorker();
+    const queue = createQueue(worker);
+
+    const job = queue.enqueue(payload("0x08", Math.floor(Date.now() / 1000) - 1), requirements, null);
+    await tick();
+
+    expect(queue.get(job.id)).toMatchObject({ state: "failed", response: { errorReason: "authorization_expired" } });
+    expect(worker.settle).not.toHaveBeenCalled();
+  });
+
+  it("settles a batch member on its own when it fails within the batch", async () => {
+    const worker = createWorker();
+    worker.settleBatch = vi.fn(async (items: SettlementItem[]) => items.map((_, index) =>
+      index === 0 ? settled("0xbatch") : new Error("unknown outcome")
+    ));
+    const queue = new SettlementQueue({ path: null, worker, batch: { size: 2, windowMs: 5000 } });
+    queue.start();
+
+    const first = queue.enqueue(payload("0x09"), requirements, null);
+    const second = queue.enqueue(payload("0x0a"), requirements, null);
+    await tick();
+
+    expect(queue.get(first.id)).toMatchObject({ state: "settled", response: { transaction: "0xbatch" } });
+    expect(queue.get(second.id)).toMatchObject({ state: "queued", attempts: 1 });
+    expect(queue.get(first.id)?.batchId).toBe(queue.get(second.id)?.batchId);
+
+    // Alone, it waits for the batch window before going out
+    await tick(5000);
+    expect(queue.get(second.id)).toMatchObject({ state: "settled", attempts: 2 });
+  });
+
+  describe("with a job file", () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), "arc-settlement-queue-"));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("picks up a job interrupted mid-attempt after a restart", async () => {
+      const path = join(dir, "queue.jsonl");
+      const interrupted: SettlementJob = {
+        id: "ticket-1",
+        paymentPayload: payload("0x0b"),
+        paymentRequirements: requirements,
+        record: null,
+        state: "settling",
+        attempts: 1,
+        nextAttemptAt: Date.now(),
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      };
+      writeFileSync(path, JSON.stringify(interrupted) + "\n");
+
+      const worker = createWorker();
+      worker.isSettled.mockResolvedValueOnce(true);
+      const queue = createQueue(worker, path);
+      expect(queue.get("ticket-1")?.state).toBe("queued");
+
+      await tick();
+      expect(queue.get("ticket-1")).toMatchObject({ state: "settled", attempts: 2 });
+      expect(worker.settle).not.toHaveBeenCalled();
+
+      // The outcome survives another restart
+      expect(new SettlementQueue({ path, worker }).get("ticket-1")?.state).toBe("settled");
+    });
+  });
+});
@@ -0,0 +1,399 @@
+/**
+ * Asynchronous settlement queue
+ *
+ * With `Prefer: respond-async`, /settle verifies the payment, queues its
+ * settlement here and answers right away with a ticket, so the resource
+ * server does not wait for on-chain confirmation. Jobs are persisted (JSONL
+ * under the data directory, or in memory with FACILITATOR_STORE=memory) and
+ * settled one at a time by a background worker.
+ *
+ * Failure handling:
+ * - a settle call that throws is retried with exponential backoff
+ *   (SETTLEMENT_RETRY_SECONDS, default 5, doubling up to 5 minutes), at most
+ *   SETTLEMENT_MAX_ATTEMPTS times (default: 5)
+ * - before a retry, and before giving up once attempts run out, the
+ *   authorization is checked on-chain: an earlier attempt may have landed
+ *   even though it timed out. While that check itself fails, the job stays
+ *   queued and is only checked again, never re-submitted
+ * - a SettleResponse with success: false, or an authorization past its
+ *   validBefore, fails the job right away
+ *
+ * With batching (see ./settlement-batch), due jobs are settled together once
+ * enough of them are waiting or the oldest has waited long enough; each job
+ * still succeeds, fails or is retried on its own.
+ *
+ * Jobs interrupted by a restart are picked up again on startup.
+ */
+
+import { randomUUID } from "crypto";
+import type { PaymentPayload, PaymentRequirements, SettleResponse } from "@x402/core/types";
+import { appendFileSync, existsSync, readFileSync } from "fs";
+import { getAuthorization, SettlementRecord } from "./settlement-store";
+
+export type SettlementJobState = "queued" | "settling" | "settled" | "failed";
+
+export interface SettlementJob {
+  id: string; // the ticket ID handed to the caller
+  paymentPayload: PaymentPayload;
+  paymentRequirements: PaymentRequirements;
+  record: SettlementRecord | null; // settlement store record (see ./settlement-store)
+  state: SettlementJobState;
+  batchId?: string; // latest batch the job was settled in
+  exhausted?: boolean; // out of attempts, waiting for an on-chain check before failing
+  tenantId?: string; // facilitator tenant that queued it (see ./facilitator-tenants)
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  response?: SettleResponse;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// What callers see at GET /settlements/:id
+export interface SettlementTicket {
+  id: string;
+  state: SettlementJobState;
+  network: string;
+  payer: string | null;
+  batchId: string | null;
+  attempts: number;
+  nextAttemptAt: number | null;
+  transaction: string | null; // empty when it landed but the hash is unknown
+  errorReason: string | null;
+  lastError: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type SettlementItem = Pick<SettlementJob, "paymentPayload" | "paymentRequirements">;
+
+// A batch member's result; an Error when its outcome is unknown (retried like a thrown settle)
+export type SettlementOutcome = SettleResponse | Error;
+
+export interface SettlementWorker {
+  /** Submit the settlement and wait for the chain */
+  settle(payload: PaymentPayload, requirements: PaymentRequirements): Promise<SettleResponse>;
+  /** Whether the authorization was already used on-chain */
+  isSettled(payload: PaymentPayload, requirements: PaymentRequirements): Promise<boolean>;
+  /** Settle several payments at once, one outcome per item (required for batching) */
+  settleBatch?(items: SettlementItem[]): Promise<SettlementOutcome[]>;
+}
+
+export interface SettlementBatchOptions {
+  size: number; // jobs per batch
+  windowMs: number; // how long the oldest due job waits for the batch to fill
+}
+
+export interface SettlementQueueOptions {
+  path: string | null; // JSONL file, or null to keep jobs in memory
+  worker: SettlementWorker;
+  batch?: SettlementBatchOptions | null; // null: one job at a time
+  /** Called once per job when it is settled or failed for good */
+  onFinished?: (job: SettlementJob) => void;
+}
+
+const POLL_MS = 1000;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+
+function getMaxAttempts(): number {
+  return parseInt(process.env.SETTLEMENT_MAX_ATTEMPTS || "5");
+}
+
+function getRetryMs(attempts: number): number {
+  const base = parseFloat(process.env.SETTLEMENT_RETRY_SECONDS || "5") * 1000;
+  return Math.min(MAX_BACKOFF_MS, base * 2 ** Math.max(0, attempts - 1));
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// EIP-3009 authorizations cannot be used after validBefore (unix seconds)
+function isExpired(payload: PaymentPayload, now: number): boolean {
+  const validBefore = (payload.payload?.authorization as { validBefore?: unknown } | undefined)?.validBefore;
+  return validBefore !== undefined && Number(validBefore) * 1000 <= now;
+}
+
+/**
+ * Public view of a job
+ */
+export function toTicket(job: SettlementJob): SettlementTicket {
+  return {
+    id: job.id,
+    state: job.state,
+    network: job.paymentRequirements.network,
+    payer: job.response?.payer || getAuthorization(job.paymentPayload)?.payer || null,
+    batchId: job.batchId || null,
+    attempts: job.attempts,
+    nextAttemptAt: job.state === "queued" ? job.nextAttemptAt : null,
+    transaction: job.response?.success ? job.response.transaction : null,
+    errorReason: job.response && !job.response.success ? job.response.errorReason || "settlement_failed" : null,
+    lastError: job.lastError || null,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+  };
+}
+
+export class SettlementQueue {
+  private jobs = new Map<string, SettlementJob>();
+  private waiters = new Map<string, ((job: SettlementJob) => void)[]>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private processing = false;
+
+  constructor(private readonly options: SettlementQueueOptions) {
+    this.replay();
+  }
+
+  private replay() {
+    const { path } = this.options;
+    if (!path || !existsSync(path)) return;
+
+    const lines = readFileSync(path, "utf8").split("\n");
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        const job = JSON.parse(line) as SettlementJob;
+        this.jobs.set(job.id, job);
+      } catch {
+        console.warn(`Skipping corrupt settlement job line in ${path}`);
+      }
+    }
+
+    // Interrupted mid-attempt: try again (the on-chain check catches ones that landed)
+    for (const job of this.jobs.values()) {
+      if (job.state === "settling") this.save({ ...job, state: "queued", nextAttemptAt: Date.now() });
+    }
+  }
+
+  private save(job: SettlementJob) {
+    const updated = { ...job, updatedAt: Date.now() };
+    if (this.options.path) appendFileSync(this.options.path, JSON.stringify(updated) + "\n");
+    this.jobs.set(updated.id, updated);
+    return updated;
+  }
+
+  private finish(job: SettlementJob, response: SettleResponse) {
+    const finished = this.save({ ...job, state: response.success ? "settled" : "failed", response });
+    if (response.success) {
+      console.log(`✅ Settlement ${job.id} landed${response.transaction ? `: ${response.transaction}` : ""}`);
+    } else {
+      console.log(`❌ Settlement ${job.id} failed: ${response.errorReason}`);
+    }
+    this.options.onFinished?.(finished);
+    this.waiters.get(job.id)?.forEach(resolve => resolve(finished));
+    this.waiters.delete(job.id);
+  }
+
+  private failure(job: SettlementJob, errorReason: string): SettleResponse {
+    return {
+      success: false,
+      errorReason,
+      payer: getAuthorization(job.paymentPayload)?.payer,
+      transaction: "",
+      network: job.paymentRequirements.network,
+    };
+  }
+
+  // Settlement that landed on-chain, although its transaction hash is not known here
+  private landed(job: SettlementJob): SettleResponse {
+    return {
+      success: true,
+      payer: getAuthorization(job.paymentPayload)?.payer,
+      transaction: "",
+      network: job.paymentRequirements.network,
+    };
+  }
+
+  private begin(job: SettlementJob, batchId?: string) {
+    return this.save({ ...job, state: "settling", attempts: job.attempts + 1, ...(batchId && { batchId }) });
+  }
+
+  // Settles jobs that need no transaction: landed on an earlier attempt, or expired
+  private async precheck(job: SettlementJob): Promise<boolean> {
+    const { paymentPayload, paymentRequirements } = job;
+
+    // An earlier attempt may have landed after its call timed out
+    if (job.attempts > 1 && await this.options.worker.isSettled(paymentPayload, paymentRequirements)) {
+      this.finish(job, this.landed(job));
+      return true;
+    }
+    if (isExpired(paymentPayload, Date.now())) {
+      this.finish(job, this.failure(job, "authorization_expired"));
+      return true;
+    }
+    return false;
+  }
+
+  // Out of attempts: fail only once the chain confirms the last attempt did not land
+  private async exhaust(job: SettlementJob) {
+    try {
+      if (await this.options.worker.isSettled(job.paymentPayload, job.paymentRequirements)) {
+        return this.finish(job, this.landed(job));
+      }
+      this.finish(job, this.failure(job, "settlement_retries_exhausted"));
+    } catch (error) {
+      const message = errorMessage(error);
+      console.warn(`⚠️ Settlement ${job.id} is out of attempts but its on-chain state is unknown, checking again later: ${message}`);
+      this.save({ ...job, state: "queued", exhausted: true, lastError: message, nextAttemptAt: Date.now() + MAX_BACKOFF_MS });
+    }
+  }
+
+  // The attempt threw: fail for good, or queue a retry
+  private async retry(job: SettlementJob, error: unknown) {
+    const message = errorMessage(error);
+    if (message.includes("Settlement aborted:")) {
+      return this.finish(job, this.failure(job, message.replace("Settlement aborted: ", "")));
+    }
+    if (job.attempts >= getMaxAttempts()) {
+      return this.exhaust({ ...job, lastError: message });
+    }
+
+    const retryMs = getRetryMs(job.attempts);
+    console.warn(`⚠️ Settlement ${job.id} attempt ${job.attempts} failed, retrying in ${retryMs / 1000}s: ${message}`);
+    this.save({ ...job, state: "queued", lastError: message, nextAttemptAt: Date.now() + retryMs });
+  }
+
+  private async attempt(queued: SettlementJob) {
+    const job = this.begin(queued);
+    try {
+      if (await this.precheck(job)) return;
+      this.finish(job, await this.options.worker.settle(job.paymentPayload, job.paymentRequirements));
+    } catch (error) {
+      await this.retry(job, error);
+    }
+  }
+
+  private async attemptBatch(queued: SettlementJob[]) {
+    const { settleBatch } = this.options.worker;
+    if (!settleBatch) throw new Error("Settlement batching needs a worker with settleBatch");
+
+    const batchId = randomUUID();
+    const jobs: SettlementJob[] = [];
+    for (const job of queued.map(job => this.begin(job, batchId))) {
+      try {
+        if (!await this.precheck(job)) jobs.push(job);
+      } catch (error) {
+        await this.retry(job, error);
+      }
+    }
+    if (jobs.length === 0) return;
+
+    console.log(`📦 Settling batch ${batchId} (${jobs.length} payments)`);
+    try {
+      const outcomes = await settleBatch(jobs.map(({ paymentPayload, paymentRequirements }) => ({ paymentPayload, paymentRequirements })));
+      for (const [index, job] of jobs.entries()) {
+        const outcome = outcomes[index] || new Error("No outcome for batch member");
+        if (outcome instanceof Error) await this.retry(job, outcome);
+        else this.finish(job, outcome);
+      }
+    } catch (error) {
+      for (const job of jobs) {
+        await this.retry(job, error);
+      }
+    }
+  }
+
+  // Due jobs, one batch at a time (or one job, without batching)
+  private async settleDue(queued: SettlementJob[]) {
+    // Out of attempts: only the on-chain check is left
+    for (const job of queued.filter(job => job.exhausted)) {
+      await this.exhaust(job);
+    }
+
+    const due = queued.filter(job => !job.exhausted);
+    const { batch } = this.options;
+    if (!batch) {
+      for (const job of due) {
+        await this.attempt(job);
+      }
+      return;
+    }
+
+    while (due.length > 0) {
+      const oldest = Math.min(...due.map(job => job.nextAttemptAt));
+      if (due.length < batch.size && Date.now() - oldest < batch.windowMs) return;
+      await this.attemptBatch(due.splice(0, batch.size));
+    }
+  }
+
+  // One settlement (or batch) at a time: the signer's transactions must not race for nonces
+  private async tick() {
+    if (this.processing) return;
+    this.processing = true;
+    try {
+      const now = Date.now();
+      const due = [...this.jobs.values()]
+        .filter(job => job.state === "queued" && job.nextAttemptAt <= now)
+        .sort((a, b) => a.createdAt - b.createdAt);
+      await this.settleDue(due);
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  /**
+   * Start the background worker
+   */
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.tick().catch(error => console.error("Settlement queue error:", error));
+    }, POLL_MS);
+  }
+
+  /**
+   * Queue a verified payment for settlement, returning its job
+   */
+  enqueue(
+    paymentPayload: PaymentPayload,
+    paymentRequirements: PaymentRequirements,
+    record: SettlementRecord | null,
+    id: string = randomUUID(),
+    tenantId?: string
+  ): SettlementJob {
+    const now = Date.now();
+    const job = this.save({
+      id,
+      ...(tenantId && { tenantId }),
+      paymentPayload,
+      paymentRequirements,
+      record,
+      state: "queued",
+      attempts: 0,
+      nextAttemptAt: now,
+      createdAt: now,
+      updatedAt: now,
+    });
+    console.log(`📥 Queued settlement ${job.id}`);
+    return job;
+  }
+
+  /**
+   * Get a job by ticket ID
+   */
+  get(id: string): SettlementJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  /**
+   * Wait until a job is settled or failed for good
+   */
+  waitFor(id: string): Promise<SettlementJob> {
+    const job = this.jobs.get(id);
+    if (!job) return Promise.reject(new Error(`Unknown settlement job: ${id}`));
+    if (job.state === "settled" || job.state === "failed") return Promise.resolve(job);
+
+    return new Promise(resolve => {
+      this.waiters.set(id, [...(this.waiters.get(id) || []), resolve]);
+    });
+  }
+
+  /**
+   * List jobs, newest first, optionally only those in one state or batch
+   */
+  list(state?: SettlementJobState, batchId?: string): SettlementJob[] {
+    return [...this.jobs.values()]
+      .filter(job => (!state || job.state === state) && (!batchId || job.batchId === batchId))
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+}
@@ -0,0 +1,159 @@
+import type { PaymentPayload, PaymentRequirements, SettleResponse, VerifyResponse } from "@x402/core/types";
+import { describe, expect, it } from "vitest";
+import {
+  abortSettlement,
+  claimSettlement,
+  completeSettlement,
+  findSettlement,
+  MemorySettlementStore,
+  queueSettlement,
+  settlementKey,
+  SettlementRecord,
+  verifyBlockedReason,
+} from "./settlement-store";
+
+const PAYER = "0x2222222222222222222222222222222222222222";
+
+const requirements = {
+  scheme: "exact",
+  network: "eip155:5042002",
+  asset: "0x3600000000000000000000000000000000000000",
+  amount: "10000",
+  payTo: "0x1111111111111111111111111111111111111111",
+  maxTimeoutSeconds: 60,
+  extra: {},
+} as PaymentRequirements;
+
+function payload(nonce: string): PaymentPayload {
+  return {
+    x402Version: 2,
+    resource: { url: "http://localhost:3000/api/premium", description: "Premium content", mimeType: "application/json" },
+    accepted: requirements,
+    payload: {
+      signature: "0x",
+      authorization: { from: PAYER, to: requirements.payTo, value: "10000", validAfter: "0", validBefore: "9999999999", nonce },
+    },
+  };
+}
+
+const settled: SettleResponse = { success: true, payer: PAYER, transaction: "0xsettled", network: requirements.network };
+const rejected: SettleResponse = { success: false, errorReason: "invalid_exact_evm_payload_signature", transaction: "", network: requirements.network };
+const verified: VerifyResponse = { isValid: true, payer: PAYER };
+
+// Claim a verified settlement that must be claimable
+function claim(store: MemorySettlementStore, nonce: string, idempotencyKey?: string): SettlementRecord {
+  const result = claimSettlement(store, payload(nonce), requirements, verified, idempotencyKey);
+  if (result.status !== "claimed" || !result.record) throw new Error(`Expected a claim, got ${result.status}`);
+  return result.record;
+}
+
+// Same authorization, another signature
+function forged(nonce: string): PaymentPayload {
+  const original = payload(nonce);
+  return { ...original, payload: { ...original.payload, signature: "0xforged" } };
+}
+
+describe("findSettlement", () => {
+  it("replays the original response to a repeated settle", () => {
+    const store = new MemorySettlementStore();
+    completeSettlement(store, claim(store, "0x01"), settled);
+
+    expect(findSettlement(store, payload("0x01"), requirements)).toEqual({ status: "replay", response: settled });
+  });
+
+  it("does not replay a settled response to another payload for the authorization", () => {
+    const store = new MemorySettlementStore();
+    completeSettlement(store, claim(store, "0x01"), settled);
+
+    expect(findSettlement(store, forged("0x01"), requirements)).toEqual({
+      status: "conflict",
+      error: "Authorization was already settled",
+    });
+  });
+
+  it("lets a failed settlement be tried again instead of replaying it", () => {
+    const store = new MemorySettlementStore();
+    completeSettlement(store, claim(store, "0x01"), rejected);
+
+    expect(findSettlement(store, payload("0x01"), requirements)).toBeNull();
+    expect(claim(store, "0x01")).toMatchObject({ state: "settling" });
+  });
+
+  it("refuses a second settle while the first is in flight", () => {
+    const store = new MemorySettlementStore();
+    claim(store, "0x01");
+
+    expect(findSettlement(store, payload("0x01"), requirements)).toEqual({ status: "in-flight" });
+  });
+
+  it("points a repeated settle at the queued ticket", () => {
+    const store = new MemorySettlementStore();
+    queueSettlement(store, claim(store, "0x01", "order-1"), "ticket-1");
+
+    expect(findSettlement(store, payload("0x01"), requirements, "order-1")).toEqual({ status: "in-flight", ticketId: "ticket-1" });
+  });
+
+  it("keeps the queued ticket from another payload for the authorization", () => {
+    const store = new MemorySettlementStore();
+    queueSettlement(store, claim(store, "0x01"), "ticket-1");
+
+    expect(findSettlement(store, forged("0x01"), requirements)).toEqual({ status: "in-flight" });
+  });
+
+  it("rejects an idempotency key reused for another payment", () => {
+    const store = new MemorySettlementStore();
+    completeSettlement(store, claim(store, "0x01", "order-1"), settled);
+
+    expect(findSettlement(store, payload("0x02"), requirements, "order-1")).toMatchObject({ status: "conflict" });
+  });
+
+  it("retries a settlement left in flight past the lock", () => {
+    const store = new MemorySettlementStore();
+    claim(store, "0x01");
+    const later = Date.now() + 301 * 1000;
+
+    expect(findSettlement(store, payload("0x01"), requirements, undefined, later)).toBeNull();
+  });
+});
+
+describe("claimSettlement", () => {
+  it("refuses a payment that failed verification", () => {
+    const store = new MemorySettlementStore();
+    const invalid: VerifyResponse = { isValid: false, invalidReason: "invalid_exact_evm_payload_signature" };
+
+    expect(() => claimSettlement(store, payload("0x01"), requirements, invalid)).toThrow("Cannot claim an invalid payment");
+    expect(store.get(settlementKey(payload("0x01"), requirements)!)).toBeUndefined();
+  });
+
+  it("refuses an authorization from another payer than the one verified", () => {
+    const store = new MemorySettlementStore();
+    const otherPayer: VerifyResponse = { isValid: true, payer: "0x3333333333333333333333333333333333333333" };
+
+    expect(claimSettlement(store, payload("0x01"), requirements, otherPayer)).toMatchObject({ status: "conflict" });
+  });
+
+  it("answers like findSettlement when another attempt claimed it first", () => {
+    const store = new MemorySettlementStore();
+    claim(store, "0x01");
+
+    expect(claimSettlement(store, payload("0x01"), requirements, verified)).toEqual({ status: "in-flight" });
+  });
+
+  it("lets an attempt that threw be claimed again", () => {
+    const store = new MemorySettlementStore();
+    abortSettlement(store, claim(store, "0x01", "order-1"), new Error("RPC timeout"));
+
+    const retry = claim(store, "0x01");
+    expect(retry).toMatchObject({ state: "settling", idempotencyKey: "order-1" });
+  });
+});
+
+describe("verifyBlockedReason", () => {
+  it("blocks verification of an authorization that settled", () => {
+    const store = new MemorySettlementStore();
+    const record = claim(store, "0x01");
+    completeSettlement(store, record, settled);
+
+    expect(verifyBlockedReason(store, record.key)).toBe("authorization_already_settled");
+  });
+});
@@ -0,0 +1,314 @@
+/**
+ * Facilitator settlement store
+ *
+ * Durable record of every settlement the facilitator attempted, keyed by the
+ * EIP-3009 authorization (network + payer + nonce) and by the caller's
+ * optional `Idempotency-Key`. It lets the facilitator:
+ * - answer a repeated /settle with the original SettleResponse instead of a
+ *   revert from the token contract (only for a settled payment, and only to
+ *   the identical payload)
+ * - reject /verify for an authorization that is being settled or already was
+ * - refuse a second /settle while the first is still in flight (or queued,
+ *   see ./settlement-queue)
+ *
+ * Backends mirror the payment ledger (see ../lib/ledger):
+ * - file (default): append-only JSONL log under the data directory
+ * - memory: process-local, lost on restart
+ *
+ * Select with FACILITATOR_STORE=file|memory; FACILITATOR_STORE_FILE overrides
+ * the file name. A settlement left in flight by a crash is retried once it
+ * is older than SETTLEMENT_LOCK_SECONDS (default: 300); the token contract
+ * still refuses to use an authorization twice. A payment is only claimed
+ * once verified, so a forged payload naming someone else's authorization
+ * cannot block or fail it.
+ */
+
+import type { PaymentPayload, PaymentRequirements, SettleResponse, VerifyResponse } from "@x402/core/types";
+import { createHash } from "crypto";
+import { appendFileSync, existsSync, readFileSync } from "fs";
+import { dataFilePath } from "../lib/storage";
+
+export type SettlementRecordState =
+  | "queued" // handed to the settlement queue (async or batched), owned by it until it finishes
+  | "settling" // submitted to the chain, outcome not known yet
+  | "settled" // SettleResponse with success: true
+  | "failed" // SettleResponse with success: false; not replayed, so it may be retried
+  | "error"; // the attempt threw; the outcome is unknown, so it may be retried
+
+export interface SettlementRecord {
+  key: string; // see settlementKey()
+  idempotencyKey?: string;
+  network: string;
+  payer?: string;
+  nonce?: string;
+  fingerprint?: string; // hash of the verified payload (signature included)
+  state: SettlementRecordState;
+  ticketId?: string; // settlement queue job, for asynchronous settlements
+  response?: SettleResponse; // replayed to repeat callers
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface SettlementStore {
+  /** Look up a record by settlement key */
+  get(key: string): SettlementRecord | undefined;
+  /** Look up a record by the caller's idempotency key */
+  getByIdempotencyKey(idempotencyKey: string): SettlementRecord | undefined;
+  /** Insert or replace a record */
+  put(record: SettlementRecord): void;
+}
+
+// Outcome of asking to settle an authorization
+export type SettlementClaim =
+  | { status: "claimed"; record: SettlementRecord | null } // null: payment is not tracked
+  | { status: "replay"; response: SettleResponse }
+  | { status: "in-flight"; ticketId?: string }
+  | { status: "conflict"; error: string };
+
+const DEFAULT_LOCK_SECONDS = 300;
+
+/**
+ * Process-local settlement store
+ */
+export class MemorySettlementStore implements SettlementStore {
+  protected records = new Map<string, SettlementRecord>();
+  protected idempotencyKeys = new Map<string, string>();
+
+  get(key: string): SettlementRecord | undefined {
+    const record = this.records.get(key);
+    return record && { ...record };
+  }
+
+  getByIdempotencyKey(idempotencyKey: string): SettlementRecord | undefined {
+    const key = this.idempotencyKeys.get(idempotencyKey);
+    return key ? this.get(key) : undefined;
+  }
+
+  put(record: SettlementRecord): void {
+    this.records.set(record.key, { ...record });
+    if (record.idempotencyKey) this.idempotencyKeys.set(record.idempotencyKey, record.key);
+  }
+}
+
+/**
+ * Append-only JSONL settlement store
+ *
+ * Every write appends the full record; the file is replayed on startup and
+ * the last line for a key wins.
+ */
+export class FileSettlementStore extends MemorySettlementStore {
+  constructor(private readonly path: string) {
+    super();
+    this.replay();
+  }
+
+  private replay() {
+    if (!existsSync(this.path)) return;
+
+    const lines = readFileSync(this.path, "utf8").split("\n");
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        super.put(JSON.parse(line) as SettlementRecord);
+      } catch {
+        console.warn(`Skipping corrupt settlement line in ${this.path}`);
+      }
+    }
+  }
+
+  put(record: SettlementRecord): void {
+    appendFileSync(this.path, JSON.stringify(record) + "\n");
+    super.put(record);
+  }
+}
+
+/**
+ * Create the settlement store selected by environment
+ */
+export function createSettlementStore(): SettlementStore {
+  const backend = process.env.FACILITATOR_STORE || "file";
+
+  switch (backend) {
+    case "memory":
+      return new MemorySettlementStore();
+    case "file":
+      return new FileSettlementStore(dataFilePath(process.env.FACILITATOR_STORE_FILE || "facilitator-settlements.jsonl"));
+    default:
+      throw new Error(`Unknown FACILITATOR_STORE: ${backend} (expected "file" or "memory")`);
+  }
+}
+
+function getLockMs(): number {
+  return parseInt(process.env.SETTLEMENT_LOCK_SECONDS || String(DEFAULT_LOCK_SECONDS)) * 1000;
+}
+
+function isInFlight(record: SettlementRecord, now: number): boolean {
+  if (record.state === "queued") return true;
+  return record.state === "settling" && now - record.updatedAt < getLockMs();
+}
+
+/**
+ * Payer and nonce of an EIP-3009 payment payload, if it is one
+ */
+export function getAuthorization(payload: PaymentPayload): { payer: string; nonce: string } | null {
+  const authorization = payload.payload?.authorization as { from?: unknown; nonce?: unknown } | undefined;
+  if (typeof authorization?.from !== "string" || typeof authorization?.nonce !== "string") return null;
+  return { payer: authorization.from, nonce: authorization.nonce };
+}
+
+/**
+ * Key identifying a settlement
+ *
+ * The authorization when the payload has one, otherwise the idempotency key.
+ * Null when neither is available (such payments are not tracked).
+ */
+export function settlementKey(
+  payload: PaymentPayload,
+  requirements: PaymentRequirements,
+  idempotencyKey?: string
+): string | null {
+  const authorization = getAuthorization(payload);
+  if (authorization) {
+    return `${requirements.network}:${authorization.payer}:${authorization.nonce}`.toLowerCase();
+  }
+  return idempotencyKey ? `idempotency:${idempotencyKey}` : null;
+}
+
+/**
+ * Why an authorization must not be verified again, or null if it may
+ */
+export function verifyBlockedReason(store: SettlementStore, key: string | null, now = Date.now()): string | null {
+  const record = key ? store.get(key) : undefined;
+  if (!record) return null;
+  if (isInFlight(record, now)) return "authorization_in_flight";
+  if (record.state === "settled") return "authorization_already_settled";
+  return null;
+}
+
+// Hash of the signed part of a payload, so a repeat call can be told apart
+// from another payload naming the same authorization
+function payloadFingerprint(payload: PaymentPayload): string {
+  return createHash("sha256").update(JSON.stringify(payload.payload ?? null)).digest("hex");
+}
+
+/**
+ * Look up an earlier settlement of a payment, before it is verified
+ *
+ * Only a payload identical to the recorded one (same authorization and
+ * signature) gets the recorded response or ticket: the recorded payload was
+ * verified, an unverified one naming the same authorization was not. Only
+ * settled responses are replayed; a failed or errored attempt leaves the
+ * payment free to claim again. Null when it may be verified and claimed.
+ */
+export function findSettlement(
+  store: SettlementStore,
+  payload: PaymentPayload,
+  requirements: PaymentRequirements,
+  idempotencyKey?: string,
+  now = Date.now()
+): Exclude<SettlementClaim, { status: "claimed" }> | null {
+  const key = settlementKey(payload, requirements, idempotencyKey);
+  if (!key) return null;
+
+  const byIdempotencyKey = idempotencyKey ? store.getByIdempotencyKey(idempotencyKey) : undefined;
+  if (byIdempotencyKey && byIdempotencyKey.key !== key) {
+    return { status: "conflict", error: "Idempotency-Key was already used for a different payment" };
+  }
+
+  const existing = byIdempotencyKey || store.get(key);
+  if (!existing) return null;
+
+  const identical = existing.fingerprint === payloadFingerprint(payload);
+  if (isInFlight(existing, now)) {
+    return { status: "in-flight", ...(identical && existing.ticketId && { ticketId: existing.ticketId }) };
+  }
+  if (existing.state === "settled" && existing.response) {
+    return identical
+      ? { status: "replay", response: existing.response }
+      : { status: "conflict", error: "Authorization was already settled" };
+  }
+  return null;
+}
+
+/**
+ * Claim a verified settlement before submitting it
+ *
+ * The key is built once verification has vouched for the authorization, so
+ * an unverified payload can never hold a claim. Answers like findSettlement()
+ * if another attempt got there first; otherwise the record is marked as
+ * settling.
+ */
+export function claimSettlement(
+  store: SettlementStore,
+  payload: PaymentPayload,
+  requirements: PaymentRequirements,
+  verification: VerifyResponse,
+  idempotencyKey?: string,
+  now = Date.now()
+): SettlementClaim {
+  if (!verification.isValid) {
+    throw new Error(`Cannot claim an invalid payment: ${verification.invalidReason || "invalid_payment"}`);
+  }
+  const authorization = getAuthorization(payload);
+  if (authorization && authorization.payer.toLowerCase() !== verification.payer?.toLowerCase()) {
+    return { status: "conflict", error: "Verified payer does not match the authorization" };
+  }
+
+  const key = settlementKey(payload, requirements, idempotencyKey);
+  if (!key) return { status: "claimed", record: null };
+
+  // Another attempt may have claimed or settled it since findSettlement()
+  const prior = findSettlement(store, payload, requirements, idempotencyKey, now);
+  if (prior) return prior;
+
+  const existing = (idempotencyKey && store.getByIdempotencyKey(idempotencyKey)) || store.get(key);
+  const record: SettlementRecord = {
+    key,
+    ...((idempotencyKey || existing?.idempotencyKey) && { idempotencyKey: idempotencyKey || existing?.idempotencyKey }),
+    network: requirements.network,
+    ...(authorization && { payer: authorization.payer, nonce: authorization.nonce }),
+    fingerprint: payloadFingerprint(payload),
+    state: "settling",
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+  };
+  store.put(record);
+  return { status: "claimed", record };
+}
+
+/**
+ * Hand a claimed settlement over to the settlement queue
+ */
+export function queueSettlement(store: SettlementStore, record: SettlementRecord | null, ticketId: string): SettlementRecord | null {
+  if (!record) return null;
+  const queued: SettlementRecord = { ...record, state: "queued", ticketId, updatedAt: Date.now() };
+  store.put(queued);
+  return queued;
+}
+
+/**
+ * Record the facilitator's answer for a claimed settlement
+ */
+export function completeSettlement(store: SettlementStore, record: SettlementRecord | null, response: SettleResponse) {
+  if (!record) return;
+  store.put({
+    ...record,
+    state: response.success ? "settled" : "failed",
+    response,
+    updatedAt: Date.now(),
+  });
+}
+
+/**
+ * Release a claimed settlement whose attempt threw, so it can be retried
+ */
+export function abortSettlement(store: SettlementStore, record: SettlementRecord | null, error: unknown) {
+  if (!record) return;
+  store.put({
+    ...record,
+    state: "error",
+    error: error instanceof Error ? error.message : String(error),
+    updatedAt: Date.now(),
+  });
+}
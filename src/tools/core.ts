@@ -52,7 +52,11 @@ const getTransactionSchema = z.object({
 const payForContentSchema = z.object({
   wallet_id: z.string().describe('Circle wallet ID to pay from'),
   url: z.string().describe('URL of the paywalled resource'),
-  max_price: z.string().default('1.00').describe('Maximum price willing to pay in USDC (e.g., "0.01")'),
+  max_price: z.string().default('1.00').describe('Maximum price willing to pay in the chosen stablecoin (e.g., "0.01")'),
+  asset: z.enum(['USDC', 'EURC']).optional().describe('Stablecoin to pay with (default: first option offered by the merchant)'),
+  access_receipt: z.string().optional().describe('Access receipt from an earlier payment for this URL; re-reads without paying again'),
+  access_pass: z.string().optional().describe('Pass token from a purchased /api/pass/:id time-based pass; covered content is served without paying'),
+  preview_only: z.boolean().optional().describe('Only return the free preview and price offered with the 402, without paying'),
 });
 
 // Tool type - using any for execute to avoid complex generic constraints
@@ -202,9 +206,9 @@ export const arcTools: Record<string, CoreTool> = {
   arc_pay_for_content: {
     name: 'arc_pay_for_content',
     description:
-      'Autonomously pay for paywalled content using x402 protocol. Handles the full payment flow: request content, receive 402 Payment Required, sign payment via Circle SDK, retry with payment signature, return content. Returns both the content and transaction hash.',
+      'Autonomously pay for paywalled content using x402 protocol. Handles the full payment flow: request content, receive 402 Payment Required, sign payment via Circle SDK, retry with payment signature, return content. Returns the content, transaction hash and an access_receipt; pass that receipt back to re-read the same URL without paying again. Set preview_only to see the free preview (title, author, word count, excerpt) and price before deciding to buy.',
     inputSchema: payForContentSchema,
-    execute: async ({ wallet_id, url, max_price }: z.infer<typeof payForContentSchema>) => {
+    execute: async ({ wallet_id, url, max_price, asset, access_receipt, access_pass, preview_only }: z.infer<typeof payForContentSchema>) => {
       const maxPriceUSDC = parseFloat(max_price || '1.00');
 
       // Step 1: Get wallet info
@@ -216,7 +220,14 @@ export const arcTools: Record<string, CoreTool> = {
       }
 
       // Step 2: Initial request (expect 402)
-      const initialRes = await fetch(url);
+      // Send our address so payer-specific pricing (volume tiers) is quoted up front
+      const initialRes = await fetch(url, {
+        headers: {
+          'x-payer-address': wallet.address,
+          ...(access_receipt && { 'x-access-receipt': access_receipt }),
+          ...(access_pass && { 'x-access-pass': access_pass }),
+        },
+      });
 
       if (initialRes.status !== 402) {
         const content = await initialRes.text();
@@ -224,10 +235,16 @@ export const arcTools: Record<string, CoreTool> = {
           success: true,
           paid: false,
           content,
-          message: 'Resource was not paywalled - no payment needed',
+          message: access_receipt || access_pass
+            ? 'Served with existing access receipt or pass - no payment needed'
+            : 'Resource was not paywalled - no payment needed',
         };
       }
 
+      // Teaser the merchant includes with the 402, if any
+      const unpaidBody = await initialRes.json().catch(() => null);
+      const preview = unpaidBody?.preview ?? null;
+
       // Step 3: Extract payment requirements
       const paymentRequiredHeader = initialRes.headers.get('payment-required');
       if (!paymentRequiredHeader) {
@@ -240,12 +257,38 @@ export const arcTools: Record<string, CoreTool> = {
         return { success: false, error: 'No payment options available' };
       }
 
-      const requirements = accepts[0];
+      // Pick the requested stablecoin, otherwise the merchant's first choice
+      const requirements = asset
+        ? accepts.find((a: { extra?: { name?: string } }) => a.extra?.name === asset)
+        : accepts[0];
+      if (!requirements) {
+        return { success: false, error: `Merchant does not accept ${asset}`, preview };
+      }
+
+      if (preview_only) {
+        return {
+          success: true,
+          paid: false,
+          preview,
+          price: requirements.amount ? Number(requirements.amount) / 1_000_000 : null,
+          asset: requirements.extra?.name || 'USDC',
+          message: 'Preview only - call again without preview_only to buy',
+        };
+      }
 
       // Step 4: Calculate amount
       let amount: bigint;
       if (requirements.amount) {
         amount = BigInt(requirements.amount);
+
+        // Prices are dynamic now, so enforce max_price on exact amounts too
+        if (Number(amount) / 1_000_000 > maxPriceUSDC) {
+          return {
+            success: false,
+            error: `Price ${Number(amount) / 1_000_000} exceeds max_price ${maxPriceUSDC}`,
+            preview,
+          };
+        }
       } else {
         const priceStr = requirements.maxAmountRequired || requirements.price || '$0.01';
         const priceNum = parseFloat(priceStr.replace('$', ''));
@@ -254,6 +297,7 @@ export const arcTools: Record<string, CoreTool> = {
           return {
             success: false,
             error: `Price ${priceNum} USDC exceeds max_price ${maxPriceUSDC} USDC`,
+            preview,
           };
         }
 
@@ -276,7 +320,8 @@ export const arcTools: Record<string, CoreTool> = {
         validAfter,
         validBefore,
         nonce,
-        usdcContract
+        usdcContract,
+        { name: requirements.extra?.name || 'USDC', version: requirements.extra?.version || '2' }
       );
 
       // Step 7: Build payment payload
@@ -326,8 +371,11 @@ export const arcTools: Record<string, CoreTool> = {
         success: true,
         paid: true,
         price_usdc: priceUSDC,
+        asset: requirements.extra?.name || 'USDC',
         transaction: txHash,
         explorer_url: txHash ? `https://testnet.arcscan.app/tx/${txHash}` : null,
+        access_receipt: paidRes.headers.get('x-access-receipt'),
+        access_pass: paidRes.headers.get('x-access-pass'),
         content: content.substring(0, 1000) + (content.length > 1000 ? '...' : ''),
         full_content_length: content.length,
       };